@@ -5,6 +5,8 @@ import chalk from 'chalk';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
+import { PrimitiveManifestSchema } from '../src/core/manifest.js';
+import { buildRegistryIndex } from '../src/core/registry.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -31,7 +33,7 @@ class FactoryRunner {
   mutate: ['src/index.ts'],
   tsconfigFile: 'tsconfig.json',
   plugins: ['@stryker-mutator/vitest-runner', '@stryker-mutator/typescript-checker'],
-  reporters: ['html', 'clear-text'],
+  reporters: ['html', 'clear-text', 'json'],
   timeoutMS: 180000,
   timeoutFactor: 1.5,
   ignoreStatic: true,
@@ -40,6 +42,29 @@ class FactoryRunner {
     await fs.writeFile(path.join(folder, 'stryker.conf.js'), strykerConfig);
   }
 
+  /**
+   * Write the achieved mutation score and test setup into primitive.json,
+   * so `skel primitive show` can report them
+   */
+  private async recordGauntletResults(folder: string): Promise<void> {
+    const report = await fs.readJson(path.join(folder, 'reports', 'mutation', 'mutation.json'));
+    const statuses: string[] = Object.values(report.files as Record<string, { mutants: Array<{ status: string }> }>)
+      .flatMap(file => file.mutants.map(mutant => mutant.status));
+    const detected = statuses.filter(status => status === 'Killed' || status === 'Timeout').length;
+    const valid = statuses.filter(status => !['CompileError', 'RuntimeError', 'Ignored'].includes(status)).length;
+    const tests = await fs.readFile(path.join(folder, 'src', 'index.test.ts'), 'utf-8');
+
+    const manifestPath = path.join(folder, 'primitive.json');
+    const manifest = PrimitiveManifestSchema.parse(await fs.readJson(manifestPath));
+    manifest.gauntlet = {
+      ...manifest.gauntlet,
+      mutationScore: valid === 0 ? 100 : Math.round((detected / valid) * 1000) / 10,
+      testFramework: 'vitest',
+      propertyTests: tests.includes('fast-check'),
+    };
+    await fs.writeJson(manifestPath, manifest, { spaces: 2 });
+  }
+
   private async generateVitestConfig(folder: string): Promise<void> {
     const vitestConfig = `import { defineConfig } from 'vitest/config';
 
@@ -144,12 +169,12 @@ export default defineConfig({
 
       await fs.writeJson(path.join(folder, 'package.json'), packageJson, { spaces: 2 });
 
-      // Create primitive.json
-      const primitiveJson = {
+      // Create primitive.json (validated against the manifest schema)
+      const primitiveJson = PrimitiveManifestSchema.parse({
         id: item.id,
         version: item.version,
         description: item.description
-      };
+      });
 
       await fs.writeJson(path.join(folder, 'primitive.json'), primitiveJson, { spaces: 2 });
 
@@ -200,6 +225,8 @@ export default defineConfig({
         throw new Error(`Mutation testing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
 
+      await this.recordGauntletResults(folder);
+
       console.log(chalk.green('✅ Gauntlet passed'));
 
       console.log(chalk.magenta('📦 Publishing...'));
@@ -228,10 +255,14 @@ export default defineConfig({
         });
 
         archive.pipe(output);
-        archive.directory(folder, false);
+        // Installed dependencies are not part of the primitive; skel rejects oversized archives
+        archive.glob('**/*', { cwd: folder, ignore: ['node_modules/**'] });
         archive.finalize();
       });
 
+      // Index the vault so it can be served as an HTTP registry
+      await fs.writeJson(path.join(vaultDir, 'index.json'), await buildRegistryIndex(vaultDir), { spaces: 2 });
+
       console.log(chalk.green('✅ Published'));
 
       // Update queue - mark as completed
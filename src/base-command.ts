@@ -0,0 +1,91 @@
+import { Command } from '@oclif/core';
+import inquirer from 'inquirer';
+import { SkelError } from './core/errors.js';
+import { DetectedStack, DetectionCandidate } from './core/frameworks/detector.js';
+import { isAmbiguous } from './core/frameworks/scoring.js';
+
+export interface ErrorJson {
+  error: {
+    /** SkelError code, oclif error code, or UNKNOWN_ERROR */
+    code: string;
+    message: string;
+    exit: number;
+  };
+}
+
+/**
+ * Base class for skel commands
+ * Adds the global --json flag: whatever run() returns is printed as JSON, and
+ * this.log output is suppressed
+ */
+export abstract class BaseCommand extends Command {
+  static override enableJsonFlag = true;
+
+  /**
+   * Exit with an error, keeping the SkelError code for --json output
+   */
+  protected fail(error: unknown, exit = 2): never {
+    this.error(error instanceof Error ? error.message : 'An unknown error occurred', {
+      exit,
+      code: error instanceof SkelError ? error.code : undefined,
+    });
+  }
+
+  /**
+   * Mark the run as failed without throwing, for commands whose --json output
+   * should still carry their report
+   */
+  protected failWithResult<T>(result: T, message: string, code: string): T {
+    if (this.jsonEnabled()) {
+      process.exitCode = 1;
+      return result;
+    }
+    this.error(message, { exit: 1, code });
+  }
+
+  /**
+   * Settle on one stack when the best detection candidates score too close to call
+   * The user is asked when there is a terminal; otherwise the best candidate is kept and a warning returned
+   *
+   * @param candidates - Ranked candidates from FrameworkDetector.detectAll()
+   * @param stack - Stack to use when the ranking is not ambiguous
+   */
+  protected async disambiguateStack(
+    candidates: DetectionCandidate[],
+    stack: DetectedStack
+  ): Promise<{ stack: DetectedStack; warning?: string }> {
+    if (!isAmbiguous(candidates)) {
+      return { stack };
+    }
+
+    const label = (candidate: DetectionCandidate) =>
+      `${candidate.stack.framework} (${candidate.stack.language}, score ${candidate.score.toFixed(2)})`;
+    if (!process.stdin.isTTY || this.jsonEnabled()) {
+      return {
+        stack,
+        warning: `Several stacks match: ${candidates.map(label).join(', ')}. Using ${stack.framework}`,
+      };
+    }
+
+    const { selected } = await inquirer.prompt([
+      {
+        name: 'selected',
+        message: 'Several stacks match this project. Which one should the adapter target?',
+        type: 'list',
+        choices: candidates.map((candidate, index) => ({ name: label(candidate), value: index })),
+      },
+    ]);
+    return { stack: candidates[selected].stack };
+  }
+
+  protected override toErrorJson(err: unknown): ErrorJson {
+    const error = err as { message?: string; code?: unknown; oclif?: { exit?: number } };
+    return {
+      error: {
+        code: typeof error.code === 'string' ? error.code : 'UNKNOWN_ERROR',
+        message: error.message ?? String(err),
+        exit: error.oclif?.exit ?? 1,
+      },
+    };
+  }
+}
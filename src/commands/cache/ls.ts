@@ -0,0 +1,34 @@
+import { BaseCommand } from '../../base-command.js';
+import { CacheEntry, formatSize, getCacheDir, listCache } from '../../core/cache.js';
+
+export default class CacheLs extends BaseCommand {
+  static override description = 'List primitive archives in the local cache';
+
+  static override examples = ['<%= config.bin %> <%= command.id %>', '<%= config.bin %> <%= command.id %> --json'];
+
+  public async run(): Promise<{ dir: string; entries: CacheEntry[] }> {
+    await this.parse(CacheLs);
+
+    try {
+      const entries = await listCache();
+
+      if (entries.length === 0) {
+        this.log(`Cache is empty (${getCacheDir()})`);
+        return { dir: getCacheDir(), entries };
+      }
+
+      this.log(`Cached archives in ${getCacheDir()}:\n`);
+      for (const entry of entries) {
+        this.log(`  ${entry.id}@${entry.version}  ${entry.sha256.slice(0, 12)}  ${formatSize(entry.size)}`);
+        this.log(`    ${entry.source} (last used ${entry.lastUsedAt.slice(0, 10)})`);
+      }
+
+      const total = entries.reduce((sum, entry) => sum + entry.size, 0);
+      this.log(`\n${entries.length} archive(s), ${formatSize(total)}`);
+
+      return { dir: getCacheDir(), entries };
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import { Flags } from '@oclif/core';
+import { BaseCommand } from '../../base-command.js';
+import { CacheEntry, formatSize, pruneCache } from '../../core/cache.js';
+
+export default class CachePrune extends BaseCommand {
+  static override description = 'Remove corrupted archives and archives not used recently from the cache';
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --days 7',
+    '<%= config.bin %> <%= command.id %> --all',
+    '<%= config.bin %> <%= command.id %> --all --json',
+  ];
+
+  static override flags = {
+    days: Flags.integer({
+      description: 'Remove archives not used for this many days',
+      default: 30,
+      min: 0,
+    }),
+    all: Flags.boolean({
+      description: 'Empty the cache',
+      default: false,
+    }),
+  };
+
+  public async run(): Promise<{ removed: CacheEntry[]; freed: number }> {
+    const { flags } = await this.parse(CachePrune);
+
+    try {
+      const removed = await pruneCache({ olderThanDays: flags.days, all: flags.all });
+
+      if (removed.length === 0) {
+        this.log('Nothing to prune.');
+        return { removed, freed: 0 };
+      }
+
+      for (const entry of removed) {
+        this.log(`  • ${entry.id}@${entry.version}  ${entry.sha256.slice(0, 12)}`);
+      }
+
+      const freed = removed.reduce((sum, entry) => sum + entry.size, 0);
+      this.log(`\n✓ Removed ${removed.length} archive(s), freed ${formatSize(freed)}`);
+
+      return { removed, freed };
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+}
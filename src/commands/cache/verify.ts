@@ -0,0 +1,42 @@
+import { BaseCommand } from '../../base-command.js';
+import { CacheEntry, verifyCache } from '../../core/cache.js';
+
+export default class CacheVerify extends BaseCommand {
+  static override description = 'Re-hash every cached archive and report corrupted entries';
+
+  static override examples = ['<%= config.bin %> <%= command.id %>', '<%= config.bin %> <%= command.id %> --json'];
+
+  public async run(): Promise<{ entries: Array<CacheEntry & { valid: boolean }> }> {
+    await this.parse(CacheVerify);
+
+    let results: Array<CacheEntry & { valid: boolean }>;
+    try {
+      results = await verifyCache();
+    } catch (error) {
+      this.fail(error);
+    }
+
+    if (results.length === 0) {
+      this.log('Cache is empty.');
+      return { entries: results };
+    }
+
+    for (const entry of results) {
+      this.log(`  ${entry.valid ? '✓' : '✗'} ${entry.id}@${entry.version}  ${entry.sha256.slice(0, 12)}`);
+    }
+
+    const corrupted = results.filter(entry => !entry.valid).length;
+    this.log('');
+
+    if (corrupted > 0) {
+      return this.failWithResult(
+        { entries: results },
+        `${corrupted} of ${results.length} cached archive(s) do not match their hash. Run "skel cache prune" to remove them`,
+        'CACHE_CORRUPTED'
+      );
+    }
+
+    this.log(`✓ All ${results.length} cached archive(s) verified`);
+    return { entries: results };
+  }
+}
@@ -0,0 +1,137 @@
+import { Flags } from '@oclif/core';
+import path from 'path';
+import { BaseCommand } from '../base-command.js';
+import { PackageNotFoundError } from '../core/errors.js';
+import {
+  DataLayer,
+  DetectedStack,
+  DetectionCandidate,
+  DetectorReport,
+  FrameworkDetector,
+  PackageStack,
+} from '../core/frameworks/detector.js';
+import { isAmbiguous } from '../core/frameworks/scoring.js';
+import { findWorkspacePackage } from '../core/frameworks/workspace.js';
+
+export interface DetectResult {
+  stack: DetectedStack;
+  /** Every matching stack, best score first */
+  candidates: DetectionCandidate[];
+  /** One stack per workspace package, when the project is a monorepo */
+  packages?: PackageStack[];
+  /** Every detector's evidence trail, with --explain */
+  detectors?: DetectorReport[];
+}
+
+/** e.g. "prisma (orm, postgres), pg (driver, postgres)" */
+const describeData = (data: DataLayer[]): string =>
+  data.map(layer => `${layer.name} (${[layer.role, layer.database].filter(Boolean).join(', ')})`).join(', ');
+
+export default class Detect extends BaseCommand {
+  static override description = 'Detect the language, framework and data layer of the current project';
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --explain',
+    '<%= config.bin %> <%= command.id %> --package apps/api --explain',
+    '<%= config.bin %> <%= command.id %> --explain --json',
+  ];
+
+  static override flags = {
+    explain: Flags.boolean({
+      description: 'Show the evidence behind the result, including why other detectors found nothing',
+      default: false,
+    }),
+    package: Flags.string({
+      char: 'p',
+      description: 'Only detect this workspace package (name or folder)',
+    }),
+  };
+
+  public async run(): Promise<DetectResult> {
+    const { flags } = await this.parse(Detect);
+    const projectPath = process.cwd();
+
+    let result: DetectResult;
+    try {
+      const workspace = new FrameworkDetector(projectPath);
+      const packages = await workspace.detectPackages();
+      let cwd = projectPath;
+      if (flags.package) {
+        const match = findWorkspacePackage(packages, flags.package, await workspace.detectRoot());
+        if (!match) {
+          throw new PackageNotFoundError(flags.package, packages.map(pkg => pkg.path));
+        }
+        cwd = path.join(projectPath, match.path);
+      }
+
+      const detector = new FrameworkDetector(cwd);
+      result = flags.explain
+        ? await detector.explain()
+        : { stack: await detector.detect(), candidates: await detector.detectAll() };
+      if (!flags.package && packages.length > 1) {
+        result.packages = packages;
+      }
+    } catch (error) {
+      this.fail(error);
+    }
+
+    const { stack } = result;
+    this.log('\n🛡️ Detected Stack\n');
+    this.log(`  Language: ${stack.language}`);
+    this.log(`  Framework: ${stack.framework}${stack.version ? ` ${stack.version}` : ''}`);
+    if (stack.runtime) {
+      this.log(`  Runtime: ${stack.runtime}`);
+    }
+    if (stack.appModel) {
+      this.log(`  App model: ${stack.appModel}`);
+    }
+    this.log(`  Data layers: ${stack.data ? describeData(stack.data) : 'none'}`);
+    this.log(`  Confidence: ${Math.round((stack.confidence ?? 0) * 100)}%`);
+
+    if (result.candidates.length > 1 || flags.explain) {
+      this.log('\nCandidates:');
+      result.candidates.forEach((candidate, index) => {
+        this.log(`  ${index + 1}. ${candidate.stack.framework} (${candidate.stack.language})  score ${candidate.score.toFixed(2)}`);
+        if (flags.explain) {
+          candidate.signals.forEach(signal =>
+            this.log(`       +${signal.weight.toFixed(2)} ${signal.kind.padEnd(10)} ${signal.message}`)
+          );
+        }
+      });
+      if (isAmbiguous(result.candidates)) {
+        this.log('  ⚠️ The top candidates are close; commands that generate adapters will ask which one to use');
+      }
+    }
+
+    if (result.packages) {
+      this.log('\nWorkspace packages:');
+      for (const pkg of result.packages) {
+        const name = pkg.name === pkg.path ? '' : ` (${pkg.name})`;
+        const data = pkg.stack.data ? ` + ${pkg.stack.data.map(layer => layer.name).join(', ')}` : '';
+        const version = pkg.stack.version ? ` ${pkg.stack.version}` : '';
+        const runtime = pkg.stack.runtime && pkg.stack.runtime !== 'node' ? ` on ${pkg.stack.runtime}` : '';
+        const appModel = pkg.stack.appModel ? ` (${pkg.stack.appModel})` : '';
+        this.log(`  ${pkg.path}${name}: ${pkg.stack.language} / ${pkg.stack.framework}${version}${runtime}${appModel}${data}`);
+      }
+    }
+
+    if (result.detectors) {
+      this.log('\nEvidence:');
+      for (const report of result.detectors) {
+        const outcome = report.error
+          ? `failed: ${report.error}`
+          : report.result
+            ? `${report.result.stack.framework} (${Math.round(report.result.confidence * 100)}%)`
+            : 'no match';
+        this.log(`\n  ${report.result ? '✓' : '✗'} ${report.detector}: ${outcome}`);
+        for (const evidence of report.evidence) {
+          this.log(`      ${evidence.kind.padEnd(10)} ${evidence.message}`);
+        }
+      }
+    }
+    this.log('');
+
+    return result;
+  }
+}
@@ -1,30 +1,34 @@
-import { Command } from '@oclif/core';
-import fs from 'fs-extra';
-import path from 'path';
+import { BaseCommand } from '../base-command.js';
+import { InvalidProjectError } from '../core/errors.js';
+import { loadProjectConfig, SkeletonConfig } from '../core/project-config.js';
 
-export default class Info extends Command {
+export default class Info extends BaseCommand {
   static override description = 'Display information about the current project';
 
-  static override examples = ['<%= config.bin %> <%= command.id %>'];
+  static override examples = ['<%= config.bin %> <%= command.id %>', '<%= config.bin %> <%= command.id %> --json'];
 
-  public async run(): Promise<void> {
-    const configPath = path.join(process.cwd(), 'skeleton.config.json');
-    
-    if (!await fs.pathExists(configPath)) {
-      this.error('Not a skeleton project. Run `skel init` first.');
+  public async run(): Promise<SkeletonConfig> {
+    await this.parse(Info);
+
+    let config: SkeletonConfig;
+    try {
+      config = await loadProjectConfig(process.cwd());
+    } catch (error) {
+      if (error instanceof InvalidProjectError) {
+        this.error('Not a skeleton project. Run `skel init` first.', { code: error.code });
+      }
+      this.fail(error);
     }
 
-    const config = await fs.readJson(configPath);
-    
     this.log('\n📦 Project Information\n');
     this.log(`  Name: ${config.name}`);
     this.log(`  Version: ${config.version}`);
-    this.log(`  Skeletons: ${config.skeletons?.length || 0}`);
-    if (config.skeletons?.length > 0) {
-      config.skeletons.forEach((s: string) => {
-        this.log(`    • ${s}`);
-      });
-    }
+    this.log(`  Primitives: ${config.primitives.length}`);
+    config.primitives.forEach(p => {
+      this.log(`    • ${p}`);
+    });
     this.log('');
+
+    return config;
   }
 }
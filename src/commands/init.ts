@@ -1,31 +1,38 @@
-import { Command, Flags, ux } from '@oclif/core';
+import { Flags, ux } from '@oclif/core';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
+import { BaseCommand } from '../base-command.js';
 import { createNewProject } from '../core/file-system.js';
 import { validateProjectName } from '../core/validation.js';
 import { ProjectExistsError } from '../core/errors.js';
 import fs from 'fs-extra';
 import path from 'path';
 
-export default class Init extends Command {
+export interface InitResult {
+  name: string;
+  path: string;
+}
+
+export default class Init extends BaseCommand {
   static override description = 'Initialize a new Software Skeleton project';
 
   static override examples = [
     '<%= config.bin %> <%= command.id %>',
     '<%= config.bin %> <%= command.id %> --name my-project',
+    '<%= config.bin %> <%= command.id %> --name my-project --json',
   ];
 
   static override flags = {
     name: Flags.string({ char: 'n', description: 'Name of the project' }),
   };
 
-  public async run(): Promise<void> {
+  public async run(): Promise<InitResult> {
     const { flags } = await this.parse(Init);
 
     let projectName = flags.name;
 
-    // 1. Use 'inquirer' if the flag is missing
-    if (!projectName) {
+    // 1. Use 'inquirer' if the flag is missing (never prompt when the output is JSON)
+    if (!projectName && !this.jsonEnabled()) {
       const responses = await inquirer.prompt([
         {
           name: 'projectName',
@@ -38,12 +45,12 @@ export default class Init extends Command {
     }
 
     if (!projectName) {
-      this.error('Project name is required.', { exit: 1 });
+      this.error('Project name is required.', { exit: 1, code: 'INVALID_PROJECT_NAME' });
     }
 
     const validation = validateProjectName(projectName);
     if (validation !== true) {
-      this.error(validation, { exit: 1 });
+      this.error(validation, { exit: 1, code: 'INVALID_PROJECT_NAME' });
     }
 
     const projectPath = path.join(process.cwd(), projectName);
@@ -64,11 +71,10 @@ export default class Init extends Command {
         `\nSuccess! Project "${projectName}" created successfully.`
       );
 
+      return { name: projectName, path: projectPath };
     } catch (error) {
       ux.action.stop('Failed.');
-      this.error(error instanceof Error ? error.message : 'An unknown error occurred', {
-        exit: 2,
-      });
+      this.fail(error);
     }
   }
 }
@@ -1,64 +1,160 @@
-import { Command, Flags, ux, Args } from '@oclif/core';
+import { Flags, ux, Args } from '@oclif/core';
+import inquirer from 'inquirer';
 import path from 'path';
-import { installPrimitive } from '../../core/file-system.js';
-import { FrameworkDetector } from '../../core/frameworks/detector.js';
+import { BaseCommand } from '../../base-command.js';
+import { installPrimitiveWithDependencies, recordAdapter } from '../../core/file-system.js';
+import { readLockfile } from '../../core/lockfile.js';
+import { ResolvedPrimitive } from '../../core/dependencies.js';
+import { InvalidArchiveError, parseArchiveName } from '../../core/vault.js';
+import { PackageNotFoundError } from '../../core/errors.js';
+import { DetectedStack, FrameworkDetector, PackageStack } from '../../core/frameworks/detector.js';
+import { findWorkspacePackage, WorkspacePackage } from '../../core/frameworks/workspace.js';
 import { AdapterGenerator } from '../../core/frameworks/adapter-generator.js';
 
-export default class PrimitiveAdd extends Command {
+export interface AddResult {
+  id: string;
+  version: string;
+  /** Every primitive in the dependency graph, requested one last */
+  primitives: ResolvedPrimitive[];
+  /** Files copied into the project by this run, relative to the project root */
+  files: string[];
+  /** Workspace package that received the adapter */
+  package: WorkspacePackage | null;
+  stack: DetectedStack | null;
+  /** variant is the template folder chosen for the framework version, runtime and app model, if the template has variants */
+  adapter: { path: string; files: string[]; variant?: string } | null;
+  warnings: string[];
+}
+
+export default class PrimitiveAdd extends BaseCommand {
   static override description = 'Add a primitive to your project';
 
   static override examples = [
     '<%= config.bin %> <%= command.id %> security.hasher',
     '<%= config.bin %> <%= command.id %> security.hasher --version 1.0.0',
+    '<%= config.bin %> <%= command.id %> security.hasher --version ^1.2',
+    '<%= config.bin %> <%= command.id %> security.hasher --vault ../skel/dist/vault',
+    '<%= config.bin %> <%= command.id %> ./security.hasher.v1.0.0.zip',
+    '<%= config.bin %> <%= command.id %> security.hasher --package apps/api',
+    '<%= config.bin %> <%= command.id %> security.hasher --json',
   ];
 
   static override flags = {
     version: Flags.string({
       char: 'v',
-      description: 'Version of the primitive to install',
-      default: '1.0.0',
+      description: 'Version or semver range to install (e.g., 1.0.0, ^1.2, ~1.0.3, latest)',
+      default: 'latest',
+    }),
+    vault: Flags.string({
+      description: 'Install from a directory of published vault archives instead of the primitive library',
+    }),
+    package: Flags.string({
+      char: 'p',
+      description: 'Workspace package (name or folder) that receives the adapter, for monorepos',
     }),
   };
 
   static override args = {
     primitiveId: Args.string({
       required: true,
-      description: 'Primitive ID in format "category.name" (e.g., security.hasher)',
+      description: 'Primitive ID in format "category.name" (e.g., security.hasher), or a path to a vault archive',
     }),
   };
 
-  public async run(): Promise<void> {
+  public async run(): Promise<AddResult> {
     const { args, flags } = await this.parse(PrimitiveAdd);
-    const { primitiveId } = args;
+
+    // An archive path installs that exact version, resolving its requirements from the same vault
+    const archive = args.primitiveId.endsWith('.zip') ? path.resolve(args.primitiveId) : undefined;
+    const parsed = archive ? parseArchiveName(archive) : { id: args.primitiveId, version: flags.version };
+    if (!parsed) {
+      this.fail(new InvalidArchiveError(args.primitiveId, 'expected a file named "<category>.<name>.v<version>.zip"'));
+    }
+    const vault = archive ? path.dirname(archive) : flags.vault && path.resolve(flags.vault);
+
+    // Pick the target package before installing so a bad --package fails early
+    const projectPath = process.cwd();
+    const detector = new FrameworkDetector(projectPath);
+    const packages = await detector.detectPackages();
+    const target = await this.selectPackage(packages, flags.package, await detector.detectRoot());
 
     this.log(
-      `Installing primitive: ${primitiveId}@${flags.version}`
+      `Installing primitive: ${parsed.id}@${parsed.version}`
     );
     ux.action.start('Fetching primitive...');
 
     try {
-      const projectPath = process.cwd();
-      await installPrimitive(projectPath, primitiveId, flags.version);
+      const graph = await installPrimitiveWithDependencies(projectPath, parsed.id, parsed.version, { vault });
+      const { id: primitiveId, version } = graph[graph.length - 1];
+      const result: AddResult = {
+        id: primitiveId,
+        version,
+        primitives: graph,
+        files: [],
+        package: target ? { name: target.name, path: target.path } : null,
+        stack: null,
+        adapter: null,
+        warnings: [],
+      };
+
+      const lock = await readLockfile(projectPath);
+      for (const primitive of graph.filter(p => !p.installed)) {
+        const dir = ['primitives', ...primitive.id.split('.'), primitive.version].join('/');
+        const locked = lock.primitives[`${primitive.id}@${primitive.version}`];
+        result.files.push(...Object.keys(locked?.files ?? {}).map(file => `${dir}/${file}`));
+      }
 
       ux.action.stop('Done!');
+      for (const dependency of graph.slice(0, -1)) {
+        this.log(
+          dependency.installed
+            ? `  • ${dependency.id}@${dependency.version} (already installed)`
+            : `  • ${dependency.id}@${dependency.version} (dependency)`
+        );
+      }
       this.log(
-        `\n✓ Primitive "${primitiveId}@${flags.version}" installed successfully!`
+        `\n✓ Primitive "${primitiveId}@${version}" installed successfully!`
       );
 
-      // Framework detection and adapter generation
-      const detector = new FrameworkDetector(projectPath);
-      const stack = await detector.detect();
-
-      if (stack.framework !== 'unknown') {
+      // Adapter generation for the stack of the target package
+      if (!target) {
+        result.warnings.push(
+          `${packages.length} workspace packages found, pass --package to choose which one receives the adapter`
+        );
+        this.log(`⚠️ ${packages.length} workspace packages found, pass --package to choose which one receives the adapter`);
+      } else if (target.stack.framework !== 'unknown') {
+        const packageDir = path.join(projectPath, target.path);
+        const { stack, warning } = await this.disambiguateStack(
+          await new FrameworkDetector(packageDir).detectAll(),
+          target.stack
+        );
+        if (warning) {
+          result.warnings.push(warning);
+          this.log(`⚠️ ${warning}`);
+        }
+        result.stack = stack;
         const confidence = Math.round((stack.confidence || 0) * 100);
-        this.log(`\n🛡️ Detected Stack: ${stack.framework} (Confidence: ${confidence}%)`);
+        const where = target.path === '.' ? '' : ` in ${target.path}`;
+        const version = stack.version ? ` ${stack.version}` : '';
+        const runtime = stack.runtime && stack.runtime !== 'node' ? ` on ${stack.runtime}` : '';
+        const appModel = stack.appModel ? ` (${stack.appModel})` : '';
+        this.log(`\n🛡️ Detected Stack: ${stack.framework}${version}${runtime}${appModel}${where} (Confidence: ${confidence}%)`);
 
         try {
           const generator = new AdapterGenerator();
-          const targetDir = path.join(projectPath, 'src', 'adapters', primitiveId.replace('.', '/'));
+          const targetDir = path.join(packageDir, 'src', 'adapters', primitiveId.replace('.', '/'));
+          const rendered = await generator.render(primitiveId, stack);
+          const variant = await generator.selectVariant(primitiveId, stack);
           await generator.generate(primitiveId, stack, targetDir);
-          this.log(`✓ Adapter generated at: ${targetDir}`);
+          await recordAdapter(projectPath, primitiveId, targetDir, rendered, packageDir);
+          result.adapter = {
+            path: path.relative(projectPath, targetDir).split(path.sep).join('/'),
+            files: Object.keys(rendered).sort(),
+            ...(variant && { variant }),
+          };
+          this.log(`✓ Adapter generated at: ${targetDir}${variant ? ` (${variant} template)` : ''}`);
         } catch (error) {
+          result.warnings.push(`No adapter found for ${stack.framework}, manual integration required`);
           this.log(`⚠️ No adapter found for ${stack.framework}, manual integration required`);
         }
       }
@@ -66,17 +162,50 @@ export default class PrimitiveAdd extends Command {
       this.log(
         `\nNext steps:\n- Review the installed primitive in ./primitives/${primitiveId.split('.')[0]}/${primitiveId.split('.')[1]}/`
       );
+
+      return result;
     } catch (error) {
       ux.action.stop('Failed.');
-      this.error(
-        error instanceof Error ? error.message : 'An unknown error occurred',
-        {
-          exit: 2,
-        }
-      );
+      this.fail(error);
     }
   }
-}
-
+  /**
+   * Choose the workspace package that receives the adapter
+   * --package wins; otherwise a lone package, or the only one with a detected stack,
+   * is used, and the user is asked when there are several. Undefined when no choice can be made
+   */
+  private async selectPackage(
+    packages: PackageStack[],
+    ref: string | undefined,
+    root: PackageStack
+  ): Promise<PackageStack | undefined> {
+    if (ref) {
+      const match = findWorkspacePackage(packages, ref, root);
+      if (!match) {
+        this.fail(new PackageNotFoundError(ref, packages.map(pkg => pkg.path)));
+      }
+      return match;
+    }
 
+    if (packages.length === 1) {
+      return packages[0];
+    }
+    const detected = packages.filter(pkg => pkg.stack.framework !== 'unknown');
+    if (detected.length <= 1) {
+      return detected[0] ?? packages[0];
+    }
+    if (!process.stdin.isTTY || this.jsonEnabled()) {
+      return undefined;
+    }
 
+    const { selected } = await inquirer.prompt([
+      {
+        name: 'selected',
+        message: 'Which package should receive the adapter?',
+        type: 'list',
+        choices: detected.map(pkg => ({ name: `${pkg.path} (${pkg.stack.framework})`, value: pkg.path })),
+      },
+    ]);
+    return detected.find(pkg => pkg.path === selected);
+  }
+}
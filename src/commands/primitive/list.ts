@@ -1,41 +1,41 @@
-import { Command, ux } from '@oclif/core';
-import { listPrimitives } from '../../core/file-system.js';
+import { ux } from '@oclif/core';
+import { BaseCommand } from '../../base-command.js';
+import { LIBRARY, listAvailablePrimitives } from '../../core/file-system.js';
+import { PrimitiveSummary } from '../../core/registry.js';
 
-export default class PrimitiveList extends Command {
+export default class PrimitiveList extends BaseCommand {
   static override description = 'List all available primitives';
 
-  static override examples = ['<%= config.bin %> <%= command.id %>'];
+  static override examples = ['<%= config.bin %> <%= command.id %>', '<%= config.bin %> <%= command.id %> --json'];
 
-  public async run(): Promise<void> {
+  public async run(): Promise<{ primitives: PrimitiveSummary[] }> {
     await this.parse(PrimitiveList);
     this.log('Available Primitives:');
     this.log('');
 
     try {
-      const primitives = await listPrimitives();
+      const primitives = await listAvailablePrimitives(process.cwd());
 
       if (primitives.length === 0) {
         this.log('No primitives found.');
-        return;
+        return { primitives };
       }
 
       for (const primitive of primitives) {
         this.log(
-          `  ${primitive.id}@${primitive.version}`
+          primitive.registry === LIBRARY
+            ? `  ${primitive.id}@${primitive.version}`
+            : `  ${primitive.id}@${primitive.version} (${primitive.registry})`
         );
         this.log(
           `    ${primitive.description}`
         );
         this.log('');
       }
+
+      return { primitives };
     } catch (error) {
-      this.error(
-        error instanceof Error ? error.message : 'An unknown error occurred',
-        {
-          exit: 2,
-        }
-      );
+      this.fail(error);
     }
   }
 }
-
@@ -0,0 +1,95 @@
+import { Flags, ux, Args } from '@oclif/core';
+import inquirer from 'inquirer';
+import { BaseCommand } from '../../base-command.js';
+import { removePrimitive } from '../../core/file-system.js';
+import { parsePrimitiveRef } from '../../core/validation.js';
+import { AdapterModifiedError } from '../../core/errors.js';
+
+export interface RemoveResult {
+  id: string;
+  /** Versions removed; empty when the removal was aborted */
+  versions: string[];
+  adapterRemoved: boolean;
+}
+
+export default class PrimitiveRemove extends BaseCommand {
+  static override description = 'Remove a primitive and its generated adapter from your project';
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> security.tokenizer',
+    '<%= config.bin %> <%= command.id %> security.tokenizer@1.0.0',
+    '<%= config.bin %> <%= command.id %> security.tokenizer --force',
+    '<%= config.bin %> <%= command.id %> security.tokenizer --force --json',
+  ];
+
+  static override flags = {
+    force: Flags.boolean({
+      char: 'f',
+      description: 'Remove the adapter even if it has been edited since it was generated',
+      default: false,
+    }),
+  };
+
+  static override args = {
+    primitiveRef: Args.string({
+      required: true,
+      description: 'Primitive ID, optionally with a version (e.g., security.tokenizer@1.0.0)',
+    }),
+  };
+
+  public async run(): Promise<RemoveResult> {
+    const { args, flags } = await this.parse(PrimitiveRemove);
+    const { primitiveId, version } = parsePrimitiveRef(args.primitiveRef);
+    const projectPath = process.cwd();
+
+    let force = flags.force;
+    let result: { versions: string[]; adapterRemoved: boolean } | undefined;
+
+    while (!result) {
+      ux.action.start(`Removing ${args.primitiveRef}`);
+      try {
+        result = await removePrimitive(projectPath, primitiveId, version, { force });
+        ux.action.stop('Done!');
+      } catch (error) {
+        ux.action.stop('Failed.');
+
+        if (error instanceof AdapterModifiedError && !force && process.stdin.isTTY && !this.jsonEnabled()) {
+          this.log(`\n⚠️ The adapter for ${primitiveId} has been edited since it was generated:`);
+          error.files.forEach(file => this.log(`    • ${file}`));
+          const { confirmed } = await inquirer.prompt([
+            {
+              name: 'confirmed',
+              message: 'Delete it anyway?',
+              type: 'confirm',
+              default: false,
+            },
+          ]);
+          if (!confirmed) {
+            this.log('Aborted. Nothing was removed.');
+            return { id: primitiveId, versions: [], adapterRemoved: false };
+          }
+          force = true;
+          continue;
+        }
+
+        if (error instanceof AdapterModifiedError) {
+          this.error(`${error.message}\nRe-run with --force to delete it anyway.`, {
+            exit: 1,
+            code: error.code,
+          });
+        }
+
+        this.fail(error);
+      }
+    }
+
+    for (const v of result.versions) {
+      this.log(`✓ Removed ${primitiveId}@${v}`);
+    }
+    if (result.adapterRemoved) {
+      this.log(`✓ Removed adapter for ${primitiveId}`);
+    }
+
+    return { id: primitiveId, ...result };
+  }
+}
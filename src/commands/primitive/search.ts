@@ -0,0 +1,69 @@
+import { Args, Flags } from '@oclif/core';
+import { BaseCommand } from '../../base-command.js';
+import { listAvailablePrimitives } from '../../core/file-system.js';
+import { SearchResult, searchPrimitives } from '../../core/search.js';
+
+export default class PrimitiveSearch extends BaseCommand {
+  static override description = 'Search available primitives by id, description, tags and interface';
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> "jwt sign"',
+    '<%= config.bin %> <%= command.id %> uuid --category utils',
+    '<%= config.bin %> <%= command.id %> token --tag auth --tag jwt',
+    '<%= config.bin %> <%= command.id %> uuid --json',
+  ];
+
+  static override flags = {
+    category: Flags.string({
+      char: 'c',
+      description: 'Only primitives in this category (e.g., security)',
+    }),
+    tag: Flags.string({
+      char: 't',
+      description: 'Only primitives with this tag (repeatable)',
+      multiple: true,
+    }),
+    limit: Flags.integer({
+      char: 'n',
+      description: 'Maximum number of results',
+      default: 10,
+      min: 1,
+    }),
+  };
+
+  static override args = {
+    query: Args.string({
+      required: true,
+      description: 'What you are looking for, e.g. "jwt sign"',
+    }),
+  };
+
+  public async run(): Promise<{ results: SearchResult[] }> {
+    const { args, flags } = await this.parse(PrimitiveSearch);
+
+    try {
+      const results = searchPrimitives(await listAvailablePrimitives(process.cwd()), args.query, {
+        category: flags.category,
+        tags: flags.tag,
+      }).slice(0, flags.limit);
+
+      if (results.length === 0) {
+        this.log(`No primitives match "${args.query}".`);
+        return { results };
+      }
+
+      for (const { primitive, score } of results) {
+        this.log(`  ${primitive.id}@${primitive.version}  (${score.toFixed(2)})`);
+        this.log(`    ${primitive.description}`);
+        if (primitive.manifest.tags.length > 0) {
+          this.log(`    tags: ${primitive.manifest.tags.join(', ')}`);
+        }
+        this.log('');
+      }
+
+      return { results };
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+}
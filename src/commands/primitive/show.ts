@@ -0,0 +1,163 @@
+import { Args } from '@oclif/core';
+import fs from 'fs-extra';
+import path from 'path';
+import semver from 'semver';
+import { BaseCommand } from '../../base-command.js';
+import { LIBRARY, listAvailablePrimitives } from '../../core/file-system.js';
+import { AdapterGenerator } from '../../core/frameworks/adapter-generator.js';
+import { PrimitiveNotFoundError } from '../../core/errors.js';
+import { CONFIG_FILE, loadProjectConfig } from '../../core/project-config.js';
+import { PrimitiveSummary } from '../../core/registry.js';
+import { parsePrimitiveRef } from '../../core/validation.js';
+import { LATEST, resolveVersion } from '../../core/versions.js';
+
+export interface ShowResult {
+  /** The version shown, with its full manifest */
+  primitive: PrimitiveSummary;
+  versions: { version: string; latest: boolean; installed: boolean; deprecated: boolean | string }[];
+  adapters: { language: string; framework: string; variants?: { range?: string; runtime?: string; appModel?: string; dir: string }[] }[];
+  /** Installed versions, or null outside a skel project */
+  installed: string[] | null;
+}
+
+export default class PrimitiveShow extends BaseCommand {
+  static override description = 'Show everything known about a primitive';
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> security.tokenizer',
+    '<%= config.bin %> <%= command.id %> security.tokenizer@1.0.0',
+    '<%= config.bin %> <%= command.id %> security.tokenizer --json',
+  ];
+
+  static override args = {
+    primitiveRef: Args.string({
+      required: true,
+      description: 'Primitive ID, optionally with a version (e.g., security.tokenizer@1.0.0). Defaults to the latest version',
+    }),
+  };
+
+  public async run(): Promise<ShowResult> {
+    const { args } = await this.parse(PrimitiveShow);
+    const { primitiveId, version: requested } = parsePrimitiveRef(args.primitiveRef);
+    const projectPath = process.cwd();
+
+    try {
+      const versions = (await listAvailablePrimitives(projectPath)).filter(p => p.id === primitiveId);
+      const available = versions.map(p => p.version);
+      const shown = resolveVersion(available, requested ?? LATEST) ?? (requested ? null : semver.rsort(available)[0]);
+      const primitive = versions.find(p => p.version === shown);
+
+      if (!primitive) {
+        throw new PrimitiveNotFoundError(args.primitiveRef);
+      }
+
+      const installed = (await fs.pathExists(path.join(projectPath, CONFIG_FILE)))
+        ? (await loadProjectConfig(projectPath)).primitives
+            .map(record => parsePrimitiveRef(record))
+            .filter(ref => ref.primitiveId === primitiveId)
+            .map(ref => ref.version as string)
+        : null;
+
+      const { manifest } = primitive;
+      this.log(`\n${primitiveId}`);
+      this.log(`  ${manifest.description}`);
+      if (manifest.tags.length > 0) {
+        this.log(`  tags: ${manifest.tags.join(', ')}`);
+      }
+      if (primitive.registry && primitive.registry !== LIBRARY) {
+        this.log(`  registry: ${primitive.registry}`);
+      }
+
+      const latest = resolveVersion(available, LATEST);
+      const listed = [...versions]
+        .sort((a, b) => semver.rcompare(a.version, b.version))
+        .map(entry => ({
+          version: entry.version,
+          latest: entry.version === latest,
+          installed: installed?.includes(entry.version) ?? false,
+          deprecated: entry.manifest.deprecated ?? false,
+        }));
+
+      this.log('\nVersions:');
+      for (const entry of listed) {
+        const notes = [
+          entry.latest ? 'latest' : '',
+          entry.installed ? 'installed' : '',
+          entry.deprecated === true ? 'deprecated' : '',
+          typeof entry.deprecated === 'string' ? `deprecated: ${entry.deprecated}` : '',
+        ].filter(Boolean);
+        const marker = entry.version === primitive.version ? '▸' : ' ';
+        this.log(`  ${marker} ${entry.version}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`);
+      }
+
+      this.log(`\nInterface (${primitive.version}):`);
+      const inputs = manifest.interface?.inputs ?? [];
+      const output = manifest.interface?.outputs;
+      if (inputs.length === 0 && !output) {
+        this.log('  not declared');
+      }
+      for (const input of inputs) {
+        this.log(`  in   ${input.name}: ${input.type}${input.description ? ` - ${input.description}` : ''}`);
+      }
+      if (output) {
+        this.log(`  out  ${output.type}${output.description ? ` - ${output.description}` : ''}`);
+      }
+
+      this.log('\nRuntime dependencies:');
+      const dependencies = Object.entries(manifest.dependencies);
+      if (dependencies.length === 0) {
+        this.log('  none');
+      }
+      dependencies.forEach(([name, range]) => this.log(`  ${name} ${range}`));
+
+      const requires = Object.entries(manifest.requires);
+      if (requires.length > 0) {
+        this.log('\nRequires primitives:');
+        requires.forEach(([id, range]) => this.log(`  ${id} ${range}`));
+      }
+
+      this.log('\nGauntlet:');
+      const gauntlet = manifest.gauntlet ?? {};
+      const required = gauntlet.mutationScoreRequired !== undefined ? ` (required ${gauntlet.mutationScoreRequired}%)` : '';
+      this.log(
+        gauntlet.mutationScore !== undefined
+          ? `  mutation score: ${gauntlet.mutationScore}%${required}`
+          : `  mutation score: not recorded${required}`
+      );
+      this.log(
+        `  property tests: ${gauntlet.propertyTests === undefined ? 'not recorded' : gauntlet.propertyTests ? 'yes' : 'no'}`
+      );
+      if (gauntlet.testFramework) {
+        this.log(`  test framework: ${gauntlet.testFramework}`);
+      }
+
+      this.log('\nAdapters:');
+      const templates = await new AdapterGenerator().listTemplates(primitiveId);
+      if (templates.length === 0) {
+        this.log('  none, manual integration required');
+      }
+      templates.forEach(({ language, framework, variants }) =>
+        this.log(
+          `  ${framework} (${language})${
+            variants
+              ? `, variants ${variants.map(variant => [variant.range, variant.runtime, variant.appModel].filter(Boolean).join(' on ')).join(' | ')}`
+              : ''
+          }`
+        )
+      );
+
+      this.log('\nThis project:');
+      if (installed === null) {
+        this.log('  not a skel project');
+      } else if (installed.length === 0) {
+        this.log('  not installed');
+      } else {
+        this.log(`  installed ${installed.join(', ')}`);
+      }
+
+      return { primitive, versions: listed, adapters: templates, installed };
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+}
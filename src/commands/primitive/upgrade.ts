@@ -0,0 +1,109 @@
+import { Flags, ux, Args } from '@oclif/core';
+import fs from 'fs-extra';
+import path from 'path';
+import { BaseCommand } from '../../base-command.js';
+import { getAdapterLocation, mergeAdapter, upgradePrimitive } from '../../core/file-system.js';
+import { FrameworkDetector } from '../../core/frameworks/detector.js';
+import { AdapterGenerator } from '../../core/frameworks/adapter-generator.js';
+
+export interface UpgradeResult {
+  id: string;
+  from: string;
+  to: string;
+  upgraded: boolean;
+  /** Adapter files regenerated or left with conflict markers, relative to the adapter directory */
+  adapter: { path: string; updated: string[]; conflicts: string[] } | null;
+  warnings: string[];
+}
+
+export default class PrimitiveUpgrade extends BaseCommand {
+  static override description = 'Upgrade an installed primitive to the newest compatible version';
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> security.tokenizer',
+    '<%= config.bin %> <%= command.id %> security.tokenizer --version ^2.0.0',
+    '<%= config.bin %> <%= command.id %> security.tokenizer --json',
+  ];
+
+  static override flags = {
+    version: Flags.string({
+      char: 'v',
+      description: 'Semver range to upgrade within (defaults to versions compatible with the installed one)',
+    }),
+  };
+
+  static override args = {
+    primitiveId: Args.string({
+      required: true,
+      description: 'Primitive ID in format "category.name" (e.g., security.tokenizer)',
+    }),
+  };
+
+  public async run(): Promise<UpgradeResult> {
+    const { args, flags } = await this.parse(PrimitiveUpgrade);
+    const { primitiveId } = args;
+    const projectPath = process.cwd();
+
+    ux.action.start(`Resolving ${primitiveId}`);
+
+    try {
+      const upgrade = await upgradePrimitive(projectPath, primitiveId, flags.version);
+      const result: UpgradeResult = { id: primitiveId, ...upgrade, adapter: null, warnings: [] };
+      ux.action.stop('Done!');
+
+      if (!result.upgraded) {
+        this.log(`✓ ${primitiveId}@${result.from} is already the newest matching version`);
+        return result;
+      }
+
+      this.log(`\n✓ Upgraded ${primitiveId} from ${result.from} to ${result.to}`);
+
+      // The adapter is regenerated for the workspace package it was generated for
+      const { dir: targetDir, packageDir } = await getAdapterLocation(projectPath, primitiveId);
+      if (!(await fs.pathExists(targetDir))) {
+        return result;
+      }
+
+      const detector = new FrameworkDetector(packageDir);
+      const detected = await detector.detect();
+
+      if (detected.framework === 'unknown') {
+        result.warnings.push(`Could not detect the stack, adapter at ${targetDir} left untouched`);
+        this.log(`⚠️ Could not detect the stack, adapter at ${targetDir} left untouched`);
+        return result;
+      }
+
+      const { stack, warning } = await this.disambiguateStack(await detector.detectAll(), detected);
+      if (warning) {
+        result.warnings.push(warning);
+        this.log(`⚠️ ${warning}`);
+      }
+
+      try {
+        const rendered = await new AdapterGenerator().render(primitiveId, stack);
+        const merge = await mergeAdapter(projectPath, primitiveId, targetDir, rendered);
+        result.adapter = { path: path.relative(projectPath, targetDir).split(path.sep).join('/'), ...merge };
+
+        if (merge.updated.length > 0) {
+          this.log(`✓ Adapter regenerated at: ${targetDir}`);
+        }
+        if (merge.conflicts.length > 0) {
+          result.warnings.push(`Local adapter edits conflict with the new version in: ${merge.conflicts.join(', ')}`);
+          this.warn(
+            `Local adapter edits conflict with the new version. Resolve the conflict markers in:\n${merge.conflicts
+              .map(file => `    • ${path.join(targetDir, file)}`)
+              .join('\n')}`
+          );
+        }
+      } catch {
+        result.warnings.push(`No adapter found for ${stack.framework}, adapter left untouched`);
+        this.log(`⚠️ No adapter found for ${stack.framework}, adapter left untouched`);
+      }
+
+      return result;
+    } catch (error) {
+      ux.action.stop('Failed.');
+      this.fail(error);
+    }
+  }
+}
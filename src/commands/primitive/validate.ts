@@ -0,0 +1,80 @@
+import { Args } from '@oclif/core';
+import fs from 'fs-extra';
+import path from 'path';
+import { BaseCommand } from '../../base-command.js';
+import { expectedFromPath, findManifests, ManifestIssue, validateManifest } from '../../core/manifest.js';
+
+export interface ValidateResult {
+  manifests: { file: string; valid: boolean; issues: ManifestIssue[] }[];
+  invalid: number;
+}
+
+export default class PrimitiveValidate extends BaseCommand {
+  static override description = 'Validate primitive.json manifests against the manifest schema';
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> primitives/security/tokenizer/1.0.0',
+    '<%= config.bin %> <%= command.id %> primitives/',
+    '<%= config.bin %> <%= command.id %> primitives/ --json',
+  ];
+
+  static override args = {
+    path: Args.string({
+      description: 'A primitive.json file, or a folder to search for manifests',
+      default: '.',
+    }),
+  };
+
+  public async run(): Promise<ValidateResult> {
+    const { args } = await this.parse(PrimitiveValidate);
+    const target = path.resolve(args.path);
+
+    if (!(await fs.pathExists(target))) {
+      this.error(`Path not found: ${args.path}`, { exit: 2, code: 'PATH_NOT_FOUND' });
+    }
+
+    const manifests = await findManifests(target);
+    if (manifests.length === 0) {
+      this.error(`No primitive.json found under ${args.path}`, { exit: 2, code: 'MANIFEST_NOT_FOUND' });
+    }
+
+    const result: ValidateResult = { manifests: [], invalid: 0 };
+    for (const file of manifests) {
+      const relative = path.relative(process.cwd(), file) || file;
+      let data: unknown;
+      try {
+        data = await fs.readJson(file);
+      } catch (error) {
+        const issue = { path: '$', message: error instanceof Error ? error.message : 'Unreadable JSON' };
+        result.invalid++;
+        result.manifests.push({ file: relative, valid: false, issues: [issue] });
+        this.log(`✗ ${relative}`);
+        this.log(`    ${issue.path}: ${issue.message}`);
+        continue;
+      }
+
+      const { issues } = validateManifest(data, expectedFromPath(file));
+      result.manifests.push({ file: relative, valid: issues.length === 0, issues });
+      if (issues.length === 0) {
+        this.log(`✓ ${relative}`);
+        continue;
+      }
+
+      result.invalid++;
+      this.log(`✗ ${relative}`);
+      issues.forEach(issue => this.log(`    ${issue.path}: ${issue.message}`));
+    }
+
+    this.log('');
+    if (result.invalid > 0) {
+      return this.failWithResult(
+        result,
+        `${result.invalid} of ${manifests.length} manifest(s) failed validation`,
+        'INVALID_MANIFEST'
+      );
+    }
+    this.log(`✓ ${manifests.length} manifest(s) valid`);
+    return result;
+  }
+}
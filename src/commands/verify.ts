@@ -0,0 +1,56 @@
+import { BaseCommand } from '../base-command.js';
+import { hasDrift, PrimitiveDrift, verifyPrimitives } from '../core/verify.js';
+
+export default class Verify extends BaseCommand {
+  static override description = 'Check that installed primitives still match what was installed';
+
+  static override examples = ['<%= config.bin %> <%= command.id %>', '<%= config.bin %> <%= command.id %> --json'];
+
+  public async run(): Promise<{ reports: PrimitiveDrift[]; drifted: number }> {
+    await this.parse(Verify);
+
+    let reports: PrimitiveDrift[];
+    try {
+      reports = await verifyPrimitives(process.cwd());
+    } catch (error) {
+      this.fail(error);
+    }
+
+    if (reports.length === 0) {
+      this.log('No primitives installed.');
+      return { reports, drifted: 0 };
+    }
+
+    this.log('\n🔍 Verifying primitives\n');
+
+    for (const report of reports) {
+      const ref = `${report.id}@${report.version}`;
+      if (!hasDrift(report)) {
+        this.log(`  ✓ ${ref} (${report.baseline})`);
+        continue;
+      }
+
+      this.log(`  ✗ ${ref}`);
+      if (report.baseline === 'none') {
+        this.log('      not in skeleton.lock.json or the primitive library');
+      }
+      report.modified.forEach(file => this.log(`      modified: ${file}`));
+      report.missing.forEach(file => this.log(`      missing:  ${file}`));
+      report.extra.forEach(file => this.log(`      extra:    ${file}`));
+    }
+
+    const drifted = reports.filter(hasDrift).length;
+    this.log('');
+
+    if (drifted > 0) {
+      return this.failWithResult(
+        { reports, drifted },
+        `${drifted} of ${reports.length} primitive(s) drifted from their installed state`,
+        'PRIMITIVE_DRIFT'
+      );
+    }
+
+    this.log(`✓ All ${reports.length} primitive(s) verified`);
+    return { reports, drifted };
+  }
+}
@@ -0,0 +1,84 @@
+import fs from 'fs-extra';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, test, expect } from 'vitest';
+import { cacheArchive, getCacheDir, getCachedArchive, listCache, pruneCache, verifyCache } from './cache';
+import { sha256 } from './hash';
+
+const origin = { id: 'utils.uuid', version: '1.0.0', source: 'https://registry.test/utils.uuid.v1.0.0.zip' };
+const previousCacheHome = process.env.XDG_CACHE_HOME;
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(tmpdir(), 'skel-cache-'));
+  process.env.XDG_CACHE_HOME = dir;
+});
+
+afterEach(async () => {
+  if (previousCacheHome === undefined) {
+    delete process.env.XDG_CACHE_HOME;
+  } else {
+    process.env.XDG_CACHE_HOME = previousCacheHome;
+  }
+  await fs.remove(dir);
+});
+
+describe('archive cache', () => {
+  test('stores archives under their SHA-256 and hands them back', async () => {
+    const content = Buffer.from('archive bytes');
+    const { sha256: hash, archive } = await cacheArchive(content, origin);
+
+    expect(hash).toBe(sha256(content));
+    expect(archive).toBe(path.join(getCacheDir(), 'archives', `${hash}.zip`));
+    expect(await getCachedArchive(hash)).toBe(archive);
+    expect(await listCache()).toEqual([
+      expect.objectContaining({ ...origin, sha256: hash, size: content.length }),
+    ]);
+  });
+
+  test('does not copy an archive that is already cached', async () => {
+    const source = path.join(dir, 'utils.uuid.v1.0.0.zip');
+    await fs.writeFile(source, 'archive bytes');
+    const first = await cacheArchive(source, origin);
+    const before = (await fs.stat(first.archive)).mtimeMs;
+
+    const second = await cacheArchive(source, origin);
+
+    expect(second).toEqual(first);
+    expect((await fs.stat(second.archive)).mtimeMs).toBe(before);
+  });
+
+  test('re-verifies entries and drops corrupted ones before reuse', async () => {
+    const { sha256: hash, archive } = await cacheArchive(Buffer.from('archive bytes'), origin);
+    await fs.writeFile(archive, 'tampered');
+
+    expect((await verifyCache()).map(entry => entry.valid)).toEqual([false]);
+    expect(await getCachedArchive(hash)).toBeNull();
+    expect(await fs.pathExists(archive)).toBe(false);
+  });
+});
+
+describe('pruneCache', () => {
+  test('removes corrupted and stale archives and keeps recent ones', async () => {
+    const recent = await cacheArchive(Buffer.from('recent'), origin);
+    const stale = await cacheArchive(Buffer.from('stale'), origin);
+    const corrupted = await cacheArchive(Buffer.from('corrupted'), origin);
+    const staleMetadata = path.join(getCacheDir(), 'archives', `${stale.sha256}.json`);
+    await fs.writeJson(staleMetadata, { ...(await fs.readJson(staleMetadata)), lastUsedAt: '2000-01-01T00:00:00.000Z' });
+    await fs.writeFile(corrupted.archive, 'tampered');
+    await fs.writeFile(path.join(getCacheDir(), 'archives', '.leftover.partial'), '');
+
+    const removed = await pruneCache({ olderThanDays: 30 });
+
+    expect(removed.map(entry => entry.sha256).sort()).toEqual([stale.sha256, corrupted.sha256].sort());
+    expect((await listCache()).map(entry => entry.sha256)).toEqual([recent.sha256]);
+    expect(await fs.readdir(path.join(getCacheDir(), 'archives'))).toHaveLength(2);
+  });
+
+  test('empties the cache with all', async () => {
+    await cacheArchive(Buffer.from('one'), origin);
+
+    expect(await pruneCache({ all: true })).toHaveLength(1);
+    expect(await listCache()).toEqual([]);
+  });
+});
@@ -0,0 +1,198 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { hashFile, sha256 } from './hash.js';
+
+const ARCHIVE_FILE = /^([a-f0-9]{64})\.zip$/;
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * A cached archive and where it first came from
+ */
+export interface CacheEntry {
+  sha256: string;
+  id: string;
+  version: string;
+  /** Vault archive path or URL the archive was fetched from */
+  source: string;
+  /** Size in bytes */
+  size: number;
+  addedAt: string;
+  lastUsedAt: string;
+}
+
+export const getCacheDir = (): string =>
+  path.join(process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'skel');
+
+/**
+ * Human readable byte count
+ */
+export const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const getArchivesDir = (): string => path.join(getCacheDir(), 'archives');
+
+const archivePath = (hash: string): string => path.join(getArchivesDir(), `${hash}.zip`);
+
+const metadataPath = (hash: string): string => path.join(getArchivesDir(), `${hash}.json`);
+
+const removeEntry = async (hash: string): Promise<void> => {
+  await fs.remove(archivePath(hash));
+  await fs.remove(metadataPath(hash));
+};
+
+const readEntry = async (hash: string): Promise<CacheEntry> => {
+  const stats = await fs.stat(archivePath(hash));
+  const metadata = await fs.readJson(metadataPath(hash)).catch(() => ({}));
+  const stamp = stats.mtime.toISOString();
+  return {
+    id: 'unknown',
+    version: 'unknown',
+    source: 'unknown',
+    addedAt: stamp,
+    lastUsedAt: stamp,
+    ...metadata,
+    sha256: hash,
+    size: stats.size,
+  };
+};
+
+/**
+ * Look up an archive by its SHA-256
+ * The archive is re-hashed before it is handed out; a corrupted entry is removed
+ * with a warning and reported as a miss
+ *
+ * @returns Path of the cached archive, or null when it is not cached
+ */
+export const getCachedArchive = async (hash: string): Promise<string | null> => {
+  const archive = archivePath(hash);
+  if (!(await fs.pathExists(archive))) return null;
+
+  if ((await hashFile(archive)) !== hash) {
+    console.warn(`⚠️ Cached archive ${hash} is corrupted, fetching it again`);
+    await removeEntry(hash);
+    return null;
+  }
+
+  const entry = await readEntry(hash);
+  await fs.writeJson(metadataPath(hash), { ...entry, lastUsedAt: new Date().toISOString() }, { spaces: 2 });
+  return archive;
+};
+
+/**
+ * Add an archive to the cache, unless an intact copy is already there
+ *
+ * @param content - Archive file path or its content
+ * @param origin - Primitive the archive holds and where it was fetched from
+ * @returns The archive's SHA-256 and its path in the cache
+ */
+export const cacheArchive = async (
+  content: string | Buffer,
+  origin: Pick<CacheEntry, 'id' | 'version' | 'source'>
+): Promise<{ sha256: string; archive: string }> => {
+  const hash = typeof content === 'string' ? await hashFile(content) : sha256(content);
+  const cached = await getCachedArchive(hash);
+  if (cached) {
+    return { sha256: hash, archive: cached };
+  }
+
+  // Write to a temporary name first so a crash never leaves a truncated entry
+  await fs.ensureDir(getArchivesDir());
+  const partial = path.join(getArchivesDir(), `.${randomUUID()}.partial`);
+  if (typeof content === 'string') {
+    await fs.copy(content, partial);
+  } else {
+    await fs.writeFile(partial, content);
+  }
+  await fs.move(partial, archivePath(hash), { overwrite: true });
+
+  const now = new Date().toISOString();
+  await fs.writeJson(metadataPath(hash), { ...origin, addedAt: now, lastUsedAt: now }, { spaces: 2 });
+
+  return { sha256: hash, archive: archivePath(hash) };
+};
+
+/**
+ * Every cached archive, most recently used first
+ */
+export const listCache = async (): Promise<CacheEntry[]> => {
+  if (!(await fs.pathExists(getArchivesDir()))) return [];
+
+  const entries: CacheEntry[] = [];
+  for (const file of await fs.readdir(getArchivesDir())) {
+    const match = ARCHIVE_FILE.exec(file);
+    if (match) {
+      entries.push(await readEntry(match[1]));
+    }
+  }
+  return entries.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+};
+
+/**
+ * Re-hash every cached archive
+ *
+ * @returns Each entry with whether its content still matches its hash
+ */
+export const verifyCache = async (): Promise<Array<CacheEntry & { valid: boolean }>> => {
+  const results: Array<CacheEntry & { valid: boolean }> = [];
+  for (const entry of await listCache()) {
+    results.push({ ...entry, valid: (await hashFile(archivePath(entry.sha256))) === entry.sha256 });
+  }
+  return results;
+};
+
+/**
+ * Remove corrupted archives, leftovers of interrupted writes and archives not used recently
+ *
+ * @param options.olderThanDays - Remove archives unused for this many days
+ * @param options.all - Empty the cache
+ * @returns The entries that were removed
+ */
+export const pruneCache = async (
+  options: { olderThanDays?: number; all?: boolean } = {}
+): Promise<CacheEntry[]> => {
+  const cutoff = options.olderThanDays === undefined ? null : Date.now() - options.olderThanDays * DAY;
+  const removed: CacheEntry[] = [];
+
+  for (const entry of await verifyCache()) {
+    const stale = cutoff !== null && Date.parse(entry.lastUsedAt) < cutoff;
+    if (options.all || stale || !entry.valid) {
+      await removeEntry(entry.sha256);
+      removed.push(entry);
+    }
+  }
+
+  if (await fs.pathExists(getArchivesDir())) {
+    for (const file of await fs.readdir(getArchivesDir())) {
+      const orphanedMetadata = file.endsWith('.json') && !(await fs.pathExists(archivePath(path.basename(file, '.json'))));
+      if (file.endsWith('.partial') || orphanedMetadata) {
+        await fs.remove(path.join(getArchivesDir(), file));
+      }
+    }
+  }
+
+  if (options.all) {
+    await fs.remove(path.join(getCacheDir(), 'indexes'));
+  }
+
+  return removed;
+};
+
+const indexPath = (url: string): string => path.join(getCacheDir(), 'indexes', `${sha256(url)}.json`);
+
+/**
+ * Keep the last registry index fetched from a URL, for offline installs
+ */
+export const cacheIndex = async (url: string, index: unknown): Promise<void> => {
+  await fs.outputJson(indexPath(url), index);
+};
+
+/**
+ * The last registry index fetched from a URL, or null
+ */
+export const readCachedIndex = async (url: string): Promise<unknown | null> =>
+  fs.readJson(indexPath(url)).catch(() => null);
@@ -0,0 +1,66 @@
+import { describe, test, expect } from 'vitest';
+import { CatalogEntry, DependencyConflictError, DependencyCycleError, resolveDependencyGraph } from './dependencies';
+import { PrimitiveNotFoundError } from './errors';
+
+const entry = (ref: string, requires: Record<string, string> = {}): CatalogEntry => {
+  const [id, version] = ref.split('@');
+  return { id, version, requires };
+};
+
+const catalog: CatalogEntry[] = [
+  entry('utils.uuid@1.0.0'),
+  entry('utils.uuid@1.1.0'),
+  entry('utils.uuid@2.0.0'),
+  entry('security.tokenizer@1.0.0', { 'utils.uuid': '^1.0.0' }),
+  entry('auth.session@1.0.0', { 'security.tokenizer': '^1.0.0', 'utils.uuid': '~1.0.0' }),
+];
+
+describe('resolveDependencyGraph', () => {
+  test('returns requirements before the primitives that need them', () => {
+    const graph = resolveDependencyGraph(catalog, 'auth.session');
+
+    expect(graph).toEqual([
+      { id: 'utils.uuid', version: '1.0.0', installed: false },
+      { id: 'security.tokenizer', version: '1.0.0', installed: false },
+      { id: 'auth.session', version: '1.0.0', installed: false },
+    ]);
+  });
+
+  test('picks the highest version satisfying every range', () => {
+    const graph = resolveDependencyGraph(catalog, 'security.tokenizer');
+    expect(graph.find(p => p.id === 'utils.uuid')?.version).toBe('1.1.0');
+  });
+
+  test('reuses an installed version that satisfies the ranges', () => {
+    const graph = resolveDependencyGraph(catalog, 'security.tokenizer', 'latest', { 'utils.uuid': ['1.0.0'] });
+    expect(graph[0]).toEqual({ id: 'utils.uuid', version: '1.0.0', installed: true });
+  });
+
+  test('picks the newest match for the requested primitive even when an older one is installed', () => {
+    const graph = resolveDependencyGraph(catalog, 'utils.uuid', '^1.0.0', { 'utils.uuid': ['1.0.0'] });
+    expect(graph).toEqual([{ id: 'utils.uuid', version: '1.1.0', installed: false }]);
+  });
+
+  test('reports conflicting requirements', () => {
+    const conflicting = [
+      ...catalog,
+      entry('app.audit@1.0.0', { 'utils.uuid': '^2.0.0', 'security.tokenizer': '^1.0.0' }),
+    ];
+
+    expect(() => resolveDependencyGraph(conflicting, 'app.audit')).toThrow(DependencyConflictError);
+    expect(() => resolveDependencyGraph(conflicting, 'app.audit')).toThrow(/\^2\.0\.0 \(required by app\.audit@1\.0\.0\)/);
+  });
+
+  test('detects cycles', () => {
+    const cyclic = [entry('a.one@1.0.0', { 'b.two': '^1' }), entry('b.two@1.0.0', { 'a.one': '^1' })];
+
+    expect(() => resolveDependencyGraph(cyclic, 'a.one')).toThrow(DependencyCycleError);
+    expect(() => resolveDependencyGraph(cyclic, 'a.one')).toThrow('a.one -> b.two -> a.one');
+  });
+
+  test('reports missing requirements with the primitive that needs them', () => {
+    const missing = [entry('a.one@1.0.0', { 'b.missing': '^1' })];
+    expect(() => resolveDependencyGraph(missing, 'a.one')).toThrow(PrimitiveNotFoundError);
+    expect(() => resolveDependencyGraph(missing, 'a.one')).toThrow(/required by a\.one@1\.0\.0/);
+  });
+});
@@ -0,0 +1,135 @@
+import semver from 'semver';
+import { PrimitiveNotFoundError, SkelError } from './errors.js';
+import { LATEST, resolveVersion } from './versions.js';
+
+export class DependencyCycleError extends SkelError {
+  constructor(public cycle: string[]) {
+    super(`Circular primitive dependency: ${cycle.join(' -> ')}`, 'DEPENDENCY_CYCLE');
+  }
+}
+
+export class DependencyConflictError extends SkelError {
+  constructor(primitiveId: string, public constraints: Constraint[]) {
+    super(
+      `No version of '${primitiveId}' satisfies every requirement: ${constraints
+        .map(c => `${c.range} (required by ${c.requiredBy})`)
+        .join(', ')}`,
+      'DEPENDENCY_CONFLICT'
+    );
+  }
+}
+
+export interface Constraint {
+  range: string;
+  requiredBy: string;
+}
+
+/** The parts of a library entry the resolver needs */
+export interface CatalogEntry {
+  id: string;
+  version: string;
+  requires: Record<string, string>;
+}
+
+export interface ResolvedPrimitive {
+  id: string;
+  version: string;
+  /** True when the project already has this exact version installed */
+  installed: boolean;
+}
+
+const REQUESTED = '(requested)';
+
+/**
+ * Resolve a primitive and everything it transitively requires
+ * Each primitive gets the highest version satisfying every range that points at it.
+ * Requirements prefer a version the project already has installed.
+ *
+ * @param catalog - Every available primitive version (see listPrimitives)
+ * @param primitiveId - Primitive to install
+ * @param range - Version or range requested for it
+ * @param installed - Versions already in the project, as id -> versions
+ * @returns Primitives in install order: requirements before the primitives that need them
+ * @throws DependencyConflictError when two requirements cannot both be met
+ * @throws DependencyCycleError when primitives require each other
+ */
+export const resolveDependencyGraph = (
+  catalog: CatalogEntry[],
+  primitiveId: string,
+  range: string = LATEST,
+  installed: Record<string, string[]> = {}
+): ResolvedPrimitive[] => {
+  const constraints = new Map<string, Constraint[]>([[primitiveId, [{ range, requiredBy: REQUESTED }]]]);
+  const resolved = new Map<string, string>();
+  const queue = [primitiveId];
+  const maxSteps = (catalog.length + 1) * 10;
+  let steps = 0;
+
+  const entryFor = (id: string, version: string) =>
+    catalog.find(p => p.id === id && p.version === version);
+
+  const satisfiesAll = (id: string, version: string) =>
+    (constraints.get(id) ?? []).every(c => resolveVersion([version], c.range) === version);
+
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+
+    if (++steps > maxSteps) {
+      throw new DependencyConflictError(id, constraints.get(id) ?? []);
+    }
+
+    const candidates = catalog.filter(p => p.id === id).map(p => p.version);
+    if (candidates.length === 0) {
+      const requiredBy = (constraints.get(id) ?? []).map(c => c.requiredBy).join(', ');
+      throw new PrimitiveNotFoundError(requiredBy === REQUESTED ? id : `${id} (required by ${requiredBy})`);
+    }
+
+    const current = resolved.get(id);
+    if (current && satisfiesAll(id, current)) continue;
+
+    // Only requirements reuse what is installed; the requested primitive gets the newest match
+    const preferred =
+      id === primitiveId ? [] : (installed[id] ?? []).filter(v => satisfiesAll(id, v) && entryFor(id, v));
+    const matching = candidates.filter(v => satisfiesAll(id, v));
+    const version = semver.rsort(preferred)[0] ?? semver.rsort(matching)[0];
+
+    if (!version) {
+      throw new DependencyConflictError(id, constraints.get(id) ?? []);
+    }
+
+    // Requirements of a previously picked version no longer apply
+    if (current) {
+      for (const [depId, list] of constraints) {
+        constraints.set(depId, list.filter(c => c.requiredBy !== `${id}@${current}`));
+      }
+    }
+
+    resolved.set(id, version);
+
+    for (const [depId, depRange] of Object.entries(entryFor(id, version)?.requires ?? {})) {
+      constraints.set(depId, [...(constraints.get(depId) ?? []), { range: depRange, requiredBy: `${id}@${version}` }]);
+      queue.push(depId);
+    }
+  }
+
+  // Depth-first walk for install order, tracking the current path to catch cycles
+  const ordered: ResolvedPrimitive[] = [];
+  const done = new Set<string>();
+  const visit = (id: string, trail: string[]) => {
+    if (done.has(id)) return;
+    if (trail.includes(id)) {
+      throw new DependencyCycleError([...trail.slice(trail.indexOf(id)), id]);
+    }
+
+    const version = resolved.get(id) as string;
+    for (const depId of Object.keys(entryFor(id, version)?.requires ?? {})) {
+      visit(depId, [...trail, id]);
+    }
+
+    done.add(id);
+    ordered.push({ id, version, installed: (installed[id] ?? []).includes(version) });
+  };
+  visit(primitiveId, []);
+
+  return ordered;
+};
@@ -22,3 +22,27 @@ export class ProjectExistsError extends SkelError {
     super(`Project '${projectName}' already exists`, 'PROJECT_EXISTS');
   }
 }
+
+export class PrimitiveNotInstalledError extends SkelError {
+  constructor(primitiveId: string) {
+    super(`Primitive '${primitiveId}' is not installed in this project`, 'PRIMITIVE_NOT_INSTALLED');
+  }
+}
+
+export class AdapterModifiedError extends SkelError {
+  constructor(primitiveId: string, public files: string[]) {
+    super(
+      `Adapter for '${primitiveId}' has local modifications: ${files.join(', ')}`,
+      'ADAPTER_MODIFIED'
+    );
+  }
+}
+
+export class PackageNotFoundError extends SkelError {
+  constructor(packageRef: string, available: string[]) {
+    super(
+      `Package '${packageRef}' not found in this workspace. Available: ${available.join(', ')}`,
+      'PACKAGE_NOT_FOUND'
+    );
+  }
+}
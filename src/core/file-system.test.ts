@@ -0,0 +1,265 @@
+import fs from 'fs-extra';
+import { tmpdir } from 'os';
+import path from 'path';
+import { describe, test, expect } from 'vitest';
+import {
+  getAdapterLocation,
+  getModifiedAdapterFiles,
+  installPrimitive,
+  mergeAdapter,
+  recordAdapter,
+  removePrimitive,
+  upgradePrimitive,
+} from './file-system';
+import { InvalidLockfileError, readLockfile } from './lockfile';
+import { sha256 } from './hash';
+import { InvalidVersionRangeError } from './versions';
+import { AdapterModifiedError, PrimitiveNotFoundError, PrimitiveNotInstalledError } from './errors';
+
+async function withProject(fn: (dir: string) => Promise<void>) {
+  const dir = await fs.mkdtemp(path.join(tmpdir(), 'skel-project-'));
+  try {
+    await fs.writeJson(path.join(dir, 'skeleton.config.json'), {
+      name: 'test',
+      version: '1.0.0',
+      primitives: [],
+      metadata: { createdAt: '', updatedAt: '' },
+    });
+    await fn(dir);
+  } finally {
+    await fs.remove(dir);
+  }
+}
+
+async function writeAdapter(dir: string, primitiveId: string, content: string) {
+  const targetDir = path.join(dir, 'src', 'adapters', ...primitiveId.split('.'));
+  const file = path.join(targetDir, 'tokenizer.service.ts');
+  await fs.outputFile(file, content);
+  await recordAdapter(dir, primitiveId, targetDir, { 'tokenizer.service.ts': content });
+  return file;
+}
+
+describe('installPrimitive', () => {
+  test('records the resolved version, source and file hashes in the lockfile', async () => {
+    await withProject(async dir => {
+      await installPrimitive(dir, 'security.tokenizer', '1.0.0');
+
+      const lock = await readLockfile(dir);
+      const entry = lock.primitives['security.tokenizer@1.0.0'];
+      const manifest = await fs.readFile(
+        path.join(dir, 'primitives', 'security', 'tokenizer', '1.0.0', 'primitive.json')
+      );
+
+      expect(entry.version).toBe('1.0.0');
+      expect(entry.source).toEqual({ type: 'library', path: 'security/tokenizer/1.0.0' });
+      expect(entry.files['primitive.json']).toBe(sha256(manifest));
+      expect(Object.keys(entry.files)).toContain('src/index.ts');
+    });
+  });
+
+  test('resolves ranges against the library and defaults to the latest stable version', async () => {
+    await withProject(async dir => {
+      expect(await installPrimitive(dir, 'utils.uuid')).toBe('1.0.0');
+      expect(await installPrimitive(dir, 'security.tokenizer', '^1')).toBe('1.0.0');
+
+      const config = await fs.readJson(path.join(dir, 'skeleton.config.json'));
+      expect(config.primitives).toEqual(['utils.uuid@1.0.0', 'security.tokenizer@1.0.0']);
+    });
+  });
+
+  test('throws when no version satisfies the range', async () => {
+    await withProject(async dir => {
+      await expect(installPrimitive(dir, 'security.tokenizer', '^2')).rejects.toBeInstanceOf(PrimitiveNotFoundError);
+    });
+  });
+});
+
+describe('readLockfile', () => {
+  test('reports a corrupt lockfile with the offending JSON path', async () => {
+    await withProject(async dir => {
+      await installPrimitive(dir, 'utils.uuid', '1.0.0');
+      const lockPath = path.join(dir, 'skeleton.lock.json');
+      const lock = await fs.readJson(lockPath);
+      lock.primitives['utils.uuid@1.0.0'].files = 'tampered';
+      await fs.writeJson(lockPath, lock);
+
+      await expect(readLockfile(dir)).rejects.toThrow(InvalidLockfileError);
+      await expect(readLockfile(dir)).rejects.toThrow('$.primitives["utils.uuid@1.0.0"].files');
+
+      await fs.writeFile(lockPath, '{ "primitives": ');
+      await expect(readLockfile(dir)).rejects.toThrow(InvalidLockfileError);
+    });
+  });
+});
+
+describe('removePrimitive', () => {
+  test('deletes the primitive folder, adapter and config record', async () => {
+    await withProject(async dir => {
+      await installPrimitive(dir, 'security.tokenizer', '1.0.0');
+      await writeAdapter(dir, 'security.tokenizer', 'export class TokenizerService {}');
+
+      const result = await removePrimitive(dir, 'security.tokenizer');
+
+      expect(result).toEqual({ versions: ['1.0.0'], adapterRemoved: true });
+      expect(await fs.pathExists(path.join(dir, 'primitives'))).toBe(false);
+      expect(await fs.pathExists(path.join(dir, 'src', 'adapters'))).toBe(false);
+      const config = await fs.readJson(path.join(dir, 'skeleton.config.json'));
+      expect(config.primitives).toEqual([]);
+      expect(config.adapters).toEqual({});
+      expect((await readLockfile(dir)).primitives).toEqual({});
+    });
+  });
+
+  test('prunes empty folders up to the src/ of the adapter\'s workspace package', async () => {
+    await withProject(async dir => {
+      await installPrimitive(dir, 'security.tokenizer', '1.0.0');
+      const packageDir = path.join(dir, 'apps', 'api');
+      const targetDir = path.join(packageDir, 'src', 'adapters', 'security', 'tokenizer');
+      await fs.outputFile(path.join(targetDir, 'tokenizer.service.ts'), 'export class TokenizerService {}');
+      await fs.outputFile(path.join(packageDir, 'src', 'main.ts'), '');
+      await recordAdapter(dir, 'security.tokenizer', targetDir, { 'tokenizer.service.ts': 'export class TokenizerService {}' }, packageDir);
+
+      expect(await removePrimitive(dir, 'security.tokenizer')).toEqual({ versions: ['1.0.0'], adapterRemoved: true });
+      expect(await fs.pathExists(path.join(packageDir, 'src', 'adapters'))).toBe(false);
+      expect(await fs.pathExists(path.join(packageDir, 'src', 'main.ts'))).toBe(true);
+    });
+  });
+
+  test('keeps the adapter while another version stays installed', async () => {
+    await withProject(async dir => {
+      await installPrimitive(dir, 'security.tokenizer', '1.0.0');
+      const config = await fs.readJson(path.join(dir, 'skeleton.config.json'));
+      config.primitives.push('security.tokenizer@0.9.0');
+      await fs.writeJson(path.join(dir, 'skeleton.config.json'), config);
+      await writeAdapter(dir, 'security.tokenizer', 'export class TokenizerService {}');
+
+      const result = await removePrimitive(dir, 'security.tokenizer', '1.0.0');
+
+      expect(result).toEqual({ versions: ['1.0.0'], adapterRemoved: false });
+      const updated = await fs.readJson(path.join(dir, 'skeleton.config.json'));
+      expect(updated.primitives).toEqual(['security.tokenizer@0.9.0']);
+    });
+  });
+
+  test('refuses to delete an edited adapter unless forced', async () => {
+    await withProject(async dir => {
+      await installPrimitive(dir, 'security.tokenizer', '1.0.0');
+      const file = await writeAdapter(dir, 'security.tokenizer', 'export class TokenizerService {}');
+      await fs.appendFile(file, '\n// custom wiring\n');
+
+      expect(await getModifiedAdapterFiles(dir, 'security.tokenizer')).toEqual(['tokenizer.service.ts']);
+      await expect(removePrimitive(dir, 'security.tokenizer')).rejects.toBeInstanceOf(AdapterModifiedError);
+      expect(await fs.pathExists(file)).toBe(true);
+
+      const result = await removePrimitive(dir, 'security.tokenizer', undefined, { force: true });
+      expect(result.adapterRemoved).toBe(true);
+      expect(await fs.pathExists(file)).toBe(false);
+    });
+  });
+
+  test('treats untracked adapter files as modified', async () => {
+    await withProject(async dir => {
+      await installPrimitive(dir, 'security.tokenizer', '1.0.0');
+      await fs.outputFile(path.join(dir, 'src', 'adapters', 'security', 'tokenizer', 'extra.ts'), '');
+
+      expect(await getModifiedAdapterFiles(dir, 'security.tokenizer')).toEqual(['extra.ts']);
+    });
+  });
+
+  test('throws when the primitive is not installed', async () => {
+    await withProject(async dir => {
+      await expect(removePrimitive(dir, 'security.tokenizer')).rejects.toBeInstanceOf(PrimitiveNotInstalledError);
+    });
+  });
+
+  test('rejects traversal in the id or version and leaves the project intact', async () => {
+    await withProject(async dir => {
+      await installPrimitive(dir, 'security.tokenizer', '1.0.0');
+      await fs.outputFile(path.join(dir, 'src', 'app.ts'), 'bootstrap();');
+
+      await expect(removePrimitive(dir, 'security.tokenizer', '../../..')).rejects.toBeInstanceOf(InvalidVersionRangeError);
+      await expect(removePrimitive(dir, '../security.tokenizer', '1.0.0')).rejects.toThrow(/Invalid primitive ID/);
+
+      expect(await fs.readFile(path.join(dir, 'src', 'app.ts'), 'utf-8')).toBe('bootstrap();');
+      expect(await fs.pathExists(path.join(dir, 'primitives', 'security', 'tokenizer', '1.0.0'))).toBe(true);
+    });
+  });
+
+  test('only removes versions the config records', async () => {
+    await withProject(async dir => {
+      await installPrimitive(dir, 'security.tokenizer', '1.0.0');
+      const stray = path.join(dir, 'primitives', 'security', 'tokenizer', '2.0.0');
+      await fs.outputFile(path.join(stray, 'index.ts'), '');
+
+      await expect(removePrimitive(dir, 'security.tokenizer', '2.0.0')).rejects.toBeInstanceOf(PrimitiveNotInstalledError);
+      expect(await fs.pathExists(stray)).toBe(true);
+    });
+  });
+});
+
+describe('mergeAdapter', () => {
+  test('keeps hand edits and records the new generated content', async () => {
+    await withProject(async dir => {
+      const file = await writeAdapter(dir, 'security.tokenizer', 'header\nbody\nfooter\n');
+      await fs.writeFile(file, 'header\nbody\ncustom\nfooter\n');
+
+      const targetDir = path.dirname(file);
+      const result = await mergeAdapter(dir, 'security.tokenizer', targetDir, {
+        'tokenizer.service.ts': 'header v2\nbody\nfooter\n',
+      });
+
+      expect(result).toEqual({ updated: ['tokenizer.service.ts'], conflicts: [] });
+      expect(await fs.readFile(file, 'utf-8')).toBe('header v2\nbody\ncustom\nfooter\n');
+      expect(await getModifiedAdapterFiles(dir, 'security.tokenizer')).toEqual(['tokenizer.service.ts']);
+    });
+  });
+
+  test('reports conflicting files', async () => {
+    await withProject(async dir => {
+      const file = await writeAdapter(dir, 'security.tokenizer', 'a\nb\nc');
+      await fs.writeFile(file, 'a\nmine\nc');
+
+      const result = await mergeAdapter(dir, 'security.tokenizer', path.dirname(file), {
+        'tokenizer.service.ts': 'a\ntheirs\nc',
+      });
+
+      expect(result.conflicts).toEqual(['tokenizer.service.ts']);
+      expect(await fs.readFile(file, 'utf-8')).toContain('<<<<<<< local');
+    });
+  });
+
+  test('keeps the workspace package the adapter was generated for', async () => {
+    await withProject(async dir => {
+      const packageDir = path.join(dir, 'apps', 'api');
+      const targetDir = path.join(packageDir, 'src', 'adapters', 'security', 'tokenizer');
+      await fs.outputFile(path.join(targetDir, 'tokenizer.service.ts'), 'a\n');
+      await recordAdapter(dir, 'security.tokenizer', targetDir, { 'tokenizer.service.ts': 'a\n' }, packageDir);
+
+      await mergeAdapter(dir, 'security.tokenizer', targetDir, { 'tokenizer.service.ts': 'b\n' });
+
+      const config = await fs.readJson(path.join(dir, 'skeleton.config.json'));
+      expect(config.adapters['security.tokenizer'].package).toBe('apps/api');
+      expect(await getAdapterLocation(dir, 'security.tokenizer')).toEqual({ dir: targetDir, packageDir });
+    });
+  });
+});
+
+describe('upgradePrimitive', () => {
+  test('leaves the project alone when already on the newest version', async () => {
+    await withProject(async dir => {
+      await installPrimitive(dir, 'security.tokenizer', '1.0.0');
+
+      const result = await upgradePrimitive(dir, 'security.tokenizer');
+
+      expect(result).toEqual({ from: '1.0.0', to: '1.0.0', upgraded: false });
+      const config = await fs.readJson(path.join(dir, 'skeleton.config.json'));
+      expect(config.primitives).toEqual(['security.tokenizer@1.0.0']);
+    });
+  });
+
+  test('throws when the primitive is not installed', async () => {
+    await withProject(async dir => {
+      await expect(upgradePrimitive(dir, 'security.tokenizer')).rejects.toBeInstanceOf(PrimitiveNotInstalledError);
+    });
+  });
+});
@@ -1,85 +1,247 @@
 import fs from 'fs-extra';
+import os from 'os';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import semver from 'semver';
+import { hashFile, sha256 } from './hash.js';
+import { merge3 } from './merge.js';
+import { lockPrimitive, PrimitiveSource, unlockPrimitives } from './lockfile.js';
+import { InvalidArchiveError, parseArchiveName } from './vault.js';
+import {
+  createRegistry,
+  findRegistry,
+  listRegistryPrimitives,
+  LocalRegistry,
+  PrimitiveSummary,
+  RegistryProvider,
+  resolveFromRegistries,
+  VaultRegistry,
+} from './registry.js';
+import { getUserConfigDir, loadUserConfig } from './user-config.js';
+import {
+  AdapterModifiedError,
+  PrimitiveNotFoundError,
+  PrimitiveNotInstalledError,
+} from './errors.js';
+import { InvalidVersionRangeError, LATEST, resolveVersion } from './versions.js';
+import { resolveDependencyGraph, ResolvedPrimitive } from './dependencies.js';
+import { parsePrimitiveRef } from './validation.js';
+import { loadManifest, MANIFEST_FILE, PRIMITIVE_ID } from './manifest.js';
+import {
+  CONFIG_FILE,
+  createProjectConfig,
+  loadProjectConfig,
+  saveProjectConfig,
+  SkeletonConfig,
+} from './project-config.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-const getPrimitivesPath = (): string => {
+export const getPrimitivesPath = (): string => {
   const cliRoot = path.resolve(__dirname, '../..');
   return path.join(cliRoot, 'primitives');
 };
 
+/** Registry key of the library shipped with the CLI */
+export const LIBRARY = 'library';
+
+/**
+ * Registries to install from, in the order they are queried: the project's vault
+ * and registries, then the user's registries, then the built-in library
+ *
+ * @param projectPath - Project whose config is read. Only user registries and the library are used outside a project
+ * @param options.vault - Use only this vault directory
+ */
+export const getRegistries = async (
+  projectPath?: string,
+  options: { vault?: string } = {}
+): Promise<RegistryProvider[]> => {
+  if (options.vault) {
+    return [new VaultRegistry(options.vault)];
+  }
+
+  const registries: RegistryProvider[] = [];
+
+  if (projectPath && (await fs.pathExists(path.join(projectPath, CONFIG_FILE)))) {
+    const config = await loadProjectConfig(projectPath);
+    if (config.vault) {
+      registries.push(createRegistry({ type: 'vault', path: config.vault }, projectPath, 'project'));
+    }
+    registries.push(...config.registries.map(registry => createRegistry(registry, projectPath, 'project')));
+  }
+
+  const userConfig = await loadUserConfig();
+  registries.push(...userConfig.registries.map(registry => createRegistry(registry, getUserConfigDir(), 'user')));
+
+  registries.push(new LocalRegistry(getPrimitivesPath(), LIBRARY));
+  return registries;
+};
+
+/**
+ * Pristine copies of generated adapters, kept as the base for three-way merges
+ */
+const getAdapterSnapshotDir = (projectPath: string, primitiveId: string): string =>
+  path.join(projectPath, '.skel', 'adapters', primitiveId);
+
+const splitPrimitiveId = (primitiveId: string): [string, string] => {
+  const [category, name] = primitiveId.split('.');
+
+  if (!PRIMITIVE_ID.test(primitiveId)) {
+    throw new Error(
+      `Invalid primitive ID format. Expected "category.name", got "${primitiveId}"`
+    );
+  }
+
+  return [category, name];
+};
+
+/**
+ * Walk a directory, splitting what it holds into regular files and every other
+ * kind of entry (symlinks, sockets, FIFOs, devices), as paths relative to it
+ * Folders named in skip (e.g. node_modules) are not descended into
+ */
+export const walkTree = async (
+  dir: string,
+  skip: string[] = []
+): Promise<{ files: string[]; others: string[] }> => {
+  const files: string[] = [];
+  const others: string[] = [];
+  const walk = async (current: string): Promise<void> => {
+    for (const entry of await fs.readdir(current, { withFileTypes: true })) {
+      const full = path.join(current, entry.name);
+      const relative = path.relative(dir, full).split(path.sep).join('/');
+      if (entry.isDirectory()) {
+        if (!skip.includes(entry.name)) await walk(full);
+      } else if (entry.isFile()) {
+        files.push(relative);
+      } else {
+        others.push(relative);
+      }
+    }
+  };
+  await walk(dir);
+  return { files: files.sort(), others: others.sort() };
+};
+
+/**
+ * List every regular file below a directory, as paths relative to that directory
+ */
+export const listFilesRecursive = async (dir: string, skip: string[] = []): Promise<string[]> =>
+  (await walkTree(dir, skip)).files;
+
+/** Whether target is strictly below root */
+const isInside = (root: string, target: string): boolean => {
+  const relative = path.relative(root, target);
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+};
+
+/**
+ * Remove a directory and then any parents that were left empty, stopping at stopAt
+ */
+const removeAndPrune = async (dir: string, stopAt: string): Promise<void> => {
+  await fs.remove(dir);
+  let parent = path.dirname(dir);
+  while (isInside(stopAt, parent)) {
+    if (!(await fs.pathExists(parent)) || (await fs.readdir(parent)).length > 0) break;
+    await fs.remove(parent);
+    parent = path.dirname(parent);
+  }
+};
+
 export const createNewProject = async (projectName: string): Promise<void> => {
   const projectPath = path.join(process.cwd(), projectName);
   await fs.ensureDir(projectPath);
-  
-  const config = {
-    name: projectName,
-    version: '1.0.0',
-    skeletons: [],
-    dependencies: {},
-    devDependencies: {},
-    metadata: {
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    }
-  };
-  
-  await fs.writeJson(path.join(projectPath, 'skeleton.config.json'), config, { spaces: 2 });
+
+  await saveProjectConfig(projectPath, createProjectConfig(projectName));
 };
 
 /**
  * Install a primitive into the project
- * Primitives are framework-agnostic logic units with immutable versioning
+ * Primitives are framework-agnostic logic units with immutable versioning.
+ * The resolved version, its source and a SHA-256 of every copied file are
+ * recorded in skeleton.lock.json
  *
  * @param projectPath - Path to the project root
  * @param primitiveId - Primitive ID in format "category.name" (e.g., "security.hasher")
- * @param version - Version to install (e.g., "1.0.0"). Defaults to "1.0.0"
+ * @param range - Exact version or semver range (e.g., "1.0.0", "^1.2", "latest"). Defaults to the latest stable version
+ * @returns The version that was installed
+ * @throws PrimitiveNotFoundError if no registry has a version satisfying the range
  */
 export const installPrimitive = async (
   projectPath: string,
   primitiveId: string,
-  version: string = '1.0.0'
-): Promise<void> => {
-  const [category, name] = primitiveId.split('.');
+  range: string = LATEST
+): Promise<string> => {
+  splitPrimitiveId(primitiveId);
 
-  if (!category || !name) {
-    throw new Error(
-      `Invalid primitive ID format. Expected "category.name", got "${primitiveId}"`
-    );
+  const found = await resolveFromRegistries(await getRegistries(projectPath), primitiveId, range);
+  if (!found) {
+    throw new PrimitiveNotFoundError(`${primitiveId}@${range}`);
   }
 
-  const primitivePath = path.join(getPrimitivesPath(), category, name, version);
+  await fetchPrimitive(projectPath, found.registry, primitiveId, found.primitive.version);
+  return found.primitive.version;
+};
 
-  if (!(await fs.pathExists(primitivePath))) {
-    throw new Error(
-      `Primitive not found: ${primitiveId}@${version} at path ${primitivePath}`
+/**
+ * Fetch one primitive version from a registry into a staging folder, then copy it
+ * into the project
+ */
+const fetchPrimitive = async (
+  projectPath: string,
+  registry: RegistryProvider,
+  primitiveId: string,
+  version: string
+): Promise<void> => {
+  const staging = await fs.mkdtemp(path.join(os.tmpdir(), 'skel-fetch-'));
+  try {
+    const source = await registry.fetch(primitiveId, version, staging);
+    await loadManifest(path.join(staging, MANIFEST_FILE), { id: primitiveId, version });
+    await copyPrimitive(
+      projectPath,
+      primitiveId,
+      version,
+      staging,
+      registry.key === LIBRARY ? source : { ...source, registry: registry.key }
     );
+  } finally {
+    await fs.remove(staging);
   }
+};
+
+/**
+ * Copy a primitive version from an unpacked source folder into the project,
+ * skipping node_modules, then record it in the lockfile and the config
+ */
+const copyPrimitive = async (
+  projectPath: string,
+  primitiveId: string,
+  version: string,
+  sourceDir: string,
+  source: PrimitiveSource
+): Promise<void> => {
+  const [category, name] = splitPrimitiveId(primitiveId);
 
   // Ensure primitives directory exists in project
   const projectPrimitivesDir = path.join(projectPath, 'primitives', category, name, version);
   await fs.ensureDir(projectPrimitivesDir);
 
-  // Copy primitive files
-  const files = ['index.ts', 'index.test.ts', 'primitive.json'];
-  for (const file of files) {
-    const source = path.join(primitivePath, file);
-    if (await fs.pathExists(source)) {
-      const dest = path.join(projectPrimitivesDir, file);
-      await fs.copy(source, dest);
-    }
+  // Copy the whole unpacked tree; installed dependencies are never part of a primitive
+  await fs.copy(sourceDir, projectPrimitivesDir, {
+    filter: file => path.basename(file) !== 'node_modules',
+  });
+
+  // Hash every copied file for the lockfile, keyed by its path inside the version folder
+  const hashes: Record<string, string> = {};
+  for (const file of await listFilesRecursive(projectPrimitivesDir)) {
+    hashes[file] = await hashFile(path.join(projectPrimitivesDir, file));
   }
 
-  // Update configuration
-  const configPath = path.join(projectPath, 'skeleton.config.json');
-  const config = await fs.readJson(configPath);
+  await lockPrimitive(projectPath, { id: primitiveId, version, source, files: hashes });
 
-  // Initialize primitives array if not present
-  if (!config.primitives) {
-    config.primitives = [];
-  }
+  // Update configuration
+  const config = await loadProjectConfig(projectPath);
 
   // Add primitive to config if not already present
   const primitiveRecord = `${primitiveId}@${version}`;
@@ -87,71 +249,391 @@ export const installPrimitive = async (
     config.primitives.push(primitiveRecord);
   }
 
-  config.metadata.updatedAt = new Date().toISOString();
-  await fs.writeJson(configPath, config, { spaces: 2 });
+  await saveProjectConfig(projectPath, config);
 };
 
 /**
- * List all available primitives
- * Scans the primitives directory and returns metadata
+ * Install a primitive from a published vault archive ("<id>.v<version>.zip")
+ * The archive is checked for path traversal, symlinks and size limits before
+ * anything is copied into the project
+ *
+ * @param projectPath - Path to the project root
+ * @param archive - Path to the vault archive
+ * @returns The installed primitive id and version
  */
-export const listPrimitives = async (): Promise<
-  Array<{
-    id: string;
-    version: string;
-    description: string;
-  }>
-> => {
-  const primitivesPath = getPrimitivesPath();
+export const installPrimitiveFromArchive = async (
+  projectPath: string,
+  archive: string
+): Promise<{ id: string; version: string }> => {
+  const parsed = parseArchiveName(archive);
+  if (!parsed) {
+    throw new InvalidArchiveError(archive, 'expected a file named "<category>.<name>.v<version>.zip"');
+  }
+
+  await fetchPrimitive(projectPath, new VaultRegistry(path.dirname(path.resolve(archive))), parsed.id, parsed.version);
+  return parsed;
+};
+
+/**
+ * Install a primitive together with every primitive it requires
+ * Requirements declared in primitive.json are resolved first and installed in
+ * dependency order; versions the project already has are reused when they fit
+ *
+ * @param projectPath - Path to the project root
+ * @param primitiveId - Primitive ID in format "category.name"
+ * @param range - Exact version or semver range for the requested primitive
+ * @param options.vault - Install only from this vault directory instead of the configured registries
+ * @returns Every primitive in the graph, in install order (the requested one last)
+ */
+export const installPrimitiveWithDependencies = async (
+  projectPath: string,
+  primitiveId: string,
+  range: string = LATEST,
+  options: { vault?: string } = {}
+): Promise<ResolvedPrimitive[]> => {
+  const plan = await planInstall(projectPath, primitiveId, options);
+  const graph = resolveDependencyGraph(plan.catalog, primitiveId, range, plan.installed);
+  await installGraph(projectPath, graph, plan);
+  return graph;
+};
 
-  if (!(await fs.pathExists(primitivesPath))) {
+/**
+ * Gather what a dependency-aware install resolves against: the registries, their
+ * merged catalog and the versions the project already has
+ */
+const planInstall = async (
+  projectPath: string,
+  primitiveId: string,
+  options: { vault?: string } = {}
+): Promise<{ registries: RegistryProvider[]; catalog: PrimitiveSummary[]; installed: Record<string, string[]> }> => {
+  splitPrimitiveId(primitiveId);
+
+  const config = await loadProjectConfig(projectPath);
+  const installed: Record<string, string[]> = {};
+  for (const record of config.primitives) {
+    const { primitiveId: id, version } = parsePrimitiveRef(record);
+    if (version) {
+      installed[id] = [...(installed[id] ?? []), version];
+    }
+  }
+
+  const registries = await getRegistries(projectPath, options);
+  const catalog = await listRegistryPrimitives(registries);
+  return { registries, catalog, installed };
+};
+
+/**
+ * Fetch every primitive of a resolved graph the project does not have yet, each
+ * from the registry that listed it
+ */
+const installGraph = async (
+  projectPath: string,
+  graph: ResolvedPrimitive[],
+  plan: { registries: RegistryProvider[]; catalog: PrimitiveSummary[] }
+): Promise<void> => {
+  for (const primitive of graph) {
+    if (primitive.installed) continue;
+
+    const owner = plan.catalog.find(p => p.id === primitive.id && p.version === primitive.version)?.registry;
+    await fetchPrimitive(projectPath, findRegistry(plan.registries, owner), primitive.id, primitive.version);
+  }
+};
+
+/**
+ * Record the files an adapter was generated with, so later commands can tell
+ * whether they have been edited by hand and can merge those edits on upgrade
+ *
+ * @param projectPath - Path to the project root
+ * @param primitiveId - Primitive the adapter wraps
+ * @param targetDir - Directory the adapter was generated into
+ * @param files - Rendered content keyed by file name, as returned by AdapterGenerator.render
+ * @param packageDir - Workspace package the adapter was generated for. Keeps the recorded one when omitted
+ */
+export const recordAdapter = async (
+  projectPath: string,
+  primitiveId: string,
+  targetDir: string,
+  files: Record<string, string>,
+  packageDir?: string
+): Promise<void> => {
+  const config = await loadProjectConfig(projectPath);
+  const pkg =
+    packageDir === undefined
+      ? config.adapters[primitiveId]?.package
+      : path.relative(projectPath, packageDir).split(path.sep).join('/') || undefined;
+
+  const snapshotDir = getAdapterSnapshotDir(projectPath, primitiveId);
+  await fs.remove(snapshotDir);
+
+  const hashes: Record<string, string> = {};
+  for (const [file, content] of Object.entries(files)) {
+    hashes[file] = sha256(content);
+    await fs.outputFile(path.join(snapshotDir, file), content, 'utf-8');
+  }
+
+  config.adapters = {
+    ...config.adapters,
+    [primitiveId]: {
+      path: path.relative(projectPath, targetDir).split(path.sep).join('/'),
+      files: hashes,
+      ...(pkg && { package: pkg }),
+    },
+  };
+
+  await saveProjectConfig(projectPath, config);
+};
+
+const getAdapterDir = (projectPath: string, primitiveId: string, config: SkeletonConfig): string => {
+  const record = config.adapters[primitiveId];
+  if (record?.path) {
+    return path.join(projectPath, record.path);
+  }
+  return path.join(projectPath, 'src', 'adapters', ...splitPrimitiveId(primitiveId));
+};
+
+/**
+ * Locate an installed primitive's adapter and the workspace package it was generated for
+ *
+ * @returns Absolute adapter folder, and the package folder (the project root outside a workspace)
+ */
+export const getAdapterLocation = async (
+  projectPath: string,
+  primitiveId: string
+): Promise<{ dir: string; packageDir: string }> => {
+  const config = await loadProjectConfig(projectPath);
+  return {
+    dir: getAdapterDir(projectPath, primitiveId, config),
+    packageDir: path.join(projectPath, config.adapters[primitiveId]?.package ?? ''),
+  };
+};
+
+/**
+ * List adapter files that differ from what was generated
+ * Files with no recorded hash (generated before tracking, or added by hand) count as modified
+ *
+ * @returns Paths relative to the adapter directory
+ */
+export const getModifiedAdapterFiles = async (
+  projectPath: string,
+  primitiveId: string
+): Promise<string[]> => {
+  const config = await loadProjectConfig(projectPath);
+  const adapterDir = getAdapterDir(projectPath, primitiveId, config);
+
+  if (!(await fs.pathExists(adapterDir))) {
     return [];
   }
 
-  const primitives: Array<{
-    id: string;
-    version: string;
-    description: string;
-  }> = [];
+  const recorded: Record<string, string> = config.adapters[primitiveId]?.files ?? {};
+  const modified: string[] = [];
+
+  for (const file of await listFilesRecursive(adapterDir)) {
+    if (recorded[file] !== (await hashFile(path.join(adapterDir, file)))) {
+      modified.push(file);
+    }
+  }
+
+  return modified;
+};
+
+/**
+ * Remove a primitive from the project
+ * Deletes the installed version folder(s) and the config record(s). The adapter is
+ * only removed once no version of the primitive is left installed.
+ *
+ * @param projectPath - Path to the project root
+ * @param primitiveId - Primitive ID in format "category.name"
+ * @param version - Version to remove. Removes every installed version when omitted
+ * @param options.force - Remove the adapter even if it has local modifications
+ * @returns The versions that were removed and whether the adapter was deleted
+ * @throws InvalidVersionRangeError if version is not an exact semver version
+ * @throws PrimitiveNotInstalledError if the config records no matching version
+ */
+export const removePrimitive = async (
+  projectPath: string,
+  primitiveId: string,
+  version?: string,
+  options: { force?: boolean } = {}
+): Promise<{ versions: string[]; adapterRemoved: boolean }> => {
+  const [category, name] = splitPrimitiveId(primitiveId);
+  if (version !== undefined && !semver.valid(version)) {
+    throw new InvalidVersionRangeError(version);
+  }
+
+  const config = await loadProjectConfig(projectPath);
+  const records = config.primitives;
+  const primitiveRoot = path.join(projectPath, 'primitives');
 
-  const categories = await fs.readdir(primitivesPath);
+  // Only versions the config records are removed, and only from inside primitives/
+  const installed = records
+    .filter(record => record.startsWith(`${primitiveId}@`))
+    .map(record => record.slice(primitiveId.length + 1));
+  const found = (version ? [version] : installed).filter(
+    v => installed.includes(v) && isInside(primitiveRoot, path.join(primitiveRoot, category, name, v))
+  );
 
-  for (const category of categories) {
-    const categoryPath = path.join(primitivesPath, category);
-    const stat = await fs.stat(categoryPath);
+  if (found.length === 0) {
+    throw new PrimitiveNotInstalledError(version ? `${primitiveId}@${version}` : primitiveId);
+  }
 
-    if (!stat.isDirectory()) continue;
+  const removesAdapter = installed.every(v => found.includes(v));
+  const adapterDir = getAdapterDir(projectPath, primitiveId, config);
 
-    const names = await fs.readdir(categoryPath);
+  if (removesAdapter && !options.force) {
+    const modified = await getModifiedAdapterFiles(projectPath, primitiveId);
+    if (modified.length > 0) {
+      throw new AdapterModifiedError(primitiveId, modified);
+    }
+  }
 
-    for (const name of names) {
-      const namePath = path.join(categoryPath, name);
-      const nameStat = await fs.stat(namePath);
+  for (const v of found) {
+    await removeAndPrune(path.join(primitiveRoot, category, name, v), projectPath);
+  }
 
-      if (!nameStat.isDirectory()) continue;
+  const removed = found.map(v => `${primitiveId}@${v}`);
+  config.primitives = records.filter(record => !removed.includes(record));
+  await unlockPrimitives(projectPath, removed);
 
-      const versions = await fs.readdir(namePath);
+  let adapterRemoved = false;
+  if (removesAdapter) {
+    if (await fs.pathExists(adapterDir)) {
+      // Adapters of workspace packages live under the package's own src/
+      await removeAndPrune(adapterDir, path.join(projectPath, config.adapters[primitiveId]?.package ?? '', 'src'));
+      adapterRemoved = true;
+    }
+    delete config.adapters[primitiveId];
+    await removeAndPrune(getAdapterSnapshotDir(projectPath, primitiveId), projectPath);
+  }
 
-      for (const version of versions) {
-        const versionPath = path.join(namePath, version);
-        const versionStat = await fs.stat(versionPath);
+  await saveProjectConfig(projectPath, config);
 
-        if (!versionStat.isDirectory()) continue;
+  return { versions: found, adapterRemoved };
+};
 
-        const manifestPath = path.join(versionPath, 'primitive.json');
-        if (await fs.pathExists(manifestPath)) {
-          const manifest = await fs.readJson(manifestPath);
-          primitives.push({
-            id: `${category}.${name}`,
-            version,
-            description: manifest.description || 'No description',
-          });
-        }
-      }
+/**
+ * List the primitives in the library shipped with the CLI
+ * Manifests that fail schema validation are skipped with a warning
+ */
+export const listPrimitives = async (): Promise<PrimitiveSummary[]> =>
+  new LocalRegistry(getPrimitivesPath(), LIBRARY).list();
+
+/**
+ * List the primitives available to a project across every registry it queries
+ * Each summary names the registry that provides it
+ */
+export const listAvailablePrimitives = async (projectPath?: string): Promise<PrimitiveSummary[]> =>
+  listRegistryPrimitives(await getRegistries(projectPath));
+
+/**
+ * Regenerate an adapter on top of a possibly hand-edited copy
+ * Each file is three-way merged between the snapshot it was generated from, the
+ * current file on disk and the newly rendered content. Conflicting hunks are kept
+ * between conflict markers so nothing is lost.
+ *
+ * @param projectPath - Path to the project root
+ * @param primitiveId - Primitive the adapter wraps
+ * @param targetDir - Directory holding the adapter
+ * @param rendered - New content keyed by file name, as returned by AdapterGenerator.render
+ * @returns Files that were written and files left with conflict markers
+ */
+export const mergeAdapter = async (
+  projectPath: string,
+  primitiveId: string,
+  targetDir: string,
+  rendered: Record<string, string>
+): Promise<{ updated: string[]; conflicts: string[] }> => {
+  const config = await loadProjectConfig(projectPath);
+  const recorded: Record<string, string> = config.adapters[primitiveId]?.files ?? {};
+  const snapshotDir = getAdapterSnapshotDir(projectPath, primitiveId);
+  const updated: string[] = [];
+  const conflicts: string[] = [];
+
+  for (const [file, theirs] of Object.entries(rendered)) {
+    const dest = path.join(targetDir, file);
+
+    if (!(await fs.pathExists(dest))) {
+      await fs.outputFile(dest, theirs, 'utf-8');
+      updated.push(file);
+      continue;
+    }
+
+    const ours = await fs.readFile(dest, 'utf-8');
+    const snapshot = path.join(snapshotDir, file);
+    let base = '';
+    if (await fs.pathExists(snapshot)) {
+      base = await fs.readFile(snapshot, 'utf-8');
+    } else if (recorded[file] === sha256(ours)) {
+      base = ours;
+    }
+
+    const merged = merge3(base, ours, theirs);
+    if (merged.content !== ours) {
+      await fs.writeFile(dest, merged.content, 'utf-8');
+      updated.push(file);
+    }
+    if (merged.conflicts > 0) {
+      conflicts.push(file);
     }
   }
 
-  return primitives;
+  await recordAdapter(projectPath, primitiveId, targetDir, rendered);
+
+  return { updated, conflicts };
 };
 
+/**
+ * Move an installed primitive to the newest version matching a range
+ * Requirements the new version declares are installed alongside it. The config
+ * record is replaced in place and older installed copies are removed
+ *
+ * @param projectPath - Path to the project root
+ * @param primitiveId - Primitive ID in format "category.name"
+ * @param range - Semver range to upgrade within. Defaults to versions compatible with the installed one
+ */
+export const upgradePrimitive = async (
+  projectPath: string,
+  primitiveId: string,
+  range?: string
+): Promise<{ from: string; to: string; upgraded: boolean }> => {
+  const [category, name] = splitPrimitiveId(primitiveId);
+  const config = await loadProjectConfig(projectPath);
+  const prefix = `${primitiveId}@`;
+  const installed = config.primitives
+    .filter(record => record.startsWith(prefix))
+    .map(record => record.slice(prefix.length));
+
+  if (installed.length === 0) {
+    throw new PrimitiveNotInstalledError(primitiveId);
+  }
+
+  const current = semver.rsort(installed.filter(v => semver.valid(v)))[0] ?? installed[0];
+  const wanted = range ?? `^${current}`;
+  const plan = await planInstall(projectPath, primitiveId);
+  const target = resolveVersion(
+    plan.catalog.filter(p => p.id === primitiveId).map(p => p.version),
+    wanted
+  );
+
+  if (!target || !semver.valid(current) || semver.lte(target, current)) {
+    return { from: current, to: current, upgraded: false };
+  }
 
+  // The new version may need requirements the old one did not
+  await installGraph(projectPath, resolveDependencyGraph(plan.catalog, primitiveId, target, plan.installed), plan);
+
+  const primitiveRoot = path.join(projectPath, 'primitives');
+  const previous = installed.filter(v => v !== target);
+  for (const v of previous) {
+    await removeAndPrune(path.join(primitiveRoot, category, name, v), projectPath);
+  }
+  await unlockPrimitives(projectPath, previous.map(v => `${prefix}${v}`));
+
+  const updated = await loadProjectConfig(projectPath);
+  const records = updated.primitives;
+  const index = records.findIndex(record => record.startsWith(prefix));
+  updated.primitives = records.filter(record => !record.startsWith(prefix));
+  updated.primitives.splice(index, 0, `${primitiveId}@${target}`);
+  await saveProjectConfig(projectPath, updated);
+
+  return { from: current, to: target, upgraded: true };
+};
@@ -72,10 +72,121 @@ describe('AdapterGenerator - The Gauntlet', () => {
       const generated = await fs.readFile(path.join(outputRoot, 'config.ts'), 'utf-8');
       expect(generated).toBe('app');
     });
+
+    it('should list the stacks with templates for a primitive', async () => {
+      await fs.ensureDir(path.join(templatesRoot, 'ts/nestjs/security.tokenizer'));
+      await fs.ensureDir(path.join(templatesRoot, 'ts/express/security.tokenizer'));
+      await fs.ensureDir(path.join(templatesRoot, 'python/django/security.hasher'));
+
+      const generator = new AdapterGenerator(templatesRoot);
+
+      expect(await generator.listTemplates('security.tokenizer')).toEqual([
+        { language: 'ts', framework: 'express' },
+        { language: 'ts', framework: 'nestjs' },
+      ]);
+      expect(await generator.listTemplates('utils.uuid')).toEqual([]);
+    });
+
+    it('should layer the variant matching the framework version over shared files', async () => {
+      const templateDir = path.join(templatesRoot, 'ts/nestjs/security.tokenizer');
+      await fs.ensureDir(path.join(templateDir, 'v10'));
+      await fs.ensureDir(path.join(templateDir, 'v9'));
+      await fs.writeJson(path.join(templateDir, 'template.json'), {
+        variants: [
+          { range: '>=10', dir: 'v10' },
+          { range: '<10', dir: 'v9' },
+        ],
+        default: 'v10',
+      });
+      await fs.writeFile(path.join(templateDir, 'index.ts'), 'shared');
+      await fs.writeFile(path.join(templateDir, 'module.ts'), 'shared module');
+      await fs.writeFile(path.join(templateDir, 'v10/module.ts'), 'nest 10');
+      await fs.writeFile(path.join(templateDir, 'v9/module.ts'), 'nest 9');
+
+      const generator = new AdapterGenerator(templatesRoot);
+      const render = (version?: string) =>
+        generator.render('security.tokenizer', { language: 'ts', framework: 'nestjs', version });
+
+      expect(await render('9.4.3')).toEqual({ 'index.ts': 'shared', 'module.ts': 'nest 9' });
+      expect(await render('10.3.2')).toEqual({ 'index.ts': 'shared', 'module.ts': 'nest 10' });
+      expect(await render()).toEqual({ 'index.ts': 'shared', 'module.ts': 'nest 10' });
+      expect(await generator.listTemplates('security.tokenizer')).toEqual([
+        { language: 'ts', framework: 'nestjs', variants: [{ range: '>=10', dir: 'v10' }, { range: '<10', dir: 'v9' }] },
+      ]);
+    });
+
+    it('should use only shared files when no variant matches and there is no default', async () => {
+      const templateDir = path.join(templatesRoot, 'ts/nestjs/security.tokenizer');
+      await fs.ensureDir(path.join(templateDir, 'v11'));
+      await fs.writeJson(path.join(templateDir, 'template.json'), { variants: [{ range: '>=11', dir: 'v11' }] });
+      await fs.writeFile(path.join(templateDir, 'module.ts'), 'shared module');
+      await fs.writeFile(path.join(templateDir, 'v11/module.ts'), 'nest 11');
+
+      const generator = new AdapterGenerator(templatesRoot);
+      const stack: DetectedStack = { language: 'ts', framework: 'nestjs', version: '10.0.0' };
+
+      expect(await generator.selectVariant('security.tokenizer', stack)).toBeUndefined();
+      expect(await generator.render('security.tokenizer', stack)).toEqual({ 'module.ts': 'shared module' });
+    });
+
+    it('should select variants by runtime and fill in RUNTIME', async () => {
+      const templateDir = path.join(templatesRoot, 'ts/hono/security.tokenizer');
+      await fs.ensureDir(path.join(templateDir, 'deno'));
+      await fs.ensureDir(path.join(templateDir, 'bun4'));
+      await fs.writeJson(path.join(templateDir, 'template.json'), {
+        variants: [
+          { runtime: 'deno', dir: 'deno' },
+          { range: '>=4', runtime: 'bun', dir: 'bun4' },
+        ],
+      });
+      await fs.writeFile(path.join(templateDir, 'server.ts'), 'runs on {{RUNTIME}}');
+      await fs.writeFile(path.join(templateDir, 'deno/deps.ts'), 'export * from "jsr:@hono/hono";');
+      await fs.writeFile(path.join(templateDir, 'bun4/bunfig.toml'), '');
+
+      const generator = new AdapterGenerator(templatesRoot);
+      const render = (stack: Partial<DetectedStack>) =>
+        generator.render('security.tokenizer', { language: 'ts', framework: 'hono', ...stack });
+
+      expect(await render({ runtime: 'deno' })).toEqual({ 'server.ts': 'runs on deno', 'deps.ts': 'export * from "jsr:@hono/hono";' });
+      expect(Object.keys(await render({ runtime: 'bun', version: '4.2.0' }))).toEqual(['server.ts', 'bunfig.toml']);
+      expect(await render({ runtime: 'bun' })).toEqual({ 'server.ts': 'runs on bun' });
+      expect(await render({ runtime: 'node', version: '4.2.0' })).toEqual({ 'server.ts': 'runs on node' });
+    });
+
+    it('should select variants by app model and fill in APP_MODEL', async () => {
+      const templateDir = path.join(templatesRoot, 'csharp/aspnet/security.tokenizer');
+      await fs.ensureDir(path.join(templateDir, 'mvc'));
+      await fs.writeJson(path.join(templateDir, 'template.json'), { variants: [{ appModel: 'mvc', dir: 'mvc' }] });
+      await fs.writeFile(path.join(templateDir, 'TokenizerSetup.cs'), '// {{APP_MODEL}}');
+      await fs.writeFile(path.join(templateDir, 'mvc/TokenizerController.cs'), 'class TokenizerController {}');
+
+      const generator = new AdapterGenerator(templatesRoot);
+      const render = (appModel: DetectedStack['appModel']) =>
+        generator.render('security.tokenizer', { language: 'csharp', framework: 'aspnet', appModel });
+
+      expect(Object.keys(await render('mvc'))).toEqual(['TokenizerSetup.cs', 'TokenizerController.cs']);
+      expect(await render('minimal-api')).toEqual({ 'TokenizerSetup.cs': '// minimal-api' });
+    });
   });
 
   // 2. Input Validation (Zod)
   describe('Input Validation', () => {
+    it('should reject a template.json with an invalid range or variant folder', async () => {
+      const templateDir = path.join(templatesRoot, 'ts/nestjs/security.tokenizer');
+      await fs.ensureDir(templateDir);
+      const generator = new AdapterGenerator(templatesRoot);
+      const stack: DetectedStack = { language: 'ts', framework: 'nestjs', version: '10.0.0' };
+
+      await fs.writeJson(path.join(templateDir, 'template.json'), { variants: [{ range: 'not a range', dir: 'v10' }] });
+      await expect(generator.selectVariant('security.tokenizer', stack)).rejects.toThrow(/semver range/);
+
+      await fs.writeJson(path.join(templateDir, 'template.json'), { variants: [{ range: '>=10', dir: '../escape' }] });
+      await expect(generator.selectVariant('security.tokenizer', stack)).rejects.toThrow(/folder name/);
+
+      await fs.writeJson(path.join(templateDir, 'template.json'), { variants: [{ dir: 'v10' }] });
+      await expect(generator.selectVariant('security.tokenizer', stack)).rejects.toThrow(/a range, a runtime or an appModel/);
+    });
+
     it('should reject invalid primitiveId format', async () => {
       const generator = new AdapterGenerator(templatesRoot);
       const stack: DetectedStack = { language: 'ts', framework: 'nestjs' };
@@ -112,6 +223,17 @@ describe('AdapterGenerator - The Gauntlet', () => {
       }
     });
 
+    it('should accept every primitiveId the manifest schema accepts', async () => {
+      const templateDir = path.join(templatesRoot, 'ts/nestjs/security.jwt-tokenizer2');
+      await fs.ensureDir(templateDir);
+      await fs.writeFile(path.join(templateDir, 'test.ts'), 'test');
+
+      const generator = new AdapterGenerator(templatesRoot);
+      const stack: DetectedStack = { language: 'ts', framework: 'nestjs' };
+
+      await expect(generator.render('security.jwt-tokenizer2', stack)).resolves.toEqual({ 'test.ts': 'test' });
+    });
+
     it('should accept valid primitiveId format', async () => {
       const templateDir = path.join(templatesRoot, 'ts/nestjs/security.tokenizer');
       await fs.ensureDir(templateDir);
@@ -126,6 +248,21 @@ describe('AdapterGenerator - The Gauntlet', () => {
     });
   });
 
+  describe('Shipped Templates', () => {
+    it('should render the NestJS 8 variant of the tokenizer adapter for older Nest versions', async () => {
+      const generator = new AdapterGenerator();
+
+      const legacy = await generator.render('security.tokenizer', { language: 'ts', framework: 'nestjs', version: '8.4.7' });
+      const current = await generator.render('security.tokenizer', { language: 'ts', framework: 'nestjs', version: '10.3.0' });
+
+      expect(await generator.selectVariant('security.tokenizer', { language: 'ts', framework: 'nestjs', version: '8.4.7' })).toBe('nest8');
+      expect(Object.keys(legacy)).toEqual(['tokenizer.service.ts']);
+      expect(legacy['tokenizer.service.ts']).not.toContain('getOrThrow');
+      expect(legacy['tokenizer.service.ts']).toContain("from '@skel/security.tokenizer'");
+      expect(current['tokenizer.service.ts']).toContain('getOrThrow');
+    });
+  });
+
   // 3. Security - Path Traversal Prevention
   describe('Security - Path Traversal', () => {
     it('should reject path traversal with ../', async () => {
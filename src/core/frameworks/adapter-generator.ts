@@ -1,18 +1,58 @@
 import fs from 'fs-extra';
 import path from 'path';
+import semver from 'semver';
+import { fileURLToPath } from 'url';
 import { z } from 'zod';
-import { DetectedStack } from './detector';
-import { SkelError } from '../errors';
+import { DetectedStack } from './detector.js';
+import { SkelError } from '../errors.js';
+import { PRIMITIVE_ID } from '../manifest.js';
 
 const InputSchema = z.object({
-  primitiveId: z.string().regex(/^[a-z]+\.[a-z]+$/),
+  primitiveId: z.string().regex(PRIMITIVE_ID),
   stack: z.object({
-    language: z.enum(['ts', 'csharp', 'java', 'python', 'php', 'unknown']),
+    language: z.enum(['ts', 'csharp', 'java', 'kotlin', 'python', 'php', 'go', 'rust', 'ruby', 'unknown']),
     framework: z.string(),
+    version: z.string().optional(),
+    runtime: z.enum(['node', 'bun', 'deno']).optional(),
+    appModel: z.enum(['minimal-api', 'mvc', 'blazor', 'worker']).optional(),
   }),
   targetDir: z.string().min(1),
 });
 
+/** Optional file in a template folder that maps framework versions, runtimes and app models to variant folders */
+export const TEMPLATE_CONFIG = 'template.json';
+
+const VariantDirSchema = z.string().regex(/^[\w.-]+$/, 'Must be a folder name inside the template');
+
+/**
+ * template.json
+ * The first variant whose conditions all hold is used (the detected framework version satisfies
+ * `range`, the stack runs on `runtime`, a .NET app is built as `appModel`), its files replacing
+ * or adding to the shared files next to template.json. `default` applies when no variant matches.
+ */
+const TemplateConfigSchema = z.object({
+  variants: z
+    .array(
+      z
+        .object({
+          range: z.string().refine(range => semver.validRange(range) !== null, 'Must be a semver range').optional(),
+          runtime: z.enum(['node', 'bun', 'deno']).optional(),
+          appModel: z.enum(['minimal-api', 'mvc', 'blazor', 'worker']).optional(),
+          dir: VariantDirSchema,
+        })
+        .refine(
+          variant => variant.range !== undefined || variant.runtime !== undefined || variant.appModel !== undefined,
+          'Needs a range, a runtime or an appModel'
+        )
+    )
+    .default([]),
+  default: VariantDirSchema.optional(),
+});
+
+export type TemplateConfig = z.infer<typeof TemplateConfigSchema>;
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
 export class PathTraversalError extends SkelError {
   constructor(attemptedPath: string) {
     super(`Path traversal detected: ${attemptedPath}`, 'PATH_TRAVERSAL');
@@ -47,8 +87,69 @@ export class AdapterGenerator {
     return rendered;
   }
 
-  async generate(primitiveId: string, stack: DetectedStack, targetDir: string, projectName?: string): Promise<void> {
-    const input = InputSchema.parse({ primitiveId, stack, targetDir });
+  private async readTemplateConfig(templatePath: string): Promise<TemplateConfig> {
+    const configPath = path.join(templatePath, TEMPLATE_CONFIG);
+    this.validatePath(configPath);
+    if (!(await fs.pathExists(configPath))) {
+      return { variants: [] };
+    }
+    return TemplateConfigSchema.parse(await fs.readJson(configPath));
+  }
+
+  /**
+   * Pick the template variant for the detected framework version, runtime and app model
+   *
+   * @returns Variant folder name, or undefined to use only the shared files
+   */
+  async selectVariant(primitiveId: string, stack: DetectedStack): Promise<string | undefined> {
+    const input = InputSchema.omit({ targetDir: true }).parse({ primitiveId, stack });
+    const templatePath = path.join(this.templatesRoot, input.stack.language, input.stack.framework, input.primitiveId);
+    this.validatePath(templatePath);
+
+    const config = await this.readTemplateConfig(templatePath);
+    const version = input.stack.version && semver.valid(input.stack.version);
+    const match = config.variants.find(
+      variant =>
+        (variant.range === undefined || (!!version && semver.satisfies(version, variant.range))) &&
+        (variant.runtime === undefined || variant.runtime === input.stack.runtime) &&
+        (variant.appModel === undefined || variant.appModel === input.stack.appModel)
+    );
+    return match?.dir ?? config.default;
+  }
+
+  /**
+   * Stacks that have adapter templates for a primitive, with their version variants
+   */
+  async listTemplates(
+    primitiveId: string
+  ): Promise<Array<{ language: string; framework: string; variants?: TemplateConfig['variants'] }>> {
+    const found: Array<{ language: string; framework: string; variants?: TemplateConfig['variants'] }> = [];
+    if (!(await fs.pathExists(this.templatesRoot))) return found;
+
+    for (const language of (await fs.readdir(this.templatesRoot)).sort()) {
+      const languageDir = path.join(this.templatesRoot, language);
+      if (!(await fs.stat(languageDir)).isDirectory()) continue;
+
+      for (const framework of (await fs.readdir(languageDir)).sort()) {
+        const templatePath = path.join(languageDir, framework, primitiveId);
+        this.validatePath(templatePath);
+        if (await fs.pathExists(templatePath)) {
+          const { variants } = await this.readTemplateConfig(templatePath);
+          found.push({ language, framework, ...(variants.length > 0 && { variants }) });
+        }
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Render the adapter templates for a primitive without touching the disk
+   * The variant matching stack.version, stack.runtime and stack.appModel is layered over the shared files
+   * Returns the rendered content keyed by file name
+   */
+  async render(primitiveId: string, stack: DetectedStack, projectName?: string): Promise<Record<string, string>> {
+    const input = InputSchema.omit({ targetDir: true }).parse({ primitiveId, stack });
 
     const templatePath = path.join(
       this.templatesRoot,
@@ -63,21 +164,46 @@ export class AdapterGenerator {
       throw new TemplateNotFoundError(templatePath);
     }
 
-    const files = await fs.readdir(templatePath);
-    
-    for (const file of files) {
-      const srcPath = path.join(templatePath, file);
+    const sources = new Map<string, string>();
+    const variant = await this.selectVariant(primitiveId, stack);
+    for (const dir of variant ? [templatePath, path.join(templatePath, variant)] : [templatePath]) {
+      this.validatePath(dir);
+      if (!(await fs.pathExists(dir))) {
+        throw new TemplateNotFoundError(dir);
+      }
+      for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+        if (entry.isFile() && entry.name !== TEMPLATE_CONFIG) {
+          sources.set(entry.name, path.join(dir, entry.name));
+        }
+      }
+    }
+
+    const rendered: Record<string, string> = {};
+
+    for (const [file, srcPath] of sources) {
       this.validatePath(srcPath);
 
       const content = await fs.readFile(srcPath, 'utf-8');
-      const rendered = this.renderTemplate(content, {
+      rendered[file] = this.renderTemplate(content, {
         PROJECT_NAME: projectName || 'app',
         PRIMITIVE_ID: primitiveId,
+        RUNTIME: stack.runtime ?? '',
+        APP_MODEL: stack.appModel ?? '',
       });
+    }
+
+    return rendered;
+  }
+
+  async generate(primitiveId: string, stack: DetectedStack, targetDir: string, projectName?: string): Promise<void> {
+    InputSchema.parse({ primitiveId, stack, targetDir });
+
+    const rendered = await this.render(primitiveId, stack, projectName);
 
+    for (const [file, content] of Object.entries(rendered)) {
       const destPath = path.join(targetDir, file);
       await fs.ensureDir(path.dirname(destPath));
-      await fs.writeFile(destPath, rendered, 'utf-8');
+      await fs.writeFile(destPath, content, 'utf-8');
     }
   }
 }
@@ -3,12 +3,27 @@ export interface FrameworkConfig {
   name: string;
   priority?: number;
   confidenceBoost?: string[];
+  /** Packages whose version is the framework's version, when they differ from key (prefixes for Maven/Gradle) */
+  versionKeys?: string[];
+  /** Build properties that hold the framework version (gradle.properties, pom.xml <properties>) */
+  versionProperties?: string[];
+  /** Other names the framework is published under, e.g. on JSR */
+  aliases?: string[];
+  /** MSBuild project SDKs that imply the framework without a package reference (.NET) */
+  sdks?: string[];
 }
 
+/** Database a data layer talks to */
+export type Database = 'postgres' | 'mysql' | 'sqlite' | 'mssql' | 'mongo' | 'redis';
+
 export interface DataLayerConfig {
+  /** Dependency that identifies the layer */
   key: string;
-  type: 'mongo' | 'postgres' | 'graphql';
-  priority?: number;
+  /** Layer name reported in the stack, shared by the packages of one library (e.g. prisma, @prisma/client) */
+  name: string;
+  role: 'orm' | 'driver' | 'graphql';
+  /** Set for drivers, and for ORMs tied to one database */
+  database?: Database;
 }
 
 export interface DetectorConfig {
@@ -16,11 +31,18 @@ export interface DetectorConfig {
   dataLayers?: DataLayerConfig[];
 }
 
-// Node.js/TypeScript frameworks
+// Node.js/TypeScript frameworks, meta-frameworks before the servers they can run on
 export const NODE_FRAMEWORKS: FrameworkConfig[] = [
   { key: '@nestjs/core', name: 'nestjs', priority: 10, confidenceBoost: ['@nestjs/cli', 'nest-cli.json'] },
   { key: 'next', name: 'nextjs', priority: 9, confidenceBoost: ['react'] },
+  { key: 'nuxt', name: 'nuxt', priority: 9, confidenceBoost: ['nuxt.config.ts', 'nuxt.config.js'] },
+  { key: '@remix-run/react', name: 'remix', priority: 9, confidenceBoost: ['@remix-run/dev'] },
+  { key: '@sveltejs/kit', name: 'sveltekit', priority: 9, confidenceBoost: ['svelte.config.js'] },
+  { key: 'astro', name: 'astro', priority: 8, confidenceBoost: ['astro.config.mjs', 'astro.config.ts'] },
   { key: '@angular/core', name: 'angular', priority: 8, confidenceBoost: ['@angular/cli'] },
+  { key: 'fastify', name: 'fastify', priority: 6 },
+  { key: 'koa', name: 'koa', priority: 6 },
+  { key: 'hono', name: 'hono', priority: 6, aliases: ['@hono/hono'] },
   { key: 'express', name: 'express', priority: 5 }
 ];
 
@@ -33,12 +55,56 @@ export const PYTHON_FRAMEWORKS: FrameworkConfig[] = [
 
 // C# frameworks
 export const CSHARP_FRAMEWORKS: FrameworkConfig[] = [
-  { key: 'Microsoft.AspNetCore', name: 'aspnet', priority: 10, confidenceBoost: ['Microsoft.AspNetCore.Mvc'] }
+  {
+    key: 'Microsoft.AspNetCore',
+    name: 'aspnet',
+    priority: 10,
+    confidenceBoost: ['Microsoft.AspNetCore.Mvc'],
+    sdks: ['Microsoft.NET.Sdk.Web', 'Microsoft.NET.Sdk.BlazorWebAssembly']
+  },
+  // Worker services run on the generic host, without ASP.NET Core
+  {
+    key: 'Microsoft.Extensions.Hosting',
+    name: 'worker',
+    priority: 10,
+    confidenceBoost: ['Microsoft.NET.Sdk.Worker'],
+    sdks: ['Microsoft.NET.Sdk.Worker']
+  }
 ];
 
-// Java frameworks
+// JVM frameworks, for Java and Kotlin
 export const JAVA_FRAMEWORKS: FrameworkConfig[] = [
-  { key: 'spring-boot-starter', name: 'spring', priority: 10, confidenceBoost: ['spring-boot-starter-web'] }
+  {
+    key: 'spring-boot-starter',
+    name: 'spring',
+    priority: 10,
+    confidenceBoost: ['spring-boot-starter-web'],
+    versionKeys: ['spring-boot', 'org.springframework.boot']
+  },
+  {
+    key: 'io.quarkus',
+    name: 'quarkus',
+    priority: 10,
+    confidenceBoost: ['quarkus-rest', 'quarkus-resteasy'],
+    versionKeys: ['quarkus-bom', 'quarkus-maven-plugin', 'quarkus.platform'],
+    versionProperties: ['quarkusPlatformVersion', 'quarkusPluginVersion']
+  },
+  {
+    key: 'io.micronaut',
+    name: 'micronaut',
+    priority: 10,
+    confidenceBoost: ['micronaut-http-server-netty'],
+    versionKeys: ['micronaut-parent', 'micronaut-platform', 'io.micronaut.application'],
+    versionProperties: ['micronaut.version', 'micronautVersion']
+  },
+  {
+    key: 'io.ktor',
+    name: 'ktor',
+    priority: 10,
+    confidenceBoost: ['ktor-server-netty', 'ktor-server-cio'],
+    versionKeys: ['io.ktor.plugin', 'ktor-server-core'],
+    versionProperties: ['ktor_version', 'ktor.version', 'ktorVersion']
+  }
 ];
 
 // PHP frameworks
@@ -46,22 +112,162 @@ export const PHP_FRAMEWORKS: FrameworkConfig[] = [
   { key: 'laravel/framework', name: 'laravel', priority: 10, confidenceBoost: ['laravel/laravel'] }
 ];
 
-// Data layer configurations
+// Go frameworks, keyed by module path without the /vN major version suffix
+export const GO_FRAMEWORKS: FrameworkConfig[] = [
+  { key: 'github.com/gin-gonic/gin', name: 'gin', priority: 10 },
+  { key: 'github.com/labstack/echo', name: 'echo', priority: 9 },
+  { key: 'github.com/gofiber/fiber', name: 'fiber', priority: 9 },
+  { key: 'github.com/go-chi/chi', name: 'chi', priority: 8 }
+];
+
+// Rust frameworks, keyed by crate name
+export const RUST_FRAMEWORKS: FrameworkConfig[] = [
+  { key: 'axum', name: 'axum', priority: 10 },
+  { key: 'actix-web', name: 'actix', priority: 10 },
+  { key: 'rocket', name: 'rocket', priority: 9 }
+];
+
+// Ruby frameworks, keyed by gem name
+export const RUBY_FRAMEWORKS: FrameworkConfig[] = [
+  { key: 'rails', name: 'rails', priority: 10, confidenceBoost: ['config/application.rb'] },
+  { key: 'hanami', name: 'hanami', priority: 9 },
+  { key: 'sinatra', name: 'sinatra', priority: 8 }
+];
+
+// Data layers, one table per ecosystem; a stack reports every layer whose key is a dependency
+
+// Node.js data layers, keyed by npm package
 export const DATA_LAYERS: DataLayerConfig[] = [
-  { key: 'mongoose', type: 'mongo', priority: 10 },
-  { key: 'mongodb', type: 'mongo', priority: 9 },
-  { key: 'pg', type: 'postgres', priority: 10 },
-  { key: 'postgres', type: 'postgres', priority: 9 },
-  { key: 'typeorm', type: 'postgres', priority: 8 },
-  { key: 'graphql', type: 'graphql', priority: 10 },
-  { key: 'apollo-server', type: 'graphql', priority: 9 }
-];
-
-// Helper function to get data layer type by package name
-export function getDataLayerType(packageName: string): 'mongo' | 'postgres' | 'graphql' | undefined {
-  const config = DATA_LAYERS.find(dl => dl.key === packageName);
-  return config?.type;
-}
+  { key: '@prisma/client', name: 'prisma', role: 'orm' },
+  { key: 'prisma', name: 'prisma', role: 'orm' },
+  { key: 'drizzle-orm', name: 'drizzle', role: 'orm' },
+  { key: 'typeorm', name: 'typeorm', role: 'orm' },
+  { key: 'sequelize', name: 'sequelize', role: 'orm' },
+  { key: '@mikro-orm/core', name: 'mikro-orm', role: 'orm' },
+  { key: 'mongoose', name: 'mongoose', role: 'orm', database: 'mongo' },
+  { key: 'pg', name: 'pg', role: 'driver', database: 'postgres' },
+  { key: 'postgres', name: 'postgres', role: 'driver', database: 'postgres' },
+  { key: 'mysql2', name: 'mysql2', role: 'driver', database: 'mysql' },
+  { key: 'mysql', name: 'mysql', role: 'driver', database: 'mysql' },
+  { key: 'better-sqlite3', name: 'better-sqlite3', role: 'driver', database: 'sqlite' },
+  { key: 'sqlite3', name: 'sqlite3', role: 'driver', database: 'sqlite' },
+  { key: 'mongodb', name: 'mongodb', role: 'driver', database: 'mongo' },
+  { key: 'ioredis', name: 'ioredis', role: 'driver', database: 'redis' },
+  { key: 'redis', name: 'redis', role: 'driver', database: 'redis' },
+  { key: 'graphql', name: 'graphql', role: 'graphql' },
+  { key: '@apollo/server', name: 'apollo-server', role: 'graphql' },
+  { key: 'apollo-server', name: 'apollo-server', role: 'graphql' }
+];
+
+// Python data layers, keyed by PEP 503 normalized package name
+export const PYTHON_DATA_LAYERS: DataLayerConfig[] = [
+  // Django ships its ORM, so the framework itself is the dependency
+  { key: 'django', name: 'django-orm', role: 'orm' },
+  { key: 'sqlalchemy', name: 'sqlalchemy', role: 'orm' },
+  { key: 'sqlmodel', name: 'sqlmodel', role: 'orm' },
+  { key: 'tortoise-orm', name: 'tortoise-orm', role: 'orm' },
+  { key: 'peewee', name: 'peewee', role: 'orm' },
+  { key: 'beanie', name: 'beanie', role: 'orm', database: 'mongo' },
+  { key: 'mongoengine', name: 'mongoengine', role: 'orm', database: 'mongo' },
+  { key: 'psycopg', name: 'psycopg', role: 'driver', database: 'postgres' },
+  { key: 'psycopg2', name: 'psycopg2', role: 'driver', database: 'postgres' },
+  { key: 'psycopg2-binary', name: 'psycopg2', role: 'driver', database: 'postgres' },
+  { key: 'asyncpg', name: 'asyncpg', role: 'driver', database: 'postgres' },
+  { key: 'mysqlclient', name: 'mysqlclient', role: 'driver', database: 'mysql' },
+  { key: 'pymysql', name: 'pymysql', role: 'driver', database: 'mysql' },
+  { key: 'aiosqlite', name: 'aiosqlite', role: 'driver', database: 'sqlite' },
+  { key: 'motor', name: 'motor', role: 'driver', database: 'mongo' },
+  { key: 'pymongo', name: 'pymongo', role: 'driver', database: 'mongo' },
+  { key: 'redis', name: 'redis', role: 'driver', database: 'redis' },
+  { key: 'strawberry-graphql', name: 'strawberry', role: 'graphql' },
+  { key: 'graphene', name: 'graphene', role: 'graphql' }
+];
+
+// Java data layers, keyed by Maven artifactId
+export const JAVA_DATA_LAYERS: DataLayerConfig[] = [
+  { key: 'spring-boot-starter-data-jpa', name: 'jpa', role: 'orm' },
+  { key: 'hibernate-core', name: 'hibernate', role: 'orm' },
+  { key: 'spring-boot-starter-data-mongodb', name: 'spring-data-mongodb', role: 'orm', database: 'mongo' },
+  { key: 'postgresql', name: 'postgresql', role: 'driver', database: 'postgres' },
+  { key: 'mysql-connector-j', name: 'mysql-connector', role: 'driver', database: 'mysql' },
+  { key: 'mysql-connector-java', name: 'mysql-connector', role: 'driver', database: 'mysql' },
+  { key: 'sqlite-jdbc', name: 'sqlite-jdbc', role: 'driver', database: 'sqlite' },
+  { key: 'mssql-jdbc', name: 'mssql-jdbc', role: 'driver', database: 'mssql' },
+  { key: 'mongodb-driver-sync', name: 'mongodb-driver', role: 'driver', database: 'mongo' },
+  { key: 'spring-boot-starter-data-redis', name: 'spring-data-redis', role: 'driver', database: 'redis' },
+  { key: 'jedis', name: 'jedis', role: 'driver', database: 'redis' },
+  { key: 'spring-boot-starter-graphql', name: 'spring-graphql', role: 'graphql' }
+];
+
+// C# data layers, keyed by NuGet package id
+export const CSHARP_DATA_LAYERS: DataLayerConfig[] = [
+  { key: 'Microsoft.EntityFrameworkCore', name: 'efcore', role: 'orm' },
+  { key: 'Dapper', name: 'dapper', role: 'orm' },
+  { key: 'Npgsql.EntityFrameworkCore.PostgreSQL', name: 'npgsql', role: 'driver', database: 'postgres' },
+  { key: 'Npgsql', name: 'npgsql', role: 'driver', database: 'postgres' },
+  { key: 'Microsoft.EntityFrameworkCore.SqlServer', name: 'sqlserver', role: 'driver', database: 'mssql' },
+  { key: 'Microsoft.Data.SqlClient', name: 'sqlserver', role: 'driver', database: 'mssql' },
+  { key: 'Pomelo.EntityFrameworkCore.MySql', name: 'mysql', role: 'driver', database: 'mysql' },
+  { key: 'Microsoft.EntityFrameworkCore.Sqlite', name: 'sqlite', role: 'driver', database: 'sqlite' },
+  { key: 'MongoDB.Driver', name: 'mongodb-driver', role: 'driver', database: 'mongo' },
+  { key: 'StackExchange.Redis', name: 'stackexchange-redis', role: 'driver', database: 'redis' },
+  { key: 'HotChocolate.AspNetCore', name: 'hotchocolate', role: 'graphql' }
+];
+
+// PHP data layers, keyed by Composer package
+export const PHP_DATA_LAYERS: DataLayerConfig[] = [
+  // Laravel ships Eloquent
+  { key: 'laravel/framework', name: 'eloquent', role: 'orm' },
+  { key: 'doctrine/orm', name: 'doctrine', role: 'orm' },
+  { key: 'mongodb/mongodb', name: 'mongodb', role: 'driver', database: 'mongo' },
+  { key: 'predis/predis', name: 'predis', role: 'driver', database: 'redis' }
+];
+
+// Go data layers, keyed by module path without the /vN suffix
+export const GO_DATA_LAYERS: DataLayerConfig[] = [
+  { key: 'gorm.io/gorm', name: 'gorm', role: 'orm' },
+  { key: 'entgo.io/ent', name: 'ent', role: 'orm' },
+  { key: 'github.com/jackc/pgx', name: 'pgx', role: 'driver', database: 'postgres' },
+  { key: 'github.com/lib/pq', name: 'pq', role: 'driver', database: 'postgres' },
+  { key: 'gorm.io/driver/postgres', name: 'gorm-postgres', role: 'driver', database: 'postgres' },
+  { key: 'github.com/go-sql-driver/mysql', name: 'go-sql-driver-mysql', role: 'driver', database: 'mysql' },
+  { key: 'gorm.io/driver/mysql', name: 'gorm-mysql', role: 'driver', database: 'mysql' },
+  { key: 'github.com/mattn/go-sqlite3', name: 'go-sqlite3', role: 'driver', database: 'sqlite' },
+  { key: 'gorm.io/driver/sqlite', name: 'gorm-sqlite', role: 'driver', database: 'sqlite' },
+  { key: 'go.mongodb.org/mongo-driver', name: 'mongo-driver', role: 'driver', database: 'mongo' },
+  { key: 'github.com/redis/go-redis', name: 'go-redis', role: 'driver', database: 'redis' },
+  { key: 'github.com/99designs/gqlgen', name: 'gqlgen', role: 'graphql' },
+  { key: 'github.com/graph-gophers/graphql-go', name: 'graphql-go', role: 'graphql' }
+];
+
+// Rust data layers, keyed by crate name
+export const RUST_DATA_LAYERS: DataLayerConfig[] = [
+  { key: 'diesel', name: 'diesel', role: 'orm' },
+  { key: 'sea-orm', name: 'sea-orm', role: 'orm' },
+  { key: 'sqlx', name: 'sqlx', role: 'driver' },
+  { key: 'tokio-postgres', name: 'tokio-postgres', role: 'driver', database: 'postgres' },
+  { key: 'mysql_async', name: 'mysql_async', role: 'driver', database: 'mysql' },
+  { key: 'rusqlite', name: 'rusqlite', role: 'driver', database: 'sqlite' },
+  { key: 'mongodb', name: 'mongodb', role: 'driver', database: 'mongo' },
+  { key: 'redis', name: 'redis', role: 'driver', database: 'redis' },
+  { key: 'async-graphql', name: 'async-graphql', role: 'graphql' },
+  { key: 'juniper', name: 'juniper', role: 'graphql' }
+];
+
+// Ruby data layers, keyed by gem name
+export const RUBY_DATA_LAYERS: DataLayerConfig[] = [
+  // Rails ships Active Record
+  { key: 'rails', name: 'activerecord', role: 'orm' },
+  { key: 'activerecord', name: 'activerecord', role: 'orm' },
+  { key: 'sequel', name: 'sequel', role: 'orm' },
+  { key: 'mongoid', name: 'mongoid', role: 'orm', database: 'mongo' },
+  { key: 'pg', name: 'pg', role: 'driver', database: 'postgres' },
+  { key: 'mysql2', name: 'mysql2', role: 'driver', database: 'mysql' },
+  { key: 'sqlite3', name: 'sqlite3', role: 'driver', database: 'sqlite' },
+  { key: 'mongo', name: 'mongo', role: 'driver', database: 'mongo' },
+  { key: 'redis', name: 'redis', role: 'driver', database: 'redis' },
+  { key: 'graphql', name: 'graphql-ruby', role: 'graphql' }
+];
 
 // Validation helper for framework configuration
 export function validateFrameworkConfig(config: FrameworkConfig): boolean {
@@ -75,15 +281,31 @@ export const DETECTOR_CONFIGS: Record<string, DetectorConfig> = {
     dataLayers: DATA_LAYERS
   },
   python: {
-    frameworks: PYTHON_FRAMEWORKS
+    frameworks: PYTHON_FRAMEWORKS,
+    dataLayers: PYTHON_DATA_LAYERS
   },
   csharp: {
-    frameworks: CSHARP_FRAMEWORKS
+    frameworks: CSHARP_FRAMEWORKS,
+    dataLayers: CSHARP_DATA_LAYERS
   },
   java: {
-    frameworks: JAVA_FRAMEWORKS
+    frameworks: JAVA_FRAMEWORKS,
+    dataLayers: JAVA_DATA_LAYERS
   },
   php: {
-    frameworks: PHP_FRAMEWORKS
+    frameworks: PHP_FRAMEWORKS,
+    dataLayers: PHP_DATA_LAYERS
+  },
+  go: {
+    frameworks: GO_FRAMEWORKS,
+    dataLayers: GO_DATA_LAYERS
+  },
+  rust: {
+    frameworks: RUST_FRAMEWORKS,
+    dataLayers: RUST_DATA_LAYERS
+  },
+  ruby: {
+    frameworks: RUBY_FRAMEWORKS,
+    dataLayers: RUBY_DATA_LAYERS
   }
 };
@@ -0,0 +1,56 @@
+import { describe, test, expect } from 'vitest';
+import { denoDependencies, findDenoLockVersion, parseDenoConfig, parseDenoSpecifier, parseJsonc } from './deno';
+
+describe('parseJsonc', () => {
+  test('strips comments and trailing commas outside strings', () => {
+    const content = `{
+  // line comment
+  "imports": {
+    "hono": "jsr:@hono/hono@^4", /* block */
+    "url": "https://deno.land/x/oak@v12.6.1/mod.ts", // not a comment: "//"
+  },
+  "text": "a,}",
+}`;
+    expect(parseJsonc(content)).toEqual({
+      imports: { hono: 'jsr:@hono/hono@^4', url: 'https://deno.land/x/oak@v12.6.1/mod.ts' },
+      text: 'a,}',
+    });
+    expect(parseJsonc('{ "a": ')).toBeNull();
+  });
+});
+
+describe('parseDenoSpecifier', () => {
+  test('reads npm, jsr and URL specifiers', () => {
+    expect(parseDenoSpecifier('npm:express@^4.18')).toEqual({ name: 'express', version: '^4.18' });
+    expect(parseDenoSpecifier('npm:@remix-run/react@2.8.1/server')).toEqual({ name: '@remix-run/react', version: '2.8.1' });
+    expect(parseDenoSpecifier('jsr:@hono/hono@^4.4')).toEqual({ name: '@hono/hono', version: '^4.4' });
+    expect(parseDenoSpecifier('jsr:/@std/path')).toEqual({ name: '@std/path', version: '' });
+    expect(parseDenoSpecifier('https://deno.land/x/hono@v3.11.7/mod.ts')).toEqual({ name: 'hono', version: 'v3.11.7' });
+    expect(parseDenoSpecifier('https://esm.sh/koa@2.15.0')).toEqual({ name: 'koa', version: '2.15.0' });
+    expect(parseDenoSpecifier('./src/')).toBeNull();
+  });
+});
+
+test('denoDependencies keys an import map by package name', () => {
+  expect(denoDependencies({ hono: 'jsr:@hono/hono@^4', 'hono/': 'jsr:@hono/hono@^4/', '@/': './src/' })).toEqual({
+    '@hono/hono': '^4',
+  });
+});
+
+test('parseDenoConfig reads imports and importMap', () => {
+  expect(parseDenoConfig('{ "importMap": "./import_map.json", "tasks": {} }')).toEqual({ importMap: './import_map.json' });
+  expect(parseDenoConfig('[]')).toBeNull();
+  expect(parseDenoConfig('not json')).toBeNull();
+});
+
+describe('findDenoLockVersion', () => {
+  test('reads lockfile versions 3 and 4', () => {
+    const v3 = JSON.stringify({ version: '3', packages: { npm: { 'express@4.18.2': {} }, jsr: { '@hono/hono@4.4.0': {} } } });
+    const v4 = JSON.stringify({ version: '4', jsr: { '@hono/hono@4.3.0': {}, '@hono/hono@4.5.1': {} }, npm: { 'koa@2.15.0_debug@4.3.4': {} } });
+    expect(findDenoLockVersion(v3, 'express')).toBe('4.18.2');
+    expect(findDenoLockVersion(v3, '@hono/hono')).toBe('4.4.0');
+    expect(findDenoLockVersion(v4, '@hono/hono')).toBe('4.5.1');
+    expect(findDenoLockVersion(v4, 'koa')).toBe('2.15.0');
+    expect(findDenoLockVersion(v4, 'express')).toBeNull();
+  });
+});
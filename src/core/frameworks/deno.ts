@@ -0,0 +1,109 @@
+import semver from 'semver';
+import { z } from 'zod';
+
+/**
+ * Parsers for Deno projects, which declare dependencies as import map specifiers
+ * (`npm:express@^4.18`, `jsr:@hono/hono@^4`, `https://deno.land/x/oak@v12.6.1/mod.ts`)
+ * in deno.json(c) or a separate import map, instead of in a package.json.
+ */
+
+export const DENO_CONFIG_FILES = ['deno.json', 'deno.jsonc'];
+
+/**
+ * Parse JSON that may contain comments and trailing commas, as deno.jsonc does
+ *
+ * @returns null when the content is not valid even then
+ */
+export const parseJsonc = (content: string): unknown => {
+  let json = '';
+  let inString = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inString) {
+      json += char;
+      if (char === '\\') json += content[++i] ?? '';
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+      json += char;
+    } else if (char === '/' && content[i + 1] === '/') {
+      while (i < content.length && content[i] !== '\n') i++;
+      json += '\n';
+    } else if (char === '/' && content[i + 1] === '*') {
+      const end = content.indexOf('*/', i + 2);
+      i = end === -1 ? content.length : end + 1;
+    } else if (char === ',' && /^\s*(?:\/\/[^\n]*\s*|\/\*[\s\S]*?\*\/\s*)*[}\]]/.test(content.slice(i + 1))) {
+      // drop a trailing comma, which JSON does not allow
+    } else {
+      json += char;
+    }
+  }
+  try {
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+};
+
+const DenoConfigSchema = z.object({
+  imports: z.record(z.string(), z.string()).optional().catch(undefined),
+  importMap: z.string().optional().catch(undefined),
+});
+
+export type DenoConfig = z.infer<typeof DenoConfigSchema>;
+
+/**
+ * Read the import map of a deno.json(c) or import_map.json, and the path of a separate import map
+ *
+ * @returns null when the content is not a JSON(C) object
+ */
+export const parseDenoConfig = (content: string): DenoConfig | null => {
+  const json = parseJsonc(content);
+  if (json === null || typeof json !== 'object' || Array.isArray(json)) return null;
+  return DenoConfigSchema.parse(json);
+};
+
+/**
+ * Package name and version requirement behind an import specifier
+ * npm: and jsr: specifiers give the registry name; deno.land/x and esm.sh URLs give the module name
+ */
+export const parseDenoSpecifier = (specifier: string): { name: string; version: string } | null => {
+  const registry = specifier.match(/^(?:npm|jsr):\/?((?:@[^/@]+\/)?[^/@]+)(?:@([^/]+))?/);
+  if (registry) return { name: registry[1], version: registry[2] ?? '' };
+  const url = specifier.match(/^https:\/\/(?:deno\.land\/x|esm\.sh)\/((?:@[^/@]+\/)?[^/@]+)(?:@([^/]+))?/);
+  if (url) return { name: url[1], version: url[2] ?? '' };
+  return null;
+};
+
+/**
+ * Dependencies of an import map, as package name → version requirement
+ */
+export const denoDependencies = (imports: Record<string, string> = {}): Record<string, string> => {
+  const dependencies = new Map<string, string>();
+  for (const specifier of Object.values(imports)) {
+    const parsed = parseDenoSpecifier(specifier);
+    if (parsed && !dependencies.has(parsed.name)) dependencies.set(parsed.name, parsed.version);
+  }
+  return Object.fromEntries(dependencies);
+};
+
+const LockPackagesSchema = z.record(z.string(), z.unknown()).optional().catch(undefined);
+const DenoLockSchema = z.object({
+  // lockfile version 3 nests the registries under packages
+  packages: z.object({ npm: LockPackagesSchema, jsr: LockPackagesSchema }).optional().catch(undefined),
+  npm: LockPackagesSchema,
+  jsr: LockPackagesSchema,
+});
+
+/**
+ * deno.lock, versions 3 and 4: the highest locked version of an npm or jsr package
+ */
+export const findDenoLockVersion = (content: string, name: string): string | null => {
+  const lock = DenoLockSchema.safeParse(parseJsonc(content)).data;
+  const keys = [lock?.packages?.npm, lock?.packages?.jsr, lock?.npm, lock?.jsr].flatMap(section => Object.keys(section ?? {}));
+  const versions = keys
+    .filter(key => key.startsWith(`${name}@`))
+    .map(key => key.slice(name.length + 1).match(/^\d+\.\d+\.\d+[^_]*/)?.[0])
+    .filter((version): version is string => !!version && semver.valid(version) !== null);
+  return versions.length > 0 ? semver.rsort(versions)[0] : null;
+};
@@ -35,7 +35,7 @@ describe('FrameworkDetector', () => {
       const result = await detector.detect();
       expect(result.framework).toBe('nestjs');
       expect(result.language).toBe('ts');
-      expect(result.data).toBe('postgres');
+      expect(result.data).toEqual([{ name: 'pg', role: 'driver', database: 'postgres' }]);
       // Because cli is present, confidence should be high
       expect((result.confidence ?? 0) >= 0.9).toBeTruthy();
     });
@@ -67,7 +67,7 @@ describe('FrameworkDetector', () => {
 
       // Now test pyproject.toml has higher confidence
       await fs.rm(path.join(dir, 'requirements.txt'));
-      await fs.writeFile(path.join(dir, 'pyproject.toml'), '[tool.poetry]\nname = "test"\ndependencies = ["django"]');
+      await fs.writeFile(path.join(dir, 'pyproject.toml'), '[tool.poetry]\nname = "test"\n\n[tool.poetry.dependencies]\npython = "^3.11"\ndjango = "^5.0"');
       const detector2 = new FrameworkDetector(dir);
       const res2 = await detector2.detect();
       expect(res2.framework).toBe('django');
@@ -100,7 +100,7 @@ describe('FrameworkDetector', () => {
 
   test('detects Pipfile python framework', async () => {
     await withTempDir(async dir => {
-      await fs.writeFile(path.join(dir, 'Pipfile'), 'fastapi');
+      await fs.writeFile(path.join(dir, 'Pipfile'), '[packages]\nfastapi = "*"\n');
       const detector = new FrameworkDetector(dir);
       const result = await detector.detect();
       expect(result.framework).toBe('fastapi');
@@ -452,8 +452,9 @@ describe('FrameworkDetector', () => {
 
   test('C# detection for .sln sets lower confidence', async () => {
     await withTempDir(async dir => {
-      const slnContent = "Microsoft.AspNetCore";
+      const slnContent = 'Project("{FAE04EC0-301F-11D3-BF4B-00C04F79EFBC}") = "Api", "src\\Api\\Api.csproj", "{5E1D2B7A-0000-0000-0000-000000000001}"\nEndProject\n';
       await fs.writeFile(path.join(dir, 'project.sln'), slnContent);
+      await fs.outputFile(path.join(dir, 'src', 'Api', 'Api.csproj'), '<Project Sdk="Microsoft.NET.Sdk.Web"></Project>');
       const detector = new FrameworkDetector(dir);
       const res = await detector.detect();
       expect(res.framework).toBe('aspnet');
@@ -582,6 +583,672 @@ describe('FrameworkDetector', () => {
       expect(typeof result.confidence).toBe('number');
     });
   });
-});
 
+  test('explain records the file, matched dependency, boost and data layer', async () => {
+    await withTempDir(async dir => {
+      const pkg = { dependencies: { '@nestjs/core': '^10.0.0', pg: '^8.0.0' }, devDependencies: { '@nestjs/cli': '^10.0.0' } };
+      await fs.writeJson(path.join(dir, 'package.json'), pkg);
+      const { stack, detectors } = await new FrameworkDetector(dir).explain();
+      expect(stack.framework).toBe('nestjs');
+
+      const node = detectors.find(d => d.detector === 'node');
+      expect(node?.result?.evidence).toBe(node?.evidence);
+      expect(node?.evidence.map(e => e.kind)).toEqual(['file', 'dependency', 'version', 'boost', 'data']);
+      expect(node?.evidence[1]).toEqual({ kind: 'dependency', message: '"@nestjs/core" → nestjs', file: 'package.json' });
+      expect(node?.evidence[3].message).toContain('@nestjs/cli');
+    });
+  });
+
+  test('explain reports why the other detectors returned null', async () => {
+    await withTempDir(async dir => {
+      await fs.writeFile(path.join(dir, 'requirements.txt'), 'requests==2.31');
+      await fs.writeJson(path.join(dir, 'composer.json'), { require: { 'symfony/console': '^6.0' } });
+      const { stack, detectors } = await new FrameworkDetector(dir).explain();
+      expect(stack.framework).toBe('unknown');
+      expect(detectors.map(d => d.detector)).toEqual(['node', 'python', 'csharp', 'java', 'php', 'go', 'rust', 'ruby']);
+      expect(detectors.every(d => d.result === null)).toBe(true);
+
+      const byName = Object.fromEntries(detectors.map(d => [d.detector, d.evidence]));
+      expect(byName.node).toEqual([{ kind: 'miss', message: 'no package.json, deno.json or deno.jsonc' }]);
+      expect(byName.python.map(e => e.kind)).toEqual(['file', 'miss']);
+      expect(byName.python[1].message).toContain('django');
+      expect(byName.php[1]).toMatchObject({ kind: 'miss', file: 'composer.json' });
+    });
+  });
+
+  test('explain notes a missing confidenceBoost and keeps detector errors', async () => {
+    await withTempDir(async dir => {
+      await fs.writeFile(path.join(dir, 'pom.xml'), '<artifactId>spring-boot-starter</artifactId>');
+      const detector = new FrameworkDetector(dir);
+      detector.registerDetector({
+        name: 'broken',
+        detect: async () => {
+          throw new Error('boom');
+        },
+      });
+      const { stack, detectors } = await detector.explain();
+      expect(stack).toMatchObject({ framework: 'spring', confidence: 0.9 });
+
+      const java = detectors.find(d => d.detector === 'java');
+      expect(java?.evidence.at(-1)).toMatchObject({ kind: 'miss', file: 'pom.xml' });
+      expect(java?.evidence.at(-1)?.message).toContain('spring-boot-starter-web');
+      expect(detectors.find(d => d.detector === 'broken')).toMatchObject({ result: null, error: 'boom' });
+    });
+  });
+
+  test('detectAll ranks every matching stack in a polyglot repository', async () => {
+    await withTempDir(async dir => {
+      await fs.writeJson(path.join(dir, 'package.json'), { devDependencies: { express: '^4.0.0' } });
+      await fs.writeFile(path.join(dir, 'pyproject.toml'), '[project]\ndependencies = ["django>=4.2"]');
+      await fs.writeFile(path.join(dir, 'poetry.lock'), '');
+      for (const file of ['manage.py', 'settings.py', 'urls.py', 'views.py']) {
+        await fs.outputFile(path.join(dir, 'app', file), '');
+      }
+
+      const candidates = await new FrameworkDetector(dir).detectAll();
+      expect(candidates.map(c => c.stack.framework)).toEqual(['django', 'express']);
+      expect(candidates[0].score).toBeGreaterThan(candidates[1].score);
+      expect(candidates[0].signals.map(s => s.kind)).toEqual(['file', 'dependency', 'version', 'data', 'lockfile', 'sources']);
+
+      // detect() follows the ranking instead of detector order
+      expect((await new FrameworkDetector(dir).detect()).framework).toBe('django');
+    });
+  });
+
+  test('detectAll counts every confidenceBoost that fires', async () => {
+    await withTempDir(async dir => {
+      await fs.writeJson(path.join(dir, 'package.json'), { dependencies: { '@nestjs/core': '^10.0.0', '@nestjs/cli': '^10.0.0' } });
+      await fs.writeJson(path.join(dir, 'nest-cli.json'), {});
+      const [candidate] = await new FrameworkDetector(dir).detectAll();
+      expect(candidate.signals.filter(s => s.kind === 'boost')).toHaveLength(2);
+      expect(candidate.confidence).toBe(0.95);
+    });
+  });
+
+  test('detectAll scores detectors without evidence by their own confidence', async () => {
+    await withTempDir(async dir => {
+      const detector = new FrameworkDetector(dir, [
+        {
+          name: 'custom',
+          detect: async () => ({ stack: { language: 'ts', framework: 'express', confidence: 0.4 }, confidence: 0.4 }),
+        },
+      ]);
+      const [candidate] = await detector.detectAll();
+      expect(candidate).toMatchObject({ detector: 'custom', score: 0.4, signals: [{ kind: 'reported', weight: 0.4 }] });
+    });
+  });
+
+  test('resolves the framework version from lockfiles before manifest ranges', async () => {
+    await withTempDir(async dir => {
+      await fs.writeJson(path.join(dir, 'package.json'), { dependencies: { '@nestjs/core': '^10.0.0' } });
+      expect((await new FrameworkDetector(dir).detect()).version).toBe('10.0.0');
+
+      await fs.writeJson(path.join(dir, 'package-lock.json'), {
+        lockfileVersion: 3,
+        packages: { 'node_modules/@nestjs/core': { version: '10.3.2' } },
+      });
+      const { stack, detectors } = await new FrameworkDetector(dir).explain();
+      expect(stack.version).toBe('10.3.2');
+      expect(detectors[0].evidence).toContainEqual({ kind: 'version', message: '10.3.2 (from "10.3.2")', file: 'package-lock.json' });
+    });
+  });
+
+  test('resolves Django, Spring Boot, ASP.NET Core and Laravel versions', async () => {
+    const cases: Array<[Record<string, string>, string, string]> = [
+      [{ 'pyproject.toml': '[project]\ndependencies = ["django>=4.2"]', 'poetry.lock': '[[package]]\nname = "django"\nversion = "5.0.1"\n' }, 'django', '5.0.1'],
+      [{ 'pom.xml': '<parent><artifactId>spring-boot-starter-parent</artifactId><version>2.7.18</version></parent><artifactId>spring-boot-starter-web</artifactId>' }, 'spring', '2.7.18'],
+      [{ 'api.csproj': '<Project Sdk="Microsoft.NET.Sdk.Web"><TargetFramework>net8.0</TargetFramework><PackageReference Include="Microsoft.AspNetCore.OpenApi" Version="8.0.1" /></Project>' }, 'aspnet', '8.0.1'],
+      [{ 'composer.json': JSON.stringify({ require: { 'laravel/framework': '^11.0' } }) }, 'laravel', '11.0.0'],
+    ];
+    for (const [files, framework, version] of cases) {
+      await withTempDir(async dir => {
+        for (const [file, content] of Object.entries(files)) {
+          await fs.writeFile(path.join(dir, file), content);
+        }
+        expect(await new FrameworkDetector(dir).detect()).toMatchObject({ framework, version });
+      });
+    }
+  });
+
+  test('leaves version unset and explains why when no source lists it', async () => {
+    await withTempDir(async dir => {
+      await fs.writeFile(path.join(dir, 'requirements.txt'), 'flask');
+      const { stack, detectors } = await new FrameworkDetector(dir).explain();
+      expect(stack.version).toBeUndefined();
+      const python = detectors.find(d => d.detector === 'python');
+      expect(python?.evidence.at(-1)?.message).toMatch(/^no version found in poetry\.lock/);
+    });
+  });
+
+  test('matches Python packages by exact name, not substrings', async () => {
+    await withTempDir(async dir => {
+      await fs.writeFile(path.join(dir, 'requirements.txt'), '# we used django before\nflask-cors==4.0\nfastapi-users>=12\n');
+      const { stack, detectors } = await new FrameworkDetector(dir).explain();
+      expect(stack.framework).toBe('unknown');
+      expect(detectors.find(d => d.detector === 'python')?.evidence.at(-1)?.message).toMatch(/^no known framework in 2 dependencies/);
+    });
+  });
+
+  test('follows requirements.txt includes inside the project', async () => {
+    await withTempDir(async dir => {
+      await fs.ensureDir(path.join(dir, 'requirements'));
+      await fs.writeFile(path.join(dir, 'requirements.txt'), '-r requirements/base.txt\n-r ../outside.txt\n');
+      await fs.writeFile(path.join(dir, 'requirements', 'base.txt'), '-r ../requirements.txt\nDjango>=4.2,<5\n');
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const { stack, detectors } = await new FrameworkDetector(dir).explain();
+      expect(stack).toMatchObject({ framework: 'django', version: '4.2.0' });
+      const python = detectors.find(d => d.detector === 'python')?.evidence ?? [];
+      expect(python.slice(0, 3)).toEqual([
+        { kind: 'file', message: 'read requirements.txt', file: 'requirements.txt' },
+        { kind: 'file', message: 'read requirements/base.txt (included from requirements.txt)', file: 'requirements/base.txt' },
+        { kind: 'miss', message: '../outside.txt (included from requirements.txt) could not be read', file: '../outside.txt' },
+      ]);
+      warn.mockRestore();
+    });
+  });
+
+  test('detects Go frameworks and data layers from go.mod', async () => {
+    const goMod = (requires: string) => `module example.com/svc\n\ngo 1.22\n\nrequire (\n${requires}\n)\n`;
+    const cases: Array<[string, Partial<DetectedStack>]> = [
+      ['\tgithub.com/gin-gonic/gin v1.9.1\n\tgorm.io/gorm v1.25.5\n\tgorm.io/driver/postgres v1.5.4', {
+        framework: 'gin',
+        version: '1.9.1',
+        data: [
+          { name: 'gorm', role: 'orm', database: 'postgres' },
+          { name: 'gorm-postgres', role: 'driver', database: 'postgres' },
+        ],
+      }],
+      ['\tgithub.com/labstack/echo/v4 v4.11.4\n\tgo.mongodb.org/mongo-driver v1.13.1', { framework: 'echo', version: '4.11.4', data: [{ name: 'mongo-driver', role: 'driver', database: 'mongo' }] }],
+      ['\tgithub.com/gofiber/fiber/v2 v2.52.0\n\tgithub.com/jackc/pgx/v5 v5.5.2', { framework: 'fiber', version: '2.52.0', data: [{ name: 'pgx', role: 'driver', database: 'postgres' }] }],
+      ['\tgithub.com/go-chi/chi/v5 v5.0.11', { framework: 'chi', version: '5.0.11' }],
+    ];
+    for (const [requires, expected] of cases) {
+      await withTempDir(async dir => {
+        await fs.writeFile(path.join(dir, 'go.mod'), goMod(requires));
+        expect(await new FrameworkDetector(dir).detect()).toMatchObject({ language: 'go', confidence: 0.9, ...expected });
+      });
+    }
+  });
+
+  test('ignores indirect Go requirements and applies replace directives', async () => {
+    await withTempDir(async dir => {
+      await fs.writeFile(path.join(dir, 'go.mod'), 'module example.com/svc\n\nrequire github.com/gin-gonic/gin v1.9.1 // indirect\n');
+      const { stack, detectors } = await new FrameworkDetector(dir).explain();
+      expect(stack.framework).toBe('unknown');
+      expect(detectors.find(d => d.detector === 'go')?.evidence.at(-1)?.message).toMatch(/^no known framework in 0 direct requirements/);
 
+      await fs.writeFile(
+        path.join(dir, 'go.mod'),
+        'module example.com/svc\n\nrequire github.com/gin-gonic/gin v1.9.1\n\nreplace github.com/gin-gonic/gin => github.com/acme/gin v1.9.2-acme.1\n'
+      );
+      const replaced = await new FrameworkDetector(dir).explain();
+      expect(replaced.stack).toMatchObject({ framework: 'gin', version: '1.9.2-acme.1' });
+      expect(replaced.detectors.find(d => d.detector === 'go')?.evidence[1]).toEqual({
+        kind: 'dependency',
+        message: '"github.com/gin-gonic/gin" (replaced by github.com/acme/gin) → gin',
+        file: 'go.mod',
+      });
+    });
+  });
+
+  test('detects Rust frameworks from Cargo.toml, resolving versions from Cargo.lock', async () => {
+    await withTempDir(async dir => {
+      await fs.writeFile(path.join(dir, 'Cargo.toml'), '[package]\nname = "api"\n\n[dependencies]\nweb = { package = "actix-web", version = "4" }\ndiesel = "2.1"\n');
+      expect(await new FrameworkDetector(dir).detect()).toMatchObject({ language: 'rust', framework: 'actix', version: '4.0.0', data: [{ name: 'diesel', role: 'orm' }] });
+
+      await fs.writeFile(path.join(dir, 'Cargo.lock'), '[[package]]\nname = "actix-web"\nversion = "4.5.1"\n');
+      expect((await new FrameworkDetector(dir).detect()).version).toBe('4.5.1');
+    });
+  });
+
+  test('detects a Rust workspace from its members', async () => {
+    await withTempDir(async dir => {
+      await fs.writeFile(
+        path.join(dir, 'Cargo.toml'),
+        '[workspace]\nmembers = ["crates/*"]\n\n[workspace.dependencies]\naxum = "0.7.4"\nmongodb = "2.8"\n'
+      );
+      await fs.ensureDir(path.join(dir, 'crates', 'server'));
+      await fs.ensureDir(path.join(dir, 'crates', 'core'));
+      await fs.writeFile(path.join(dir, 'crates', 'core', 'Cargo.toml'), '[package]\nname = "core"\n\n[dependencies]\nmongodb.workspace = true\n');
+      await fs.writeFile(path.join(dir, 'crates', 'server', 'Cargo.toml'), '[package]\nname = "server"\n\n[dependencies]\naxum = { workspace = true }\n');
+
+      const { stack, detectors } = await new FrameworkDetector(dir).explain();
+      expect(stack).toMatchObject({ language: 'rust', framework: 'axum', version: '0.7.4', data: [{ name: 'mongodb', role: 'driver', database: 'mongo' }] });
+      expect(detectors.find(d => d.detector === 'rust')?.evidence.slice(0, 4)).toEqual([
+        { kind: 'file', message: 'read Cargo.toml', file: 'Cargo.toml' },
+        { kind: 'file', message: 'read crates/core/Cargo.toml (workspace member)', file: 'crates/core/Cargo.toml' },
+        { kind: 'file', message: 'read crates/server/Cargo.toml (workspace member)', file: 'crates/server/Cargo.toml' },
+        { kind: 'dependency', message: '"axum" → axum', file: 'crates/server/Cargo.toml' },
+      ]);
+
+      const packages = await new FrameworkDetector(dir).detectPackages();
+      expect(packages.map(pkg => [pkg.path, pkg.stack.framework])).toEqual([
+        ['crates/core', 'unknown'],
+        ['crates/server', 'axum'],
+      ]);
+    });
+  });
+
+  test('detects Ruby frameworks from the Gemfile, or Gemfile.lock alone', async () => {
+    await withTempDir(async dir => {
+      await fs.writeFile(path.join(dir, 'Gemfile'), 'source "https://rubygems.org"\ngem "rails", "~> 7.1.2"\ngem "pg"\ngem "sinatra-contrib"\n');
+      expect(await new FrameworkDetector(dir).detect()).toMatchObject({
+        language: 'ruby',
+        framework: 'rails',
+        version: '7.1.2',
+        data: [
+          { name: 'activerecord', role: 'orm', database: 'postgres' },
+          { name: 'pg', role: 'driver', database: 'postgres' },
+        ],
+        confidence: 0.85,
+      });
+
+      await fs.ensureDir(path.join(dir, 'config'));
+      await fs.writeFile(path.join(dir, 'config', 'application.rb'), '');
+      expect((await new FrameworkDetector(dir).detect()).confidence).toBe(0.95);
+    });
+
+    await withTempDir(async dir => {
+      await fs.writeFile(
+        path.join(dir, 'Gemfile.lock'),
+        'GEM\n  remote: https://rubygems.org/\n  specs:\n    mongoid (8.1.4)\n    sinatra (3.1.0)\n\nDEPENDENCIES\n  mongoid\n  sinatra (~> 3.1)\n'
+      );
+      expect(await new FrameworkDetector(dir).detect()).toMatchObject({ framework: 'sinatra', version: '3.1.0', data: [{ name: 'mongoid', role: 'orm', database: 'mongo' }] });
+    });
+  });
+
+  test('detects the newer JavaScript frameworks, preferring meta-frameworks over their server', async () => {
+    const cases: Array<[Record<string, string>, string]> = [
+      [{ fastify: '^4.26.0' }, 'fastify'],
+      [{ koa: '^2.15.0' }, 'koa'],
+      [{ hono: '^4.0.0' }, 'hono'],
+      [{ '@remix-run/react': '^2.8.0', '@remix-run/express': '^2.8.0', express: '^4.18.0' }, 'remix'],
+      [{ '@sveltejs/kit': '^2.5.0', svelte: '^4.2.0' }, 'sveltekit'],
+      [{ nuxt: '^3.10.0', vue: '^3.4.0' }, 'nuxt'],
+      [{ astro: '^4.4.0' }, 'astro'],
+    ];
+    for (const [dependencies, framework] of cases) {
+      await withTempDir(async dir => {
+        await fs.writeJson(path.join(dir, 'package.json'), { dependencies });
+        expect(await new FrameworkDetector(dir).detect()).toMatchObject({ language: 'ts', framework, runtime: 'node' });
+      });
+    }
+  });
+
+  test('detects Bun from its lockfile, config or package.json', async () => {
+    const setups: Array<(dir: string) => Promise<void>> = [
+      dir => fs.writeFile(path.join(dir, 'bun.lockb'), ''),
+      dir => fs.writeFile(path.join(dir, 'bunfig.toml'), '[install]\n'),
+      dir => fs.writeJson(path.join(dir, 'package.json'), { dependencies: { hono: '^4.0.0' }, packageManager: 'bun@1.1.0' }),
+      dir => fs.writeJson(path.join(dir, 'package.json'), { dependencies: { hono: '^4.0.0' }, devDependencies: { '@types/bun': '^1.0.0' } }),
+    ];
+    for (const setup of setups) {
+      await withTempDir(async dir => {
+        await fs.writeJson(path.join(dir, 'package.json'), { dependencies: { hono: '^4.0.0' } });
+        await setup(dir);
+        const { stack, detectors } = await new FrameworkDetector(dir).explain();
+        expect(stack).toMatchObject({ framework: 'hono', runtime: 'bun' });
+        expect(detectors[0].evidence.at(-1)?.kind).toBe('runtime');
+      });
+    }
+  });
+
+  test('detects Deno projects from the import map, without a package.json', async () => {
+    await withTempDir(async dir => {
+      await fs.writeFile(
+        path.join(dir, 'deno.jsonc'),
+        '{\n  // hono from JSR\n  "imports": { "hono": "jsr:@hono/hono@^4.4.0", "pg": "npm:pg@^8.11" },\n  "tasks": { "dev": "deno run -A main.ts" },\n}'
+      );
+      const { stack, detectors } = await new FrameworkDetector(dir).explain();
+      expect(stack).toMatchObject({ language: 'ts', framework: 'hono', version: '4.4.0', data: [{ name: 'pg', database: 'postgres' }], runtime: 'deno' });
+      expect(detectors[0].evidence.map(e => e.kind)).toEqual(['file', 'dependency', 'version', 'data', 'runtime']);
+      expect(detectors[0].evidence[1]).toEqual({ kind: 'dependency', message: '"@hono/hono" → hono', file: 'deno.jsonc' });
+
+      await fs.writeJson(path.join(dir, 'deno.lock'), { version: '4', jsr: { '@hono/hono@4.5.1': {} } });
+      expect((await new FrameworkDetector(dir).detect()).version).toBe('4.5.1');
+    });
+  });
+
+  test('reads a separate Deno import map', async () => {
+    await withTempDir(async dir => {
+      await fs.writeJson(path.join(dir, 'deno.json'), { importMap: './import_map.json' });
+      await fs.writeJson(path.join(dir, 'import_map.json'), { imports: { koa: 'npm:koa@2.15.0' } });
+      expect(await new FrameworkDetector(dir).detect()).toMatchObject({ framework: 'koa', version: '2.15.0', runtime: 'deno' });
+    });
+  });
+
+  test('reports every JavaScript data layer, ORMs before drivers', async () => {
+    await withTempDir(async dir => {
+      const dependencies = { express: '^4.18.0', ioredis: '^5.3.0', 'drizzle-orm': '^0.30.0', 'better-sqlite3': '^9.4.0', graphql: '^16.8.0' };
+      await fs.writeJson(path.join(dir, 'package.json'), { dependencies });
+      const { stack, detectors } = await new FrameworkDetector(dir).explain();
+      expect(stack.data).toEqual([
+        { name: 'drizzle', role: 'orm' },
+        { name: 'better-sqlite3', role: 'driver', database: 'sqlite' },
+        { name: 'ioredis', role: 'driver', database: 'redis' },
+        { name: 'graphql', role: 'graphql' },
+      ]);
+      expect(detectors[0].evidence.filter(e => e.kind === 'data').map(e => e.message)).toContain(
+        '"better-sqlite3" → better-sqlite3 (driver, sqlite)'
+      );
+    });
+
+    await withTempDir(async dir => {
+      await fs.writeJson(path.join(dir, 'package.json'), { dependencies: { next: '^14.0.0', mongoose: '^8.0.0', mongodb: '^6.3.0' } });
+      expect((await new FrameworkDetector(dir).detect()).data).toEqual([
+        { name: 'mongoose', role: 'orm', database: 'mongo' },
+        { name: 'mongodb', role: 'driver', database: 'mongo' },
+      ]);
+    });
+  });
+
+  test('reads the Prisma database from the schema datasource', async () => {
+    await withTempDir(async dir => {
+      await fs.writeJson(path.join(dir, 'package.json'), { dependencies: { '@nestjs/core': '^10.0.0', '@prisma/client': '^5.10.0' }, devDependencies: { prisma: '^5.10.0' } });
+      await fs.outputFile(
+        path.join(dir, 'prisma', 'schema.prisma'),
+        'generator client {\n  provider = "prisma-client-js"\n}\n\ndatasource db {\n  provider = "mysql"\n  url      = env("DATABASE_URL")\n}\n'
+      );
+      const { stack, detectors } = await new FrameworkDetector(dir).explain();
+      expect(stack.data).toEqual([{ name: 'prisma', role: 'orm', database: 'mysql' }]);
+      expect(detectors[0].evidence).toContainEqual({ kind: 'data', message: 'datasource provider "mysql" → mysql', file: 'prisma/schema.prisma' });
+    });
+  });
+
+  test('detects Python data layers, including the Django ORM', async () => {
+    const cases: Array<[string, string, DetectedStack['data']]> = [
+      ['requirements.txt', 'fastapi==0.110\nSQLAlchemy[asyncio]>=2.0\nasyncpg\n', [
+        { name: 'sqlalchemy', role: 'orm', database: 'postgres' },
+        { name: 'asyncpg', role: 'driver', database: 'postgres' },
+      ]],
+      ['requirements.txt', 'Django>=5.0\npsycopg2-binary\nredis\n', [
+        { name: 'django-orm', role: 'orm' },
+        { name: 'psycopg2', role: 'driver', database: 'postgres' },
+        { name: 'redis', role: 'driver', database: 'redis' },
+      ]],
+      ['pyproject.toml', '[project]\ndependencies = ["fastapi", "motor>=3.3"]\n', [{ name: 'motor', role: 'driver', database: 'mongo' }]],
+    ];
+    for (const [file, content, data] of cases) {
+      await withTempDir(async dir => {
+        await fs.writeFile(path.join(dir, file), content);
+        expect((await new FrameworkDetector(dir).detect()).data).toEqual(data);
+      });
+    }
+  });
+
+  test('detects Java data layers from exact artifactIds', async () => {
+    await withTempDir(async dir => {
+      await fs.writeFile(
+        path.join(dir, 'pom.xml'),
+        `<project>
+  <dependencies>
+    <dependency><groupId>org.springframework.boot</groupId><artifactId>spring-boot-starter-web</artifactId></dependency>
+    <dependency><groupId>org.springframework.boot</groupId><artifactId>spring-boot-starter-data-jpa</artifactId></dependency>
+    <dependency><groupId>org.postgresql</groupId><artifactId>postgresql</artifactId></dependency>
+  </dependencies>
+</project>`
+      );
+      expect((await new FrameworkDetector(dir).detect()).data).toEqual([
+        { name: 'jpa', role: 'orm', database: 'postgres' },
+        { name: 'postgresql', role: 'driver', database: 'postgres' },
+      ]);
+    });
+
+    await withTempDir(async dir => {
+      await fs.writeFile(
+        path.join(dir, 'build.gradle'),
+        "dependencies {\n  implementation 'org.springframework.boot:spring-boot-starter-web'\n  implementation 'org.hibernate.orm:hibernate-core:6.4.4.Final'\n  runtimeOnly 'com.mysql:mysql-connector-j'\n}\n"
+      );
+      expect((await new FrameworkDetector(dir).detect()).data).toEqual([
+        { name: 'hibernate', role: 'orm', database: 'mysql' },
+        { name: 'mysql-connector', role: 'driver', database: 'mysql' },
+      ]);
+    });
+  });
+
+  test('detects Quarkus, Micronaut and Ktor, telling Kotlin apart from Java', async () => {
+    const cases: Array<[Record<string, string>, Partial<DetectedStack>]> = [
+      [
+        {
+          'pom.xml': `<project>
+  <properties><quarkus.platform.version>3.8.1</quarkus.platform.version></properties>
+  <dependencies><dependency><groupId>io.quarkus</groupId><artifactId>quarkus-rest</artifactId></dependency></dependencies>
+</project>`,
+        },
+        { language: 'java', framework: 'quarkus', version: '3.8.1', confidence: 0.95 },
+      ],
+      [
+        {
+          'build.gradle': "plugins { id 'io.micronaut.application' }\ndependencies { implementation 'io.micronaut:micronaut-http-client' }\n",
+          'gradle.properties': 'micronautVersion=4.3.4\n',
+        },
+        { language: 'java', framework: 'micronaut', version: '4.3.4', confidence: 0.85 },
+      ],
+      [
+        {
+          'build.gradle.kts': 'plugins {\n  kotlin("jvm") version "1.9.22"\n  id("io.ktor.plugin") version "2.3.8"\n}\ndependencies {\n  implementation("io.ktor:ktor-server-netty-jvm")\n}\n',
+        },
+        { language: 'kotlin', framework: 'ktor', version: '2.3.8', confidence: 0.95 },
+      ],
+    ];
+    for (const [files, expected] of cases) {
+      await withTempDir(async dir => {
+        for (const [file, content] of Object.entries(files)) await fs.writeFile(path.join(dir, file), content);
+        expect(await new FrameworkDetector(dir).detect()).toMatchObject(expected);
+      });
+    }
+
+    await withTempDir(async dir => {
+      await fs.writeFile(path.join(dir, 'build.gradle.kts'), 'dependencies {\n  implementation("org.springframework.boot:spring-boot-starter-web:3.2.3")\n}\n');
+      await fs.ensureDir(path.join(dir, 'src', 'main', 'kotlin'));
+      const { stack, detectors } = await new FrameworkDetector(dir).explain();
+      expect(stack).toMatchObject({ language: 'kotlin', framework: 'spring', version: '3.2.3' });
+      expect(detectors.find(d => d.detector === 'java')?.evidence.at(-1)).toEqual({ kind: 'language', message: 'src/main/kotlin → kotlin' });
+    });
+  });
+
+  test('reads the modules of a multi-module Maven build and the parent of a module', async () => {
+    await withTempDir(async dir => {
+      await fs.writeFile(
+        path.join(dir, 'pom.xml'),
+        `<project>
+  <parent><artifactId>spring-boot-starter-parent</artifactId><version>3.2.3</version><relativePath/></parent>
+  <artifactId>shop</artifactId>
+  <modules><module>api</module><module>core</module></modules>
+</project>`
+      );
+      await fs.outputFile(
+        path.join(dir, 'api', 'pom.xml'),
+        '<project><parent><artifactId>shop</artifactId></parent><dependencies><dependency><artifactId>spring-boot-starter-web</artifactId></dependency></dependencies></project>'
+      );
+      await fs.outputFile(
+        path.join(dir, 'core', 'pom.xml'),
+        '<project><parent><artifactId>shop</artifactId></parent><dependencies><dependency><artifactId>postgresql</artifactId></dependency></dependencies></project>'
+      );
+
+      const { stack, detectors } = await new FrameworkDetector(dir).explain();
+      expect(stack).toMatchObject({ language: 'java', framework: 'spring', version: '3.2.3', confidence: 0.95 });
+      expect(stack.data).toEqual([{ name: 'postgresql', role: 'driver', database: 'postgres' }]);
+      expect(detectors.find(d => d.detector === 'java')?.evidence.slice(0, 4)).toEqual([
+        { kind: 'file', message: 'read pom.xml', file: 'pom.xml' },
+        { kind: 'file', message: 'read api/pom.xml (module)', file: 'api/pom.xml' },
+        { kind: 'file', message: 'read core/pom.xml (module)', file: 'core/pom.xml' },
+        { kind: 'dependency', message: '"spring-boot-starter" → spring', file: 'pom.xml' },
+      ]);
+
+      // Outside a repository, nothing above the module is read
+      const outside = await new FrameworkDetector(path.join(dir, 'api')).explain();
+      expect(outside.stack.version).toBeUndefined();
+      expect(outside.detectors.find(d => d.detector === 'java')?.evidence[1]).toEqual({
+        kind: 'miss',
+        message: '../pom.xml (parent) is outside the repository',
+        file: '../pom.xml',
+      });
+
+      // From inside a module of a repository, the version comes from the parent's own parent
+      await fs.ensureDir(path.join(dir, '.git'));
+      const api = await new FrameworkDetector(path.join(dir, 'api')).explain();
+      expect(api.stack).toMatchObject({ framework: 'spring', version: '3.2.3' });
+      expect(api.detectors.find(d => d.detector === 'java')?.evidence[1]).toEqual({
+        kind: 'file',
+        message: 'read ../pom.xml (parent)',
+        file: '../pom.xml',
+      });
+
+      // Modules share the root's build, so the repository is one package
+      const packages = await new FrameworkDetector(dir).detectPackages();
+      expect(packages.map(pkg => [pkg.path, pkg.stack.framework])).toEqual([['.', 'spring']]);
+    });
+  });
+
+  test('reads the projects a Gradle settings file includes', async () => {
+    await withTempDir(async dir => {
+      await fs.writeFile(path.join(dir, 'settings.gradle.kts'), 'rootProject.name = "shop"\ninclude(":app", ":lib:data")\n');
+      await fs.outputFile(
+        path.join(dir, 'app', 'build.gradle.kts'),
+        'plugins { id("io.micronaut.application") version "4.3.4" }\ndependencies { implementation("io.micronaut:micronaut-http-server-netty") }\n'
+      );
+      await fs.outputFile(path.join(dir, 'lib', 'data', 'build.gradle'), "dependencies { runtimeOnly 'com.mysql:mysql-connector-j' }\n");
+
+      const { stack, detectors } = await new FrameworkDetector(dir).explain();
+      expect(stack).toMatchObject({ language: 'java', framework: 'micronaut', version: '4.3.4', confidence: 0.95 });
+      expect(stack.data).toEqual([{ name: 'mysql-connector', role: 'driver', database: 'mysql' }]);
+      expect(detectors.find(d => d.detector === 'java')?.evidence.slice(0, 4)).toEqual([
+        { kind: 'file', message: 'read settings.gradle.kts', file: 'settings.gradle.kts' },
+        { kind: 'file', message: 'read app/build.gradle.kts (module)', file: 'app/build.gradle.kts' },
+        { kind: 'file', message: 'read lib/data/build.gradle (module)', file: 'lib/data/build.gradle' },
+        { kind: 'dependency', message: '"io.micronaut" → micronaut', file: 'app/build.gradle.kts' },
+      ]);
+    });
+  });
+
+  test('follows a solution into its projects, skipping tests, with central package versions', async () => {
+    await withTempDir(async dir => {
+      const project = (name: string, folder: string) =>
+        `Project("{FAE04EC0-301F-11D3-BF4B-00C04F79EFBC}") = "${name}", "${folder}\\${name}\\${name}.csproj", "{00000000-0000-0000-0000-000000000000}"\nEndProject\n`;
+      await fs.writeFile(
+        path.join(dir, 'Shop.sln'),
+        'Microsoft Visual Studio Solution File, Format Version 12.00\n' +
+          project('Api.Tests', 'tests') +
+          project('Api', 'src') +
+          project('Infrastructure', 'src') +
+          'Project("{2150E333-8FDC-42A3-9474-1A3956D46DE8}") = "docs", "docs", "{00000000-0000-0000-0000-000000000001}"\nEndProject\n'
+      );
+      await fs.outputFile(
+        path.join(dir, 'tests', 'Api.Tests', 'Api.Tests.csproj'),
+        '<Project Sdk="Microsoft.NET.Sdk"><ItemGroup><PackageReference Include="Microsoft.NET.Test.Sdk" /><PackageReference Include="Microsoft.AspNetCore.Mvc.Testing" /></ItemGroup></Project>'
+      );
+      await fs.outputFile(
+        path.join(dir, 'src', 'Api', 'Api.csproj'),
+        '<Project Sdk="Microsoft.NET.Sdk.Web"><PropertyGroup><TargetFramework>net8.0</TargetFramework></PropertyGroup><ItemGroup><PackageReference Include="Microsoft.AspNetCore.OpenApi" /></ItemGroup></Project>'
+      );
+      await fs.outputFile(path.join(dir, 'src', 'Api', 'Program.cs'), 'var app = WebApplication.CreateBuilder(args).Build();\napp.MapGet("/", () => "ok");\napp.Run();\n');
+      await fs.outputFile(
+        path.join(dir, 'src', 'Infrastructure', 'Infrastructure.csproj'),
+        '<Project Sdk="Microsoft.NET.Sdk"><ItemGroup><PackageReference Include="Npgsql.EntityFrameworkCore.PostgreSQL" /></ItemGroup></Project>'
+      );
+      await fs.writeFile(
+        path.join(dir, 'Directory.Packages.props'),
+        '<Project><ItemGroup><PackageVersion Include="Microsoft.AspNetCore.OpenApi" Version="8.0.2" /><PackageVersion Include="Npgsql.EntityFrameworkCore.PostgreSQL" Version="8.0.2" /></ItemGroup></Project>'
+      );
+
+      const { stack, detectors } = await new FrameworkDetector(dir).explain();
+      expect(stack).toMatchObject({
+        language: 'csharp',
+        framework: 'aspnet',
+        version: '8.0.2',
+        appModel: 'minimal-api',
+        data: [{ name: 'npgsql', role: 'driver', database: 'postgres' }],
+        confidence: 0.8,
+      });
+      const csharp = detectors.find(d => d.detector === 'csharp')?.evidence ?? [];
+      expect(csharp.slice(0, 7)).toEqual([
+        { kind: 'file', message: 'read Shop.sln', file: 'Shop.sln' },
+        { kind: 'file', message: 'read tests/Api.Tests/Api.Tests.csproj (in Shop.sln)', file: 'tests/Api.Tests/Api.Tests.csproj' },
+        { kind: 'file', message: 'read src/Api/Api.csproj (in Shop.sln)', file: 'src/Api/Api.csproj' },
+        { kind: 'file', message: 'read src/Infrastructure/Infrastructure.csproj (in Shop.sln)', file: 'src/Infrastructure/Infrastructure.csproj' },
+        { kind: 'dependency', message: 'SDK "Microsoft.NET.Sdk.Web" → aspnet', file: 'src/Api/Api.csproj' },
+        { kind: 'file', message: 'read Directory.Packages.props (central package versions)', file: 'Directory.Packages.props' },
+        { kind: 'version', message: '8.0.2 (from "8.0.2")', file: 'Directory.Packages.props' },
+      ]);
+      expect(csharp.at(-1)).toEqual({ kind: 'appModel', message: 'MapGet() → minimal-api', file: 'src/Api/Program.cs' });
+    });
+  });
+
+  test('reads Directory.Packages.props above the project only inside the repository', async () => {
+    await withTempDir(async dir => {
+      await fs.writeFile(
+        path.join(dir, 'Directory.Packages.props'),
+        '<Project><ItemGroup><PackageVersion Include="Microsoft.AspNetCore.OpenApi" Version="8.0.2" /></ItemGroup></Project>'
+      );
+      await fs.outputFile(
+        path.join(dir, 'repo', 'src', 'Api', 'Api.csproj'),
+        '<Project Sdk="Microsoft.NET.Sdk.Web"><ItemGroup><PackageReference Include="Microsoft.AspNetCore.OpenApi" /></ItemGroup></Project>'
+      );
+      const api = path.join(dir, 'repo', 'src', 'Api');
+
+      // Outside a repository, and above the repository root, the props file is ignored
+      expect((await new FrameworkDetector(api).detect()).version).toBeUndefined();
+      await fs.ensureDir(path.join(dir, 'repo', '.git'));
+      expect((await new FrameworkDetector(api).detect()).version).toBeUndefined();
+
+      await fs.move(path.join(dir, 'Directory.Packages.props'), path.join(dir, 'repo', 'Directory.Packages.props'));
+      const { stack, detectors } = await new FrameworkDetector(api).explain();
+      expect(stack.version).toBe('8.0.2');
+      expect(detectors.find(d => d.detector === 'csharp')?.evidence).toContainEqual({
+        kind: 'file',
+        message: 'read ../../Directory.Packages.props (central package versions)',
+        file: '../../Directory.Packages.props',
+      });
+    });
+  });
+
+  test('tells MVC, Blazor and Worker services apart', async () => {
+    const cases: Array<[Record<string, string>, Partial<DetectedStack>]> = [
+      [
+        { 'Program.cs': 'builder.Services.AddControllersWithViews();\napp.MapControllerRoute("default", "{controller=Home}");\n' },
+        { framework: 'aspnet', appModel: 'mvc' },
+      ],
+      [
+        { 'Program.cs': 'builder.Services.AddRazorComponents().AddInteractiveServerComponents();\napp.MapControllers();\n' },
+        { framework: 'aspnet', appModel: 'blazor' },
+      ],
+      [{ 'App.csproj': '<Project Sdk="Microsoft.NET.Sdk.BlazorWebAssembly"></Project>' }, { framework: 'aspnet', appModel: 'blazor' }],
+      [
+        {
+          'App.csproj':
+            '<Project Sdk="Microsoft.NET.Sdk.Worker"><ItemGroup><PackageReference Include="Microsoft.Extensions.Hosting" Version="8.0.0" /></ItemGroup></Project>',
+          'Program.cs': 'builder.Services.AddHostedService<Worker>();\n',
+        },
+        { framework: 'worker', appModel: 'worker', version: '8.0.0', confidence: 0.95 },
+      ],
+    ];
+    for (const [files, expected] of cases) {
+      await withTempDir(async dir => {
+        await fs.writeFile(path.join(dir, 'App.csproj'), '<Project Sdk="Microsoft.NET.Sdk.Web"></Project>');
+        for (const [file, content] of Object.entries(files)) await fs.writeFile(path.join(dir, file), content);
+        expect(await new FrameworkDetector(dir).detect()).toMatchObject({ language: 'csharp', ...expected });
+      });
+    }
+  });
+
+  test('detects EF Core and its provider in a .csproj', async () => {
+    await withTempDir(async dir => {
+      await fs.writeFile(
+        path.join(dir, 'Api.csproj'),
+        `<Project Sdk="Microsoft.NET.Sdk.Web">
+  <ItemGroup>
+    <PackageReference Include="Microsoft.AspNetCore.OpenApi" Version="8.0.2" />
+    <PackageReference Include="Microsoft.EntityFrameworkCore" Version="8.0.2" />
+    <PackageReference Include="Npgsql.EntityFrameworkCore.PostgreSQL" Version="8.0.2" />
+  </ItemGroup>
+</Project>`
+      );
+      expect((await new FrameworkDetector(dir).detect()).data).toEqual([
+        { name: 'efcore', role: 'orm', database: 'postgres' },
+        { name: 'npgsql', role: 'driver', database: 'postgres' },
+      ]);
+    });
+  });
+});
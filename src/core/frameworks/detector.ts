@@ -1,39 +1,322 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { z } from 'zod';
-import { NODE_FRAMEWORKS, PYTHON_FRAMEWORKS, CSHARP_FRAMEWORKS, JAVA_FRAMEWORKS, PHP_FRAMEWORKS, getDataLayerType } from './config';
+import { collectSignals, combineSignals, countSourceFiles, Signal } from './scoring.js';
+import {
+  findCargoLockVersion,
+  findComposerLockVersion,
+  findGradleVersion,
+  findMavenVersion,
+  findNuGetVersion,
+  findPackageLockVersion,
+  findPipfileLockVersion,
+  findPnpmLockVersion,
+  findPoetryLockVersion,
+  findPropertyVersion,
+  findTargetFrameworkVersion,
+  findYarnLockVersion,
+  toVersion,
+} from './versions.js';
+import { DENO_CONFIG_FILES, denoDependencies, findDenoLockVersion, parseDenoConfig } from './deno.js';
+import {
+  findWebAppModel,
+  isTestProject,
+  parsePackageReferences,
+  parseProjectSdk,
+  parseSolutionProjects,
+} from './dotnet.js';
+import { goModuleBase, GoRequirement, parseGoMod } from './go.js';
+import {
+  findKotlinPlugin,
+  parseGradleArtifacts,
+  parseGradleSettings,
+  parseMavenArtifacts,
+  parseMavenModules,
+  parseMavenParent,
+} from './java.js';
+import {
+  normalizePythonName,
+  parsePipfile,
+  parsePyproject,
+  parseRequirementsFile,
+  PythonDependencies,
+  specifierVersion,
+} from './python.js';
+import { gemRequirementVersion, parseGemfile, parseGemfileLock } from './ruby.js';
+import { CargoDependency, parseCargoToml } from './rust.js';
+import { discoverWorkspacePackages, expandWorkspacePatterns, WorkspacePackage } from './workspace.js';
+import {
+  DataLayerConfig,
+  Database,
+  FrameworkConfig,
+  NODE_FRAMEWORKS,
+  DATA_LAYERS,
+  PYTHON_FRAMEWORKS,
+  PYTHON_DATA_LAYERS,
+  CSHARP_FRAMEWORKS,
+  CSHARP_DATA_LAYERS,
+  JAVA_FRAMEWORKS,
+  JAVA_DATA_LAYERS,
+  PHP_FRAMEWORKS,
+  PHP_DATA_LAYERS,
+  GO_FRAMEWORKS,
+  GO_DATA_LAYERS,
+  RUST_FRAMEWORKS,
+  RUST_DATA_LAYERS,
+  RUBY_FRAMEWORKS,
+  RUBY_DATA_LAYERS,
+} from './config.js';
 
 const MAX_CONFIG_SIZE = 1024 * 1024;
+const MAX_LOCKFILE_SIZE = 20 * 1024 * 1024;
+const BUN_FILES = ['bun.lockb', 'bun.lock', 'bunfig.toml'];
+const GRADLE_BUILD_FILES = ['build.gradle.kts', 'build.gradle'];
+const GRADLE_SETTINGS_FILES = ['settings.gradle.kts', 'settings.gradle'];
+const MAX_JVM_MODULES = 50;
+const MAX_DOTNET_PROJECTS = 50;
+const MAX_MAVEN_PARENTS = 5;
+const PRISMA_SCHEMA_FILES = ['prisma/schema.prisma', 'schema.prisma'];
+const PRISMA_PROVIDERS: Record<string, Database> = {
+  postgresql: 'postgres',
+  mysql: 'mysql',
+  sqlite: 'sqlite',
+  sqlserver: 'mssql',
+  mongodb: 'mongo',
+};
+
+/** First of the files that exists in dir */
+const findFirst = async (dir: string, files: string[]): Promise<string | undefined> => {
+  for (const file of files) {
+    if (await fs.pathExists(path.join(dir, file))) return file;
+  }
+  return undefined;
+};
+
+/**
+ * The repository a folder belongs to: the nearest folder at or above it holding `.git`,
+ * or the folder itself outside a repository. Files above it are never read
+ */
+const findRepositoryRoot = async (cwd: string): Promise<string> => {
+  let dir = path.resolve(cwd);
+  for (;;) {
+    if (await fs.pathExists(path.join(dir, '.git'))) return dir;
+    const parent = path.dirname(dir);
+    if (parent === dir) return path.resolve(cwd);
+    dir = parent;
+  }
+};
+
+/** Whether file is root itself or somewhere below it */
+const isInside = (root: string, file: string): boolean => {
+  const relative = path.relative(root, file);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+};
 
 export type FrameworkName =
   | 'nestjs' | 'nextjs' | 'express' | 'angular'
+  | 'fastify' | 'koa' | 'hono' | 'remix' | 'sveltekit' | 'nuxt' | 'astro'
   | 'django' | 'fastapi' | 'flask'
-  | 'aspnet'
-  | 'spring'
+  | 'aspnet' | 'worker'
+  | 'spring' | 'quarkus' | 'micronaut' | 'ktor'
   | 'laravel'
+  | 'gin' | 'echo' | 'fiber' | 'chi'
+  | 'axum' | 'actix' | 'rocket'
+  | 'rails' | 'sinatra' | 'hanami'
   | 'unknown';
 
+/** JavaScript runtime a ts stack runs on */
+export type Runtime = 'node' | 'bun' | 'deno';
+
+/** How a csharp app is hosted, which decides the shape of its adapters */
+export type AppModel = 'minimal-api' | 'mvc' | 'blazor' | 'worker';
+
+/** A data library the stack depends on */
+export interface DataLayer {
+  /** e.g. prisma, pg, efcore */
+  name: string;
+  role: DataLayerConfig['role'];
+  /** The driver's database; for an ORM, the database of its provider or of the only driver alongside it */
+  database?: Database;
+}
+
 export interface DetectedStack {
-  language: 'ts' | 'csharp' | 'java' | 'python' | 'php' | 'unknown';
+  language: 'ts' | 'csharp' | 'java' | 'kotlin' | 'python' | 'php' | 'go' | 'rust' | 'ruby' | 'unknown';
   framework: FrameworkName;
-  data?: 'mongo' | 'postgres' | 'graphql';
+  /** ORMs first, then drivers, then GraphQL layers */
+  data?: DataLayer[];
+  /** Installed framework version (semver), from a lockfile when there is one, else the manifest's lowest allowed version */
+  version?: string;
+  /** Set for ts stacks */
+  runtime?: Runtime;
+  /** Set for csharp stacks */
+  appModel?: AppModel;
   confidence?: number;
 }
 
+/**
+ * One step of a detector's reasoning, kept so misdetections can be debugged
+ * - file: a manifest that was read
+ * - dependency: a framework key that matched
+ * - boost: a confidenceBoost indicator that fired
+ * - data: a data layer dependency that matched
+ * - version: where the framework version was read
+ * - runtime: a Bun or Deno file or setting that picked the JavaScript runtime
+ * - language: a Kotlin plugin or source folder that made a JVM stack a Kotlin one
+ * - appModel: an SDK, package or startup call that told Blazor, MVC and Minimal APIs apart
+ * - miss: why the detector gave up (or skipped a file)
+ */
+export interface Evidence {
+  kind: 'file' | 'dependency' | 'boost' | 'data' | 'version' | 'runtime' | 'language' | 'appModel' | 'miss';
+  message: string;
+  /** File the evidence came from, relative to the detected directory */
+  file?: string;
+}
+
 export interface DetectionResult {
   stack: DetectedStack;
   confidence: number;
+  evidence?: Evidence[];
 }
 
 export interface DetectorStrategy {
+  /** Short name shown by `skel detect --explain`, e.g. "node" */
+  name?: string;
   priority?: number;
-  detect(cwd: string): Promise<DetectionResult | null>;
+  /**
+   * @param cwd - Directory to inspect
+   * @param evidence - Trail to append to, also filled in when the detector returns null
+   */
+  detect(cwd: string, evidence?: Evidence[]): Promise<DetectionResult | null>;
+}
+
+/** Outcome of a single detector, as reported by FrameworkDetector.explain() */
+export interface DetectorReport {
+  detector: string;
+  result: DetectionResult | null;
+  evidence: Evidence[];
+  error?: string;
+}
+
+/**
+ * A stack one detector found, scored against the others
+ * `confidence` is the detector's own estimate; `score` combines every signal and is what candidates are ranked by
+ */
+export interface DetectionCandidate {
+  detector: string;
+  priority: number;
+  stack: DetectedStack;
+  confidence: number;
+  score: number;
+  /** Weighted signals behind the score */
+  signals: Signal[];
+}
+
+/** Stack of one package in a monorepo */
+export interface PackageStack extends WorkspacePackage {
+  stack: DetectedStack;
+}
+
+export interface DetectionExplanation {
+  stack: DetectedStack;
+  /** Every stack found, best score first */
+  candidates: DetectionCandidate[];
+  /** Every detector in the order it ran, including the ones that found nothing */
+  detectors: DetectorReport[];
 }
 
 abstract class BaseDetector implements DetectorStrategy {
+  abstract name: string;
   abstract priority: number;
-  abstract detect(cwd: string): Promise<DetectionResult | null>;
-  protected async safeReadFile(filePath: string, rootBase?: string): Promise<string | null> {
+  abstract detect(cwd: string, evidence?: Evidence[]): Promise<DetectionResult | null>;
+
+  /**
+   * Resolve the framework version from the first source that lists it
+   * Sources are tried in order, so lockfiles go before manifest ranges
+   *
+   * @param sources - Files to read (relative to cwd) with the parser for each; content skips the read
+   */
+  protected async resolveVersion(
+    cwd: string,
+    sources: Array<{ file: string; find: (content: string) => string | null | undefined; content?: string }>,
+    evidence: Evidence[]
+  ): Promise<string | undefined> {
+    for (const { file, find, content } of sources) {
+      const text = content ?? (await this.safeReadFile(path.join(cwd, file), cwd, MAX_LOCKFILE_SIZE));
+      const raw = text ? find(text) : null;
+      const version = raw ? toVersion(raw) : undefined;
+      if (version) {
+        evidence.push({ kind: 'version', message: `${version} (from "${raw}")`, file });
+        return version;
+      }
+    }
+    evidence.push({ kind: 'miss', message: `no version found in ${sources.map(source => source.file).join(', ')}` });
+    return undefined;
+  }
+
+  /**
+   * Raise confidence when any confidenceBoost indicator is present, recording each one that fired
+   */
+  protected async boost(
+    framework: FrameworkConfig,
+    confidence: number,
+    evidence: Evidence[],
+    has: (key: string) => Promise<boolean> | boolean,
+    file?: string
+  ): Promise<number> {
+    let boosted = false;
+    for (const boostKey of framework.confidenceBoost ?? []) {
+      if (await has(boostKey)) {
+        evidence.push({ kind: 'boost', message: `"${boostKey}" found, confidence ${confidence} → 0.95`, file });
+        boosted = true;
+      }
+    }
+    if (boosted) {
+      return 0.95;
+    }
+    if (framework.confidenceBoost) {
+      evidence.push({
+        kind: 'miss',
+        message: `no confidenceBoost indicator (${framework.confidenceBoost.join(', ')}), confidence stays ${confidence}`,
+        file,
+      });
+    }
+    return confidence;
+  }
+
+  /**
+   * Every data layer whose dependency is present, one per name, recording each as evidence
+   *
+   * @returns The layers ordered by role, or undefined when there are none
+   */
+  protected dataLayers(
+    layers: DataLayerConfig[],
+    has: (key: string) => boolean,
+    evidence: Evidence[],
+    file: string
+  ): DataLayer[] | undefined {
+    const found = new Map<string, DataLayer>();
+    for (const layer of layers) {
+      if (found.has(layer.name) || !has(layer.key)) continue;
+      found.set(layer.name, { name: layer.name, role: layer.role, ...(layer.database && { database: layer.database }) });
+      const detail = [layer.role, layer.database].filter(Boolean).join(', ');
+      evidence.push({ kind: 'data', message: `"${layer.key}" → ${layer.name} (${detail})`, file });
+    }
+    if (found.size === 0) return undefined;
+
+    const roles: DataLayer['role'][] = ['orm', 'driver', 'graphql'];
+    const data = [...found.values()].sort((a, b) => roles.indexOf(a.role) - roles.indexOf(b.role));
+    // An ORM that works with several databases uses the one its driver connects to
+    const databases = new Set(data.filter(layer => layer.role === 'driver' && layer.database).map(layer => layer.database));
+    if (databases.size === 1) {
+      const [database] = databases;
+      for (const layer of data) {
+        if (layer.role === 'orm' && !layer.database) layer.database = database;
+      }
+    }
+    return data;
+  }
+
+  protected async safeReadFile(filePath: string, rootBase?: string, maxSize = MAX_CONFIG_SIZE): Promise<string | null> {
     try {
       // Basic input checks to avoid null-bytes and path traversal
       if (filePath.includes('\0')) {
@@ -56,7 +339,7 @@ abstract class BaseDetector implements DetectorStrategy {
         console.warn(`⚠️ Security Warning: Skipping ${filePath} (Symbolic link)`);
         return null;
       }
-      if (stats.size > MAX_CONFIG_SIZE) {
+      if (stats.size > maxSize) {
         console.warn(`⚠️ Security Warning: Skipping ${filePath} (File too large)`);
         return null;
       }
@@ -68,164 +351,701 @@ abstract class BaseDetector implements DetectorStrategy {
 }
 
 class NodeDetector extends BaseDetector {
+  name = 'node';
   priority = 10;
 
-  async detect(cwd: string): Promise<DetectionResult | null> {
-    const pkgPath = path.join(cwd, 'package.json');
-    if (!(await fs.pathExists(pkgPath))) return null;
+  async detect(cwd: string, evidence: Evidence[] = []): Promise<DetectionResult | null> {
+    const hasPackageJson = await fs.pathExists(path.join(cwd, 'package.json'));
+    const denoFile = await findFirst(cwd, DENO_CONFIG_FILES);
+    if (!hasPackageJson && !denoFile) {
+      evidence.push({ kind: 'miss', message: 'no package.json, deno.json or deno.jsonc' });
+      return null;
+    }
 
-    const content = await this.safeReadFile(pkgPath, cwd);
-    if (!content) return null;
+    // Deno projects may have no package.json at all, and list npm/jsr packages in their import map instead
+    const pkg = hasPackageJson ? await this.readPackageJson(cwd, evidence) : undefined;
+    const deno = denoFile ? await this.readDenoConfig(cwd, denoFile, evidence) : undefined;
+    const manifest = pkg ?? deno;
+    if (pkg === null || !manifest) return null;
+    const deps = { ...(deno?.deps ?? {}), ...(pkg?.deps ?? {}) };
+    const has = (key: string) => Object.hasOwn(deps, key);
+
+    let match: { framework: FrameworkConfig; key: string } | undefined;
+    for (const framework of NODE_FRAMEWORKS) {
+      const key = [framework.key, ...(framework.aliases ?? [])].find(has);
+      if (key) {
+        match = { framework, key };
+        break;
+      }
+    }
+    if (!match) {
+      evidence.push({
+        kind: 'miss',
+        message: `no known framework in dependencies (checked ${NODE_FRAMEWORKS.map(f => f.key).join(', ')})`,
+        file: manifest.file,
+      });
+      return null;
+    }
+    const { framework, key } = match;
+    const source = pkg && Object.hasOwn(pkg.deps, key) ? pkg : deno ?? manifest;
+    evidence.push({ kind: 'dependency', message: `"${key}" → ${framework.name}`, file: source.file });
+
+    const version = await this.resolveVersion(
+      cwd,
+      [
+        { file: 'package-lock.json', find: lock => findPackageLockVersion(lock, key) },
+        { file: 'pnpm-lock.yaml', find: lock => findPnpmLockVersion(lock, key) },
+        { file: 'yarn.lock', find: lock => findYarnLockVersion(lock, key) },
+        { file: 'deno.lock', find: lock => findDenoLockVersion(lock, key) },
+        { file: source.file, find: () => deps[key], content: source.content },
+      ],
+      evidence
+    );
+
+    // Check both dependencies and a file path presence for boost keys
+    const confidence = await this.boost(
+      framework,
+      0.7,
+      evidence,
+      async boostKey => has(boostKey) || (await fs.pathExists(path.join(cwd, boostKey)))
+    );
+
+    const result: DetectedStack = { language: 'ts', framework: framework.name as FrameworkName, confidence };
+    if (version) result.version = version;
+
+    const data = this.dataLayers(DATA_LAYERS, has, evidence, manifest.file);
+    if (data) result.data = await this.withPrismaProvider(cwd, data, evidence);
+
+    result.runtime = await this.detectRuntime(cwd, denoFile, pkg?.packageManager, has, evidence);
+    return { stack: result, confidence, evidence };
+  }
+
+  /**
+   * @returns Its dependencies, or null when package.json is unreadable or malformed
+   */
+  private async readPackageJson(
+    cwd: string,
+    evidence: Evidence[]
+  ): Promise<{ file: string; content: string; deps: Record<string, string>; packageManager?: string } | null> {
+    const content = await this.safeReadFile(path.join(cwd, 'package.json'), cwd);
+    if (!content) {
+      evidence.push({ kind: 'miss', message: 'package.json could not be read', file: 'package.json' });
+      return null;
+    }
+    evidence.push({ kind: 'file', message: 'read package.json', file: 'package.json' });
 
     // Validate package.json structure before using it to avoid prototype pollution
     const PackageJsonSchema = z.object({
       dependencies: z.record(z.string(), z.string()).optional(),
-      devDependencies: z.record(z.string(), z.string()).optional()
+      devDependencies: z.record(z.string(), z.string()).optional(),
+      packageManager: z.string().optional().catch(undefined)
     });
     let pkg;
     try {
       const parsed = JSON.parse(content);
       const parsedRes = PackageJsonSchema.safeParse(parsed);
-      if (!parsedRes.success) return null;
+      if (!parsedRes.success) {
+        evidence.push({ kind: 'miss', message: 'package.json dependencies are not string maps', file: 'package.json' });
+        return null;
+      }
       pkg = parsedRes.data;
-    } catch { return null; }
+    } catch {
+      evidence.push({ kind: 'miss', message: 'package.json is not valid JSON', file: 'package.json' });
+      return null;
+    }
 
-    const deps = { ...(pkg.dependencies ?? {}), ...(pkg.devDependencies ?? {}) };
+    return {
+      file: 'package.json',
+      content,
+      deps: { ...(pkg.dependencies ?? {}), ...(pkg.devDependencies ?? {}) },
+      ...(pkg.packageManager && { packageManager: pkg.packageManager }),
+    };
+  }
 
-    const framework = NODE_FRAMEWORKS.find(f => deps[f.key]);
-    if (!framework) return null;
+  /**
+   * Read the import map of a deno.json(c), and the separate import map it points to
+   *
+   * @returns Its dependencies, or undefined when the config is unreadable
+   */
+  private async readDenoConfig(
+    cwd: string,
+    file: string,
+    evidence: Evidence[]
+  ): Promise<{ file: string; content: string; deps: Record<string, string> } | undefined> {
+    const content = await this.safeReadFile(path.join(cwd, file), cwd);
+    const config = content ? parseDenoConfig(content) : null;
+    if (!content || !config) {
+      evidence.push({ kind: 'miss', message: `${file} could not be read as JSON`, file });
+      return undefined;
+    }
+    evidence.push({ kind: 'file', message: `read ${file}`, file });
 
-    let confidence = 0.7;
-    // Check for confidence boost indicators
-      if (framework.confidenceBoost) {
-      for (const boostKey of framework.confidenceBoost) {
-        // Check both dependencies and a file path presence for boost keys
-        if (deps[boostKey] || await fs.pathExists(path.join(cwd, boostKey))) {
-          confidence = 0.95;
-          break;
-        }
+    let imports = config.imports ?? {};
+    if (config.importMap) {
+      const importMapFile = path.posix.normalize(config.importMap.replace(/\\/g, '/'));
+      const importMap = await this.safeReadFile(path.join(cwd, importMapFile), cwd);
+      const parsed = importMap ? parseDenoConfig(importMap) : null;
+      if (parsed) {
+        evidence.push({ kind: 'file', message: `read ${importMapFile} (import map)`, file: importMapFile });
+        imports = { ...(parsed.imports ?? {}), ...imports };
+      } else {
+        evidence.push({ kind: 'miss', message: `${importMapFile} (import map) could not be read`, file: importMapFile });
       }
     }
+    return { file, content, deps: denoDependencies(imports) };
+  }
 
-    const result: DetectedStack = { language: 'ts', framework: framework.name as FrameworkName, confidence };
+  /**
+   * Prisma talks to its database without a separate driver; the schema's datasource names it
+   */
+  private async withPrismaProvider(cwd: string, data: DataLayer[], evidence: Evidence[]): Promise<DataLayer[]> {
+    const prisma = data.find(layer => layer.name === 'prisma');
+    const file = prisma && (await findFirst(cwd, PRISMA_SCHEMA_FILES));
+    if (!prisma || !file) return data;
 
-    // Detect data layer
-    for (const depKey of Object.keys(deps)) {
-      const dataType = getDataLayerType(depKey);
-      if (dataType) {
-        result.data = dataType;
-        break;
-      }
+    const content = await this.safeReadFile(path.join(cwd, file), cwd);
+    const provider = content?.match(/datasource\s+\w+\s*\{[^}]*?\bprovider\s*=\s*"(\w+)"/)?.[1];
+    const database = provider && Object.hasOwn(PRISMA_PROVIDERS, provider) ? PRISMA_PROVIDERS[provider] : undefined;
+    if (database) {
+      prisma.database = database;
+      evidence.push({ kind: 'data', message: `datasource provider "${provider}" → ${database}`, file });
     }
+    return data;
+  }
 
-    return { stack: result, confidence };
+  /**
+   * Bun and Deno leave config files or lockfiles behind; anything else runs on Node
+   */
+  private async detectRuntime(
+    cwd: string,
+    denoFile: string | undefined,
+    packageManager: string | undefined,
+    has: (key: string) => boolean,
+    evidence: Evidence[]
+  ): Promise<Runtime> {
+    if (denoFile) {
+      evidence.push({ kind: 'runtime', message: `${denoFile} → deno`, file: denoFile });
+      return 'deno';
+    }
+    const bunFile = await findFirst(cwd, BUN_FILES);
+    if (bunFile) {
+      evidence.push({ kind: 'runtime', message: `${bunFile} → bun`, file: bunFile });
+      return 'bun';
+    }
+    if (packageManager?.startsWith('bun@')) {
+      evidence.push({ kind: 'runtime', message: `packageManager "${packageManager}" → bun`, file: 'package.json' });
+      return 'bun';
+    }
+    const bunTypes = ['@types/bun', 'bun-types'].find(has);
+    if (bunTypes) {
+      evidence.push({ kind: 'runtime', message: `"${bunTypes}" → bun`, file: 'package.json' });
+      return 'bun';
+    }
+    return 'node';
   }
 }
 
 class PythonDetector extends BaseDetector {
+  name = 'python';
   priority = 10;
 
-  async detect(cwd: string): Promise<DetectionResult | null> {
+  async detect(cwd: string, evidence: Evidence[] = []): Promise<DetectionResult | null> {
     const files = ['requirements.txt', 'Pipfile', 'pyproject.toml'];
-    
+    let found = false;
+
     for (const file of files) {
       const filePath = path.join(cwd, file);
       if (!(await fs.pathExists(filePath))) continue;
+      found = true;
 
       const content = await this.safeReadFile(filePath, cwd);
-      if (!content) continue;
+      if (!content) {
+        evidence.push({ kind: 'miss', message: `${file} could not be read`, file });
+        continue;
+      }
+      evidence.push({ kind: 'file', message: `read ${file}`, file });
+
+      const dependencies =
+        file === 'requirements.txt'
+          ? await this.readRequirements(cwd, file, content, evidence)
+          : file === 'Pipfile'
+            ? parsePipfile(content)
+            : parsePyproject(content);
+      if (!dependencies) {
+        evidence.push({ kind: 'miss', message: `${file} is not valid TOML`, file });
+        continue;
+      }
 
-      const framework = PYTHON_FRAMEWORKS.find(f => content.includes(f.key));
+      const framework = PYTHON_FRAMEWORKS.find(f => dependencies.has(normalizePythonName(f.key)));
       if (framework) {
         const confidence = file === 'pyproject.toml' ? 0.9 : 0.8;
-        return { stack: { language: 'python', framework: framework.name as FrameworkName, confidence }, confidence };
+        evidence.push({ kind: 'dependency', message: `"${framework.key}" → ${framework.name}`, file });
+        const version = await this.resolveVersion(
+          cwd,
+          [
+            ...['poetry.lock', 'uv.lock', 'pdm.lock'].map(lock => ({
+              file: lock,
+              find: (text: string) => findPoetryLockVersion(text, framework.key),
+            })),
+            { file: 'Pipfile.lock', find: lock => findPipfileLockVersion(lock, framework.key) },
+            { file, find: () => specifierVersion(dependencies.get(normalizePythonName(framework.key)) ?? ''), content },
+          ],
+          evidence
+        );
+        const data = this.dataLayers(PYTHON_DATA_LAYERS, key => dependencies.has(key), evidence, file);
+        return {
+          stack: {
+            language: 'python',
+            framework: framework.name as FrameworkName,
+            ...(version && { version }),
+            ...(data && { data }),
+            confidence,
+          },
+          confidence,
+          evidence,
+        };
       }
+      evidence.push({
+        kind: 'miss',
+        message: `no known framework in ${dependencies.size} dependencies (checked ${PYTHON_FRAMEWORKS.map(f => f.key).join(', ')})`,
+        file,
+      });
     }
 
+    if (!found) {
+      evidence.push({ kind: 'miss', message: `no ${files.join(', ')}` });
+    }
     return null;
   }
+
+  /**
+   * Parse a requirements file together with the files it includes with -r
+   * Includes resolve relative to the including file and must stay inside cwd
+   */
+  private async readRequirements(
+    cwd: string,
+    file: string,
+    content: string,
+    evidence: Evidence[],
+    seen = new Set<string>([file])
+  ): Promise<PythonDependencies> {
+    const { requirements, includes } = parseRequirementsFile(content);
+    const dependencies: PythonDependencies = new Map();
+    for (const requirement of requirements) {
+      const name = normalizePythonName(requirement.name);
+      if (!dependencies.has(name)) dependencies.set(name, requirement.specifier);
+    }
+
+    for (const include of includes) {
+      const included = path.posix.join(path.posix.dirname(file), include.replace(/\\/g, '/'));
+      if (seen.has(included)) continue;
+      seen.add(included);
+
+      const text = await this.safeReadFile(path.join(cwd, included), cwd);
+      if (!text) {
+        evidence.push({ kind: 'miss', message: `${included} (included from ${file}) could not be read`, file: included });
+        continue;
+      }
+      evidence.push({ kind: 'file', message: `read ${included} (included from ${file})`, file: included });
+      for (const [name, specifier] of await this.readRequirements(cwd, included, text, evidence, seen)) {
+        if (!dependencies.has(name)) dependencies.set(name, specifier);
+      }
+    }
+    return dependencies;
+  }
+}
+
+/** A C# project the detector read, relative to the detected directory */
+interface DotnetProject {
+  file: string;
+  content: string;
+  sdk: string | null;
+  /** Lowercased package ids */
+  packages: Set<string>;
 }
 
 class CSharpDetector extends BaseDetector {
+  name = 'csharp';
   priority = 10;
 
-  async detect(cwd: string): Promise<DetectionResult | null> {
-    const files = await fs.readdir(cwd);
-    const csproj = files.find(f => f.endsWith('.csproj') || f.endsWith('.sln'));
-    
-    if (!csproj) return null;
+  async detect(cwd: string, evidence: Evidence[] = []): Promise<DetectionResult | null> {
+    const entries = (await fs.readdir(cwd)).sort();
+    const csproj = entries.find(f => f.endsWith('.csproj'));
+    const solution = entries.find(f => f.endsWith('.sln') || f.endsWith('.slnx'));
+    if (!csproj && !solution) {
+      evidence.push({ kind: 'miss', message: 'no .csproj or .sln' });
+      return null;
+    }
 
-    const content = await this.safeReadFile(path.join(cwd, csproj), cwd);
-    if (!content) return null;
-    
-    const framework = CSHARP_FRAMEWORKS.find(f => content.includes(f.key));
-    if (framework) {
-      let confidence = csproj.endsWith('.csproj') ? 0.9 : 0.8;
-
-      // Check for confidence boost
-      if (framework.confidenceBoost) {
-        for (const boostKey of framework.confidenceBoost) {
-          if (content.includes(boostKey)) {
-            confidence = 0.95;
-            break;
-          }
-        }
+    // A solution holds no package references, only the paths of its projects
+    const projects = csproj
+      ? await this.readProjects(cwd, [csproj], evidence)
+      : solution
+        ? await this.readSolution(cwd, solution, evidence)
+        : [];
+    const apps = projects.filter(project => !isTestProject(project.content, project.packages));
+    if (apps.length === 0) {
+      if (projects.length > 0) evidence.push({ kind: 'miss', message: 'only test projects', file: solution });
+      return null;
+    }
+
+    let match: { framework: FrameworkConfig; project: DotnetProject; sdk: boolean } | undefined;
+    for (const framework of CSHARP_FRAMEWORKS) {
+      const key = framework.key.toLowerCase();
+      const usesSdk = (project: DotnetProject) => !!project.sdk && !!framework.sdks?.includes(project.sdk);
+      const project =
+        apps.find(usesSdk) ?? apps.find(app => [...app.packages].some(id => id === key || id.startsWith(`${key}.`)));
+      if (project) {
+        match = { framework, project, sdk: usesSdk(project) };
+        break;
       }
+    }
+    if (!match) {
+      evidence.push({
+        kind: 'miss',
+        message: `no known framework (checked ${CSHARP_FRAMEWORKS.map(f => f.key).join(', ')})`,
+        file: csproj ?? solution,
+      });
+      return null;
+    }
+    const { framework, project } = match;
+    evidence.push({
+      kind: 'dependency',
+      message: match.sdk ? `SDK "${project.sdk}" → ${framework.name}` : `"${framework.key}" → ${framework.name}`,
+      file: project.file,
+    });
+
+    const props = await this.readPackagesProps(cwd, project.file, evidence);
+    const version = await this.resolveVersion(
+      cwd,
+      [
+        { file: project.file, find: text => findNuGetVersion(text, framework.key), content: project.content },
+        ...(props ? [{ file: props.file, find: (text: string) => findNuGetVersion(text, framework.key), content: props.content }] : []),
+        { file: project.file, find: findTargetFrameworkVersion, content: project.content },
+      ],
+      evidence
+    );
+    const confidence = await this.boost(
+      framework,
+      csproj ? 0.9 : 0.8,
+      evidence,
+      boostKey => project.content.includes(boostKey),
+      project.file
+    );
+    const packages = new Set([...apps.flatMap(app => [...app.packages]), ...(props ? parsePackageReferences(props.content) : [])]);
+    const data = this.dataLayers(CSHARP_DATA_LAYERS, key => packages.has(key.toLowerCase()), evidence, project.file);
+    const appModel = framework.name === 'worker' ? 'worker' : await this.detectAppModel(cwd, project, evidence);
+
+    return {
+      stack: {
+        language: 'csharp',
+        framework: framework.name as FrameworkName,
+        ...(version && { version }),
+        ...(data && { data }),
+        appModel,
+        confidence,
+      },
+      confidence,
+      evidence,
+    };
+  }
+
+  /**
+   * Read the C# projects a .sln or .slnx lists, skipping any outside cwd
+   */
+  private async readSolution(cwd: string, solution: string, evidence: Evidence[]): Promise<DotnetProject[]> {
+    const content = await this.safeReadFile(path.join(cwd, solution), cwd);
+    if (!content) {
+      evidence.push({ kind: 'miss', message: `${solution} could not be read`, file: solution });
+      return [];
+    }
+    evidence.push({ kind: 'file', message: `read ${solution}`, file: solution });
+
+    const files = parseSolutionProjects(content)
+      .map(file => path.posix.normalize(file))
+      .filter(file => !file.startsWith('../'));
+    if (files.length === 0) {
+      evidence.push({ kind: 'miss', message: `${solution} lists no C# projects`, file: solution });
+      return [];
+    }
+    return this.readProjects(cwd, files.slice(0, MAX_DOTNET_PROJECTS), evidence, ` (in ${solution})`);
+  }
 
-      return { stack: { language: 'csharp', framework: framework.name as FrameworkName, confidence }, confidence };
+  private async readProjects(cwd: string, files: string[], evidence: Evidence[], label = ''): Promise<DotnetProject[]> {
+    const projects: DotnetProject[] = [];
+    for (const file of files) {
+      const content = await this.safeReadFile(path.join(cwd, file), cwd);
+      if (!content) {
+        evidence.push({ kind: 'miss', message: `${file}${label} could not be read`, file });
+        continue;
+      }
+      evidence.push({ kind: 'file', message: `read ${file}${label}`, file });
+      projects.push({ file, content, sdk: parseProjectSdk(content), packages: parsePackageReferences(content) });
     }
+    return projects;
+  }
 
+  /**
+   * The Directory.Packages.props MSBuild applies to a project: the nearest one in its folder or above,
+   * which may sit above cwd when a single project of a solution is detected. The search stops at the
+   * repository root (see findRepositoryRoot)
+   */
+  private async readPackagesProps(
+    cwd: string,
+    projectFile: string,
+    evidence: Evidence[]
+  ): Promise<{ file: string; content: string } | null> {
+    const repository = await findRepositoryRoot(cwd);
+    let dir = path.dirname(path.resolve(cwd, projectFile));
+    while (isInside(repository, dir)) {
+      const propsPath = path.join(dir, 'Directory.Packages.props');
+      if (await fs.pathExists(propsPath)) {
+        const file = path.relative(cwd, propsPath).split(path.sep).join('/');
+        const content = await this.safeReadFile(propsPath, repository);
+        if (!content) {
+          evidence.push({ kind: 'miss', message: `${file} could not be read`, file });
+          return null;
+        }
+        evidence.push({ kind: 'file', message: `read ${file} (central package versions)`, file });
+        return { file, content };
+      }
+      if (dir === repository) break;
+      dir = path.dirname(dir);
+    }
     return null;
   }
+
+  /**
+   * Blazor, MVC (controllers or Razor Pages) or Minimal APIs, from the project's SDK and packages,
+   * then from the calls its Program.cs or Startup.cs makes
+   */
+  private async detectAppModel(cwd: string, project: DotnetProject, evidence: Evidence[]): Promise<AppModel> {
+    if (project.sdk === 'Microsoft.NET.Sdk.BlazorWebAssembly') {
+      evidence.push({ kind: 'appModel', message: `SDK "${project.sdk}" → blazor`, file: project.file });
+      return 'blazor';
+    }
+    const blazorPackage = [...project.packages].find(id => id.startsWith('microsoft.aspnetcore.components.webassembly'));
+    if (blazorPackage) {
+      evidence.push({ kind: 'appModel', message: `"${blazorPackage}" → blazor`, file: project.file });
+      return 'blazor';
+    }
+
+    const sources: Array<{ file: string; content: string }> = [];
+    for (const name of ['Program.cs', 'Startup.cs']) {
+      const file = path.posix.join(path.posix.dirname(project.file), name);
+      const content = await this.safeReadFile(path.join(cwd, file), cwd);
+      if (content) sources.push({ file, content });
+    }
+    const found = findWebAppModel(sources);
+    if (found && found.model !== 'minimal-api') {
+      evidence.push({ kind: 'appModel', message: `${found.call}() → ${found.model}`, file: found.file });
+      return found.model;
+    }
+    if (project.packages.has('microsoft.aspnetcore.mvc')) {
+      evidence.push({ kind: 'appModel', message: '"microsoft.aspnetcore.mvc" → mvc', file: project.file });
+      return 'mvc';
+    }
+    if (found) {
+      evidence.push({ kind: 'appModel', message: `${found.call}() → ${found.model}`, file: found.file });
+    }
+    return 'minimal-api';
+  }
+}
+
+/** A build file of a Maven or Gradle project, relative to the detected directory */
+interface JvmBuildFile {
+  file: string;
+  content: string;
 }
 
 class JavaDetector extends BaseDetector {
+  name = 'java';
   priority = 10;
 
-  async detect(cwd: string): Promise<DetectionResult | null> {
-    const files = [
-      { path: 'pom.xml', confidence: 0.9 },
-      { path: 'build.gradle', confidence: 0.85 }
-    ];
+  async detect(cwd: string, evidence: Evidence[] = []): Promise<DetectionResult | null> {
+    const builds: Array<{ tool: 'maven' | 'gradle'; confidence: number }> = [];
+    if (await fs.pathExists(path.join(cwd, 'pom.xml'))) builds.push({ tool: 'maven', confidence: 0.9 });
+    if (await findFirst(cwd, [...GRADLE_BUILD_FILES, ...GRADLE_SETTINGS_FILES])) builds.push({ tool: 'gradle', confidence: 0.85 });
+    if (builds.length === 0) {
+      evidence.push({ kind: 'miss', message: `no pom.xml, ${[...GRADLE_BUILD_FILES, ...GRADLE_SETTINGS_FILES].join(', ')}` });
+      return null;
+    }
 
-    for (const file of files) {
-      const filePath = path.join(cwd, file.path);
-      if (await fs.pathExists(filePath)) {
-        const content = await this.safeReadFile(filePath, cwd);
-        if (!content) continue;
-
-        const framework = JAVA_FRAMEWORKS.find(f => content.includes(f.key));
-        if (framework) {
-          let confidence = file.confidence;
-
-          // Check for confidence boost
-          if (framework.confidenceBoost) {
-            for (const boostKey of framework.confidenceBoost) {
-              if (content.includes(boostKey)) {
-                confidence = 0.95;
-                break;
-              }
-            }
-          }
-
-          return { stack: { language: 'java', framework: framework.name as FrameworkName, confidence }, confidence };
+    for (const { tool, confidence } of builds) {
+      const files = tool === 'maven' ? await this.readMaven(cwd, evidence) : await this.readGradle(cwd, evidence);
+      if (files.length === 0) continue;
+
+      const framework = JAVA_FRAMEWORKS.find(f => files.some(build => build.content.includes(f.key)));
+      if (!framework) {
+        evidence.push({
+          kind: 'miss',
+          message: `no known framework (checked ${JAVA_FRAMEWORKS.map(f => f.key).join(', ')})`,
+          file: files[0].file,
+        });
+        continue;
+      }
+      const matched = files.find(build => build.content.includes(framework.key)) ?? files[0];
+      evidence.push({ kind: 'dependency', message: `"${framework.key}" → ${framework.name}`, file: matched.file });
+
+      // Modules inherit versions from the root or parent build, so those are tried after the matching file
+      const keys = framework.versionKeys ?? [framework.key];
+      const properties = framework.versionProperties ?? [];
+      const find = tool === 'maven' ? findMavenVersion : findGradleVersion;
+      const version = await this.resolveVersion(
+        cwd,
+        [
+          ...[matched, ...files.filter(build => build !== matched)].map(build => ({
+            file: build.file,
+            find: (text: string) => find(text, keys) ?? findPropertyVersion(text, properties),
+            content: build.content,
+          })),
+          ...(tool === 'gradle' ? [{ file: 'gradle.properties', find: (text: string) => findPropertyVersion(text, properties) }] : []),
+        ],
+        evidence
+      );
+      const boosted = await this.boost(
+        framework,
+        confidence,
+        evidence,
+        boostKey => files.some(build => build.content.includes(boostKey)),
+        matched.file
+      );
+      const artifacts = new Set(
+        files.flatMap(build => [...(tool === 'maven' ? parseMavenArtifacts(build.content) : parseGradleArtifacts(build.content))])
+      );
+      const data = this.dataLayers(JAVA_DATA_LAYERS, key => artifacts.has(key), evidence, matched.file);
+      const language = await this.detectLanguage(cwd, files, evidence);
+
+      return {
+        stack: {
+          language,
+          framework: framework.name as FrameworkName,
+          ...(version && { version }),
+          ...(data && { data }),
+          confidence: boosted,
+        },
+        confidence: boosted,
+        evidence,
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Read pom.xml, the modules it lists (recursively) and the local parents it inherits from
+   * Parents may live above cwd, as they do for a module of a multi-module build, but never
+   * outside the repository (see findRepositoryRoot)
+   */
+  private async readMaven(cwd: string, evidence: Evidence[]): Promise<JvmBuildFile[]> {
+    const root = await this.safeReadFile(path.join(cwd, 'pom.xml'), cwd);
+    if (!root) {
+      evidence.push({ kind: 'miss', message: 'pom.xml could not be read', file: 'pom.xml' });
+      return [];
+    }
+    evidence.push({ kind: 'file', message: 'read pom.xml', file: 'pom.xml' });
+    const files: JvmBuildFile[] = [{ file: 'pom.xml', content: root }];
+
+    for (let i = 0; i < files.length && files.length < MAX_JVM_MODULES; i++) {
+      const dir = path.posix.dirname(files[i].file);
+      for (const module of parseMavenModules(files[i].content)) {
+        const file = path.posix.join(dir, module, 'pom.xml');
+        if (file.startsWith('..') || files.some(build => build.file === file)) continue;
+        const content = await this.safeReadFile(path.join(cwd, file), cwd);
+        if (!content) {
+          evidence.push({ kind: 'miss', message: `${file} (module) could not be read`, file });
+          continue;
         }
+        evidence.push({ kind: 'file', message: `read ${file} (module)`, file });
+        files.push({ file, content });
       }
     }
 
-    return null;
+    const repository = await findRepositoryRoot(cwd);
+    let child = files[0];
+    for (let depth = 0; depth < MAX_MAVEN_PARENTS; depth++) {
+      const parent = parseMavenParent(child.content);
+      if (!parent?.relativePath) break;
+      const file = path.posix.normalize(path.posix.join(path.posix.dirname(child.file), parent.relativePath));
+      if (files.some(build => build.file === file)) break;
+      if (!isInside(repository, path.join(cwd, file))) {
+        evidence.push({ kind: 'miss', message: `${file} (parent) is outside the repository`, file });
+        break;
+      }
+      // Maven only uses the file at relativePath when it is the declared parent
+      const content = await this.safeReadFile(path.join(cwd, file), repository);
+      if (!content?.includes(`<artifactId>${parent.artifactId}</artifactId>`)) break;
+      evidence.push({ kind: 'file', message: `read ${file} (parent)`, file });
+      child = { file, content };
+      files.push(child);
+    }
+    return files;
+  }
+
+  /**
+   * Read the root build.gradle(.kts) and settings.gradle(.kts), and the build file of every project the settings include
+   */
+  private async readGradle(cwd: string, evidence: Evidence[]): Promise<JvmBuildFile[]> {
+    const files: JvmBuildFile[] = [];
+    const read = async (file: string, label = '') => {
+      const content = await this.safeReadFile(path.join(cwd, file), cwd);
+      if (!content) {
+        evidence.push({ kind: 'miss', message: `${file}${label} could not be read`, file });
+        return null;
+      }
+      evidence.push({ kind: 'file', message: `read ${file}${label}`, file });
+      files.push({ file, content });
+      return content;
+    };
+
+    const buildFile = await findFirst(cwd, GRADLE_BUILD_FILES);
+    if (buildFile) await read(buildFile);
+    const settingsFile = await findFirst(cwd, GRADLE_SETTINGS_FILES);
+    const settings = settingsFile ? await read(settingsFile) : null;
+
+    for (const project of (settings ? parseGradleSettings(settings) : []).slice(0, MAX_JVM_MODULES)) {
+      if (project.split('/').includes('..')) continue;
+      const projectBuild = await findFirst(path.join(cwd, project), GRADLE_BUILD_FILES);
+      if (projectBuild) await read(`${project}/${projectBuild}`, ' (module)');
+    }
+    return files;
+  }
+
+  /**
+   * Kotlin when a build applies the Kotlin plugin or the sources live in src/main/kotlin
+   */
+  private async detectLanguage(cwd: string, files: JvmBuildFile[], evidence: Evidence[]): Promise<'java' | 'kotlin'> {
+    for (const build of files) {
+      const plugin = findKotlinPlugin(build.content);
+      if (plugin) {
+        evidence.push({ kind: 'language', message: `${plugin} → kotlin`, file: build.file });
+        return 'kotlin';
+      }
+    }
+    if (await fs.pathExists(path.join(cwd, 'src', 'main', 'kotlin'))) {
+      evidence.push({ kind: 'language', message: 'src/main/kotlin → kotlin' });
+      return 'kotlin';
+    }
+    return 'java';
   }
 }
 
 class PHPDetector extends BaseDetector {
+  name = 'php';
   priority = 10;
 
-  async detect(cwd: string): Promise<DetectionResult | null> {
+  async detect(cwd: string, evidence: Evidence[] = []): Promise<DetectionResult | null> {
     const composerPath = path.join(cwd, 'composer.json');
-    if (!(await fs.pathExists(composerPath))) return null;
+    if (!(await fs.pathExists(composerPath))) {
+      evidence.push({ kind: 'miss', message: 'no composer.json' });
+      return null;
+    }
 
     const content = await this.safeReadFile(composerPath, cwd);
-    if (!content) return null;
+    if (!content) {
+      evidence.push({ kind: 'miss', message: 'composer.json could not be read', file: 'composer.json' });
+      return null;
+    }
+    evidence.push({ kind: 'file', message: 'read composer.json', file: 'composer.json' });
 
     // Validate composer.json structure using Zod
     const ComposerJsonSchema = z.object({
@@ -236,30 +1056,243 @@ class PHPDetector extends BaseDetector {
     try {
       const parsed = JSON.parse(content);
       const res = ComposerJsonSchema.safeParse(parsed);
-      if (!res.success) return null;
+      if (!res.success) {
+        evidence.push({ kind: 'miss', message: 'composer.json requirements are not string maps', file: 'composer.json' });
+        return null;
+      }
       composer = res.data;
-    } catch { return null; }
+    } catch {
+      evidence.push({ kind: 'miss', message: 'composer.json is not valid JSON', file: 'composer.json' });
+      return null;
+    }
 
     const deps = { ...(composer.require ?? {}), ...(composer['require-dev'] ?? {}) };
 
     const framework = PHP_FRAMEWORKS.find(f => deps[f.key]);
     if (framework) {
-      let confidence = 0.85;
-
-      // Check for confidence boost
-      if (framework.confidenceBoost) {
-        for (const boostKey of framework.confidenceBoost) {
-          if (deps[boostKey]) {
-            confidence = 0.95;
-            break;
-          }
+      evidence.push({ kind: 'dependency', message: `"${framework.key}" → ${framework.name}`, file: 'composer.json' });
+      const version = await this.resolveVersion(
+        cwd,
+        [
+          { file: 'composer.lock', find: lock => findComposerLockVersion(lock, framework.key) },
+          { file: 'composer.json', find: () => deps[framework.key], content },
+        ],
+        evidence
+      );
+      const confidence = await this.boost(framework, 0.85, evidence, boostKey => !!deps[boostKey], 'composer.json');
+      const data = this.dataLayers(PHP_DATA_LAYERS, key => Object.hasOwn(deps, key), evidence, 'composer.json');
+
+      return {
+        stack: {
+          language: 'php',
+          framework: framework.name as FrameworkName,
+          ...(version && { version }),
+          ...(data && { data }),
+          confidence,
+        },
+        confidence,
+        evidence,
+      };
+    }
+
+    evidence.push({
+      kind: 'miss',
+      message: `no known framework in require (checked ${PHP_FRAMEWORKS.map(f => f.key).join(', ')})`,
+      file: 'composer.json',
+    });
+    return null;
+  }
+}
+
+class GoDetector extends BaseDetector {
+  name = 'go';
+  priority = 10;
+
+  async detect(cwd: string, evidence: Evidence[] = []): Promise<DetectionResult | null> {
+    const modPath = path.join(cwd, 'go.mod');
+    if (!(await fs.pathExists(modPath))) {
+      evidence.push({ kind: 'miss', message: 'no go.mod' });
+      return null;
+    }
+
+    const content = await this.safeReadFile(modPath, cwd);
+    if (!content) {
+      evidence.push({ kind: 'miss', message: 'go.mod could not be read', file: 'go.mod' });
+      return null;
+    }
+    evidence.push({ kind: 'file', message: 'read go.mod', file: 'go.mod' });
+
+    // Indirect requirements belong to dependencies, so only direct ones say what the module is built on
+    const modules = new Map<string, GoRequirement & { path: string }>();
+    for (const [modulePath, requirement] of parseGoMod(content).requires) {
+      if (!requirement.indirect) modules.set(goModuleBase(modulePath), { ...requirement, path: modulePath });
+    }
+
+    const framework = GO_FRAMEWORKS.find(f => modules.has(f.key));
+    const required = framework && modules.get(framework.key);
+    if (!framework || !required) {
+      evidence.push({
+        kind: 'miss',
+        message: `no known framework in ${modules.size} direct requirements (checked ${GO_FRAMEWORKS.map(f => f.key).join(', ')})`,
+        file: 'go.mod',
+      });
+      return null;
+    }
+    const replaced = required.replacedBy ? ` (replaced by ${required.replacedBy})` : '';
+    evidence.push({ kind: 'dependency', message: `"${required.path}"${replaced} → ${framework.name}`, file: 'go.mod' });
+
+    const version = await this.resolveVersion(cwd, [{ file: 'go.mod', find: () => required.version, content }], evidence);
+    const confidence = await this.boost(framework, 0.9, evidence, boostKey => modules.has(boostKey), 'go.mod');
+
+    const result: DetectedStack = { language: 'go', framework: framework.name as FrameworkName, confidence };
+    if (version) result.version = version;
+
+    const data = this.dataLayers(GO_DATA_LAYERS, key => modules.has(key), evidence, 'go.mod');
+    if (data) result.data = data;
+
+    return { stack: result, confidence, evidence };
+  }
+}
+
+class RustDetector extends BaseDetector {
+  name = 'rust';
+  priority = 10;
+
+  async detect(cwd: string, evidence: Evidence[] = []): Promise<DetectionResult | null> {
+    const manifestPath = path.join(cwd, 'Cargo.toml');
+    if (!(await fs.pathExists(manifestPath))) {
+      evidence.push({ kind: 'miss', message: 'no Cargo.toml' });
+      return null;
+    }
+
+    const content = await this.safeReadFile(manifestPath, cwd);
+    if (!content) {
+      evidence.push({ kind: 'miss', message: 'Cargo.toml could not be read', file: 'Cargo.toml' });
+      return null;
+    }
+    const manifest = parseCargoToml(content);
+    if (!manifest) {
+      evidence.push({ kind: 'miss', message: 'Cargo.toml is not valid TOML', file: 'Cargo.toml' });
+      return null;
+    }
+    evidence.push({ kind: 'file', message: 'read Cargo.toml', file: 'Cargo.toml' });
+
+    // A workspace root is detected from its members' dependencies, remembering which manifest declared each crate
+    const crates = new Map<string, CargoDependency & { file: string }>();
+    const addCrates = (dependencies: Map<string, CargoDependency>, file: string) => {
+      for (const [name, dependency] of dependencies) {
+        if (!crates.has(name)) crates.set(name, { ...dependency, file });
+      }
+    };
+    addCrates(manifest.dependencies, 'Cargo.toml');
+
+    if (manifest.workspace) {
+      const patterns = [...manifest.workspace.members, ...manifest.workspace.exclude.map(pattern => `!${pattern}`)];
+      for (const member of await expandWorkspacePatterns(cwd, patterns)) {
+        const file = `${member}/Cargo.toml`;
+        const memberContent = await this.safeReadFile(path.join(cwd, file), cwd);
+        const memberManifest = memberContent ? parseCargoToml(memberContent, manifest.workspace.dependencies) : null;
+        if (!memberManifest) {
+          evidence.push({ kind: 'miss', message: `${file} (workspace member) could not be read`, file });
+          continue;
         }
+        evidence.push({ kind: 'file', message: `read ${file} (workspace member)`, file });
+        addCrates(memberManifest.dependencies, file);
       }
+    }
 
-      return { stack: { language: 'php', framework: framework.name as FrameworkName, confidence }, confidence };
+    const framework = RUST_FRAMEWORKS.find(f => crates.has(f.key));
+    const crate = framework && crates.get(framework.key);
+    if (!framework || !crate) {
+      evidence.push({
+        kind: 'miss',
+        message: `no known framework in ${crates.size} dependencies (checked ${RUST_FRAMEWORKS.map(f => f.key).join(', ')})`,
+        file: 'Cargo.toml',
+      });
+      return null;
     }
+    evidence.push({ kind: 'dependency', message: `"${framework.key}" → ${framework.name}`, file: crate.file });
 
-    return null;
+    const version = await this.resolveVersion(
+      cwd,
+      [
+        { file: 'Cargo.lock', find: lock => findCargoLockVersion(lock, framework.key) },
+        { file: crate.file, find: () => crate.requirement, content },
+      ],
+      evidence
+    );
+    const confidence = await this.boost(framework, 0.9, evidence, boostKey => crates.has(boostKey), crate.file);
+
+    const result: DetectedStack = { language: 'rust', framework: framework.name as FrameworkName, confidence };
+    if (version) result.version = version;
+    const data = this.dataLayers(RUST_DATA_LAYERS, key => crates.has(key), evidence, crate.file);
+    if (data) result.data = data;
+
+    return { stack: result, confidence, evidence };
+  }
+}
+
+class RubyDetector extends BaseDetector {
+  name = 'ruby';
+  priority = 10;
+
+  async detect(cwd: string, evidence: Evidence[] = []): Promise<DetectionResult | null> {
+    // The Gemfile lists what the app asks for; without one, the lockfile's DEPENDENCIES say the same
+    let file = 'Gemfile';
+    let content: string | null = null;
+    let gems: Map<string, string> | undefined;
+    if (await fs.pathExists(path.join(cwd, 'Gemfile'))) {
+      content = await this.safeReadFile(path.join(cwd, 'Gemfile'), cwd);
+      if (content) gems = parseGemfile(content);
+    } else if (await fs.pathExists(path.join(cwd, 'Gemfile.lock'))) {
+      file = 'Gemfile.lock';
+      content = await this.safeReadFile(path.join(cwd, file), cwd, MAX_LOCKFILE_SIZE);
+      if (content) gems = parseGemfileLock(content).dependencies;
+    } else {
+      evidence.push({ kind: 'miss', message: 'no Gemfile or Gemfile.lock' });
+      return null;
+    }
+
+    if (!content || !gems) {
+      evidence.push({ kind: 'miss', message: `${file} could not be read`, file });
+      return null;
+    }
+    evidence.push({ kind: 'file', message: `read ${file}`, file });
+    const declared = gems;
+
+    const framework = RUBY_FRAMEWORKS.find(f => declared.has(f.key));
+    if (!framework) {
+      evidence.push({
+        kind: 'miss',
+        message: `no known framework in ${declared.size} gems (checked ${RUBY_FRAMEWORKS.map(f => f.key).join(', ')})`,
+        file,
+      });
+      return null;
+    }
+    evidence.push({ kind: 'dependency', message: `"${framework.key}" → ${framework.name}`, file });
+
+    const version = await this.resolveVersion(
+      cwd,
+      [
+        { file: 'Gemfile.lock', find: lock => parseGemfileLock(lock).specs.get(framework.key) },
+        { file, find: () => gemRequirementVersion(declared.get(framework.key) ?? ''), content },
+      ],
+      evidence
+    );
+    const confidence = await this.boost(
+      framework,
+      0.85,
+      evidence,
+      async boostKey => declared.has(boostKey) || (await fs.pathExists(path.join(cwd, boostKey))),
+      file
+    );
+
+    const result: DetectedStack = { language: 'ruby', framework: framework.name as FrameworkName, confidence };
+    if (version) result.version = version;
+    const data = this.dataLayers(RUBY_DATA_LAYERS, key => declared.has(key), evidence, file);
+    if (data) result.data = data;
+
+    return { stack: result, confidence, evidence };
   }
 }
 
@@ -276,7 +1309,10 @@ export class FrameworkDetector {
       new PythonDetector(),
       new CSharpDetector(),
       new JavaDetector(),
-      new PHPDetector()
+      new PHPDetector(),
+      new GoDetector(),
+      new RustDetector(),
+      new RubyDetector()
     ];
     
     this.detectors = [...defaults, ...strategies];
@@ -293,22 +1329,96 @@ export class FrameworkDetector {
 
   async detect(): Promise<DetectedStack> {
     if (this.cache) return this.cache;
+    this.cache = await this.detectIn(this.cwd);
+    return this.cache;
+  }
+
+  /**
+   * The repository root as a package at ".", for `--package .` in a monorepo
+   */
+  async detectRoot(): Promise<PackageStack> {
+    return { name: path.basename(path.resolve(this.cwd)), path: '.', stack: await this.detect() };
+  }
+
+  /**
+   * Detect the stack of every package in a monorepo
+   * A repository that is not a workspace comes back as a single package at "."
+   */
+  async detectPackages(): Promise<PackageStack[]> {
+    const root = await this.detectRoot();
+    const packages = await discoverWorkspacePackages(this.cwd, { scanSubfolders: root.stack.framework === 'unknown' });
+    if (packages.length === 0) {
+      return [root];
+    }
+
+    const stacks: PackageStack[] = [];
+    for (const pkg of packages) {
+      stacks.push({ ...pkg, stack: await this.detectIn(path.join(this.cwd, pkg.path)) });
+    }
+    return stacks;
+  }
+
+  /**
+   * Every stack the detectors find, ranked by score
+   * Useful for polyglot repositories, where several detectors match
+   */
+  async detectAll(): Promise<DetectionCandidate[]> {
+    return (await this.runDetectors(this.cwd)).candidates;
+  }
+
+  /**
+   * The best-scoring stack among the highest-priority detectors that matched
+   */
+  private async detectIn(cwd: string): Promise<DetectedStack> {
+    const { reports, candidates } = await this.runDetectors(cwd);
+    for (const report of reports.filter(r => r.error)) {
+      console.error(`Detector ${report.detector} failed:`, report.error);
+    }
+
+    const top = Math.max(...candidates.map(candidate => candidate.priority));
+    return (
+      candidates.find(candidate => candidate.priority === top)?.stack ?? {
+        language: 'unknown',
+        framework: 'unknown',
+        confidence: 0,
+      }
+    );
+  }
+
+  private async runDetectors(cwd: string): Promise<{ reports: DetectorReport[]; candidates: DetectionCandidate[] }> {
+    const reports: DetectorReport[] = [];
+    const candidates: DetectionCandidate[] = [];
+    const sources = await countSourceFiles(cwd);
 
     for (const detector of this.detectors) {
+      const name = detector.name ?? detector.constructor.name;
+      const report: DetectorReport = { detector: name, result: null, evidence: [] };
+      reports.push(report);
       try {
-        const result = await detector.detect(this.cwd);
-        if (result) {
-          this.cache = result.stack;
-          return result.stack;
-        }
+        report.result = await detector.detect(cwd, report.evidence);
       } catch (error) {
-        console.error(`Detector ${detector.constructor.name} failed:`, error);
+        report.error = error instanceof Error ? error.message : String(error);
+      }
+      if (!report.result) continue;
+
+      report.evidence = report.result.evidence ?? report.evidence;
+      const signals = await collectSignals(cwd, report.result.stack, report.evidence, sources);
+      if (report.evidence.length === 0) {
+        // Detectors without an evidence trail only have their own estimate to go on
+        signals.unshift({ kind: 'reported', message: `${name} reported ${report.result.confidence}`, weight: report.result.confidence });
       }
+      candidates.push({
+        detector: name,
+        priority: detector.priority ?? 0,
+        stack: report.result.stack,
+        confidence: report.result.confidence,
+        score: Math.round(combineSignals(signals.map(signal => signal.weight)) * 1000) / 1000,
+        signals,
+      });
     }
 
-    const fallback: DetectedStack = { language: 'unknown', framework: 'unknown', confidence: 0 };
-    this.cache = fallback;
-    return fallback;
+    candidates.sort((a, b) => b.score - a.score);
+    return { reports, candidates };
   }
 
   async detectParallel(): Promise<DetectedStack> {
@@ -337,6 +1447,24 @@ export class FrameworkDetector {
     return fallback;
   }
 
+  /**
+   * Run every detector and keep each one's evidence trail and score
+   * The chosen stack is the same one detect() returns; nothing is cached
+   */
+  async explain(): Promise<DetectionExplanation> {
+    const { reports, candidates } = await this.runDetectors(this.cwd);
+    const top = Math.max(...candidates.map(candidate => candidate.priority));
+    return {
+      stack: candidates.find(candidate => candidate.priority === top)?.stack ?? {
+        language: 'unknown',
+        framework: 'unknown',
+        confidence: 0,
+      },
+      candidates,
+      detectors: reports,
+    };
+  }
+
   async detectWithConfidence(): Promise<DetectionResult> {
     const stack = await this.detect();
     return { stack, confidence: stack.confidence ?? 0 };
@@ -0,0 +1,64 @@
+import { describe, test, expect } from 'vitest';
+import {
+  findWebAppModel,
+  isTestProject,
+  parsePackageReferences,
+  parseProjectSdk,
+  parseSolutionProjects,
+} from './dotnet';
+
+describe('parsePackageReferences', () => {
+  test('reads lowercased package ids, skipping comments', () => {
+    const csproj = `<Project Sdk="Microsoft.NET.Sdk.Web">
+  <ItemGroup>
+    <PackageReference Include="Microsoft.EntityFrameworkCore" Version="8.0.2" />
+    <PackageReference Version="8.0.2" Include="Npgsql.EntityFrameworkCore.PostgreSQL">
+      <PrivateAssets>all</PrivateAssets>
+    </PackageReference>
+    <!-- <PackageReference Include="Dapper" Version="2.1.28" /> -->
+  </ItemGroup>
+</Project>`;
+    expect([...parsePackageReferences(csproj)]).toEqual(['microsoft.entityframeworkcore', 'npgsql.entityframeworkcore.postgresql']);
+  });
+});
+
+describe('parseProjectSdk', () => {
+  test('reads the Project Sdk attribute or an Sdk element, without a version', () => {
+    expect(parseProjectSdk('<Project Sdk="Microsoft.NET.Sdk.Web">')).toBe('Microsoft.NET.Sdk.Web');
+    expect(parseProjectSdk('<Project ToolsVersion="15.0" Sdk="Microsoft.NET.Sdk.Worker/8.0.100">')).toBe('Microsoft.NET.Sdk.Worker');
+    expect(parseProjectSdk('<Project><Sdk Name="Microsoft.NET.Sdk.BlazorWebAssembly" /></Project>')).toBe('Microsoft.NET.Sdk.BlazorWebAssembly');
+    expect(parseProjectSdk('<Project ToolsVersion="15.0">')).toBeNull();
+  });
+});
+
+describe('isTestProject', () => {
+  test('recognises the test SDK package or IsTestProject', () => {
+    expect(isTestProject('', new Set(['microsoft.net.test.sdk', 'xunit']))).toBe(true);
+    expect(isTestProject('<IsTestProject>true</IsTestProject>', new Set())).toBe(true);
+    expect(isTestProject('<Project Sdk="Microsoft.NET.Sdk.Web">', new Set(['microsoft.aspnetcore.openapi']))).toBe(false);
+  });
+});
+
+describe('parseSolutionProjects', () => {
+  test('reads C# projects of .sln and .slnx files, skipping solution folders', () => {
+    const sln = `Project("{FAE04EC0-301F-11D3-BF4B-00C04F79EFBC}") = "Api", "src\\Api\\Api.csproj", "{11111111-1111-1111-1111-111111111111}"
+EndProject
+Project("{2150E333-8FDC-42A3-9474-1A3956D46DE8}") = "docs", "docs", "{22222222-2222-2222-2222-222222222222}"
+EndProject
+Project("{F2A71F9B-5D33-465A-A702-920D77279786}") = "Lib", "src\\Lib\\Lib.fsproj", "{33333333-3333-3333-3333-333333333333}"
+EndProject`;
+    const slnx = '<Solution><Folder Name="/src/"><Project Path="src/Worker/Worker.csproj" /></Folder></Solution>';
+    expect(parseSolutionProjects(sln)).toEqual(['src/Api/Api.csproj']);
+    expect(parseSolutionProjects(slnx)).toEqual(['src/Worker/Worker.csproj']);
+  });
+});
+
+describe('findWebAppModel', () => {
+  test('prefers Blazor over MVC over Minimal APIs, ignoring comments', () => {
+    const program = { file: 'Program.cs', content: '// builder.Services.AddRazorComponents();\napp.MapGet("/", () => "ok");\n' };
+    const startup = { file: 'Startup.cs', content: 'services.AddControllers();\n' };
+    expect(findWebAppModel([program])).toEqual({ model: 'minimal-api', call: 'MapGet', file: 'Program.cs' });
+    expect(findWebAppModel([program, startup])).toEqual({ model: 'mvc', call: 'AddControllers', file: 'Startup.cs' });
+    expect(findWebAppModel([{ file: 'Program.cs', content: 'var app = builder.Build();' }])).toBeNull();
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Parsers for .NET solutions, project files and Directory.Packages.props
+ * NuGet package ids are case-insensitive, so they are returned lowercased.
+ */
+
+const stripXmlComments = (content: string): string => content.replace(/<!--[\s\S]*?-->/g, '');
+
+/**
+ * Package ids of the PackageReference items of a .csproj, and of the GlobalPackageReference
+ * items of a Directory.Packages.props, which every project gets
+ */
+export const parsePackageReferences = (content: string): Set<string> => {
+  const packages = new Set<string>();
+  for (const [reference] of stripXmlComments(content).matchAll(/<(?:Global)?PackageReference\b[^>]*>/g)) {
+    const include = reference.match(/\bInclude="([^"]+)"/)?.[1];
+    if (include) packages.add(include.trim().toLowerCase());
+  }
+  return packages;
+};
+
+/**
+ * The MSBuild SDK of a project (`<Project Sdk="Microsoft.NET.Sdk.Web">` or `<Sdk Name="…" />`), without its version
+ */
+export const parseProjectSdk = (content: string): string | null => {
+  const withoutComments = stripXmlComments(content);
+  const sdk =
+    withoutComments.match(/<Project\b[^>]*\bSdk="([^"]+)"/)?.[1] ?? withoutComments.match(/<Sdk\b[^>]*\bName="([^"]+)"/)?.[1];
+  return sdk?.split(/[/;]/)[0].trim() || null;
+};
+
+/**
+ * Whether a project is a test project, which references the web SDK's packages without being an app
+ */
+export const isTestProject = (content: string, packages: Set<string>): boolean =>
+  packages.has('microsoft.net.test.sdk') || /<IsTestProject>\s*true\s*<\/IsTestProject>/i.test(stripXmlComments(content));
+
+/**
+ * Paths of the C# projects of a solution, relative to it with forward slashes
+ * Reads both the .sln format (`Project("{…}") = "Api", "src\Api\Api.csproj", "{…}"`) and .slnx (`<Project Path="…" />`)
+ */
+export const parseSolutionProjects = (content: string): string[] => {
+  const projects = new Set<string>();
+  for (const [, project] of content.matchAll(/^\s*Project\("[^"]*"\)\s*=\s*"[^"]*"\s*,\s*"([^"]+\.csproj)"/gim)) {
+    projects.add(project.replace(/\\/g, '/'));
+  }
+  for (const [, project] of stripXmlComments(content).matchAll(/<Project\b[^>]*\bPath="([^"]+\.csproj)"/gi)) {
+    projects.add(project.replace(/\\/g, '/'));
+  }
+  return [...projects];
+};
+
+/** Startup calls that show how an ASP.NET Core app is built, most specific first */
+const WEB_APP_CALLS = [
+  { model: 'blazor', call: /\b(?:AddRazorComponents|AddServerSideBlazor|MapRazorComponents|MapBlazorHub)\b/ },
+  {
+    model: 'mvc',
+    call: /\b(?:AddControllersWithViews|AddControllers|AddMvc|MapControllers|MapControllerRoute|AddRazorPages|MapRazorPages)\b/,
+  },
+  { model: 'minimal-api', call: /\b(?:MapGet|MapPost|MapPut|MapPatch|MapDelete|MapMethods|MapGroup)\b/ },
+] as const;
+
+/**
+ * How an ASP.NET Core app is built, from the calls in its Program.cs or Startup.cs
+ * A Blazor app may also map controllers or endpoints, so Blazor wins over MVC, which wins over Minimal APIs
+ *
+ * @returns The model with the call and file that showed it, or null when no source makes one of the calls
+ */
+export const findWebAppModel = (
+  sources: Array<{ file: string; content: string }>
+): { model: (typeof WEB_APP_CALLS)[number]['model']; call: string; file: string } | null => {
+  const code = sources.map(({ file, content }) => ({
+    file,
+    content: content.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, ''),
+  }));
+  for (const { model, call } of WEB_APP_CALLS) {
+    for (const { file, content } of code) {
+      const found = content.match(call);
+      if (found) return { model, call: found[0], file };
+    }
+  }
+  return null;
+};
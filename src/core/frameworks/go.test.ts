@@ -0,0 +1,67 @@
+import { describe, test, expect } from 'vitest';
+import { goModuleBase, parseGoMod } from './go';
+
+describe('parseGoMod', () => {
+  test('reads module, go and require directives in both forms', () => {
+    const mod = parseGoMod(`// service
+module example.com/svc
+
+go 1.22
+toolchain go1.22.1
+
+require github.com/gin-gonic/gin v1.9.1
+
+require (
+	github.com/labstack/echo/v4 v4.11.4
+	golang.org/x/net v0.19.0 // indirect
+)
+
+exclude github.com/gin-gonic/gin v1.8.0
+`);
+    expect(mod.module).toBe('example.com/svc');
+    expect(mod.go).toBe('1.22');
+    expect(mod.requires).toEqual(
+      new Map([
+        ['github.com/gin-gonic/gin', { version: 'v1.9.1', indirect: false }],
+        ['github.com/labstack/echo/v4', { version: 'v4.11.4', indirect: false }],
+        ['golang.org/x/net', { version: 'v0.19.0', indirect: true }],
+      ])
+    );
+  });
+
+  test('applies replace directives, preferring version-specific ones', () => {
+    const mod = parseGoMod(`module example.com/svc
+
+require (
+	github.com/gin-gonic/gin v1.9.1
+	github.com/go-chi/chi/v5 v5.0.11
+	example.com/shared v0.0.0-00010101000000-000000000000
+)
+
+replace (
+	github.com/gin-gonic/gin => github.com/acme/gin v1.9.2
+	github.com/gin-gonic/gin v1.9.1 => github.com/acme/gin v1.9.1-patched
+	github.com/go-chi/chi/v5 v5.0.0 => github.com/acme/chi v5.0.1
+)
+
+replace example.com/shared => ../shared
+`);
+    expect(mod.requires.get('github.com/gin-gonic/gin')).toEqual({
+      version: 'v1.9.1-patched',
+      indirect: false,
+      replacedBy: 'github.com/acme/gin',
+    });
+    expect(mod.requires.get('github.com/go-chi/chi/v5')).toEqual({ version: 'v5.0.11', indirect: false });
+    expect(mod.requires.get('example.com/shared')).toMatchObject({ replacedBy: '../shared', version: 'v0.0.0-00010101000000-000000000000' });
+  });
+
+  test('ignores malformed lines', () => {
+    expect(parseGoMod('require\nreplace github.com/a/b =>\nrequire (\nbroken\n)').requires.size).toBe(0);
+  });
+});
+
+test('goModuleBase strips the major version suffix', () => {
+  expect(goModuleBase('github.com/labstack/echo/v4')).toBe('github.com/labstack/echo');
+  expect(goModuleBase('github.com/gin-gonic/gin')).toBe('github.com/gin-gonic/gin');
+  expect(goModuleBase('gopkg.in/yaml.v3')).toBe('gopkg.in/yaml.v3');
+});
@@ -0,0 +1,98 @@
+/**
+ * Parser for go.mod files
+ * Requirements come back with replace directives already applied, so a detector sees
+ * the version that is actually built along with where it comes from.
+ */
+
+export interface GoRequirement {
+  /** Module version (`v1.9.1`), the replacement's when a replace directive gives one */
+  version: string;
+  /** Marked `// indirect`: needed by a dependency, not imported by the module itself */
+  indirect: boolean;
+  /** Module path or local folder that replaces this module */
+  replacedBy?: string;
+}
+
+export interface GoModule {
+  module?: string;
+  /** Language version from the `go` directive */
+  go?: string;
+  /** Required modules keyed by module path */
+  requires: Map<string, GoRequirement>;
+}
+
+interface GoReplacement {
+  /** Only this version of the module is replaced; any version when unset */
+  from?: string;
+  path: string;
+  version?: string;
+}
+
+const unquote = (token: string): string => token.replace(/^"(.*)"$/, '$1').replace(/^`(.*)`$/, '$1');
+
+/**
+ * Module path without its major version suffix (`github.com/labstack/echo/v4` → `github.com/labstack/echo`)
+ */
+export const goModuleBase = (modulePath: string): string => modulePath.replace(/\/v\d+$/, '');
+
+/**
+ * Parse a go.mod: module, go, require and replace directives, in single-line and block form
+ * exclude, retract, toolchain and godebug directives are ignored.
+ */
+export const parseGoMod = (content: string): GoModule => {
+  const mod: GoModule = { requires: new Map() };
+  const replacements = new Map<string, GoReplacement[]>();
+  let block: string | undefined;
+
+  const handle = (directive: string, args: string[], indirect: boolean): void => {
+    if (directive === 'module' && args[0]) {
+      mod.module = unquote(args[0]);
+    } else if (directive === 'go' && args[0]) {
+      mod.go = args[0];
+    } else if (directive === 'require' && args.length >= 2) {
+      mod.requires.set(unquote(args[0]), { version: args[1], indirect });
+    } else if (directive === 'replace') {
+      const arrow = args.indexOf('=>');
+      if (arrow < 1 || arrow === args.length - 1) return;
+      const [from, fromVersion] = args.slice(0, arrow).map(unquote);
+      const [to, toVersion] = args.slice(arrow + 1).map(unquote);
+      const replacement: GoReplacement = { path: to, ...(fromVersion && { from: fromVersion }), ...(toVersion && { version: toVersion }) };
+      replacements.set(from, [...(replacements.get(from) ?? []), replacement]);
+    }
+  };
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const indirect = /\/\/\s*indirect\b/.test(rawLine);
+    const line = rawLine.replace(/\/\/.*$/, '').trim();
+    if (!line) continue;
+
+    if (block) {
+      if (line === ')') {
+        block = undefined;
+      } else {
+        handle(block, line.split(/\s+/), indirect);
+      }
+      continue;
+    }
+
+    const blockStart = line.match(/^(\w+)\s*\($/);
+    if (blockStart) {
+      block = blockStart[1];
+      continue;
+    }
+    const [directive, ...args] = line.split(/\s+/);
+    handle(directive, args, indirect);
+  }
+
+  for (const [modulePath, requirement] of mod.requires) {
+    // A replacement for one version wins over one for every version
+    const candidates = replacements.get(modulePath) ?? [];
+    const replacement = candidates.find(r => r.from === requirement.version) ?? candidates.find(r => !r.from);
+    if (replacement) {
+      requirement.replacedBy = replacement.path;
+      if (replacement.version) requirement.version = replacement.version;
+    }
+  }
+
+  return mod;
+};
@@ -0,0 +1,77 @@
+import { describe, test, expect } from 'vitest';
+import {
+  findKotlinPlugin,
+  parseGradleArtifacts,
+  parseGradleSettings,
+  parseMavenArtifacts,
+  parseMavenModules,
+  parseMavenParent,
+} from './java';
+
+describe('parseMavenArtifacts', () => {
+  test('reads dependency artifactIds, skipping the parent, plugins and comments', () => {
+    const pom = `<project>
+  <parent><artifactId>spring-boot-starter-parent</artifactId></parent>
+  <dependencies>
+    <dependency>
+      <groupId>org.postgresql</groupId>
+      <artifactId> postgresql </artifactId>
+    </dependency>
+    <!-- <dependency><artifactId>mysql-connector-j</artifactId></dependency> -->
+  </dependencies>
+  <build><plugins><plugin><artifactId>maven-compiler-plugin</artifactId></plugin></plugins></build>
+</project>`;
+    expect([...parseMavenArtifacts(pom)]).toEqual(['postgresql']);
+  });
+});
+
+describe('parseGradleArtifacts', () => {
+  test('reads string and map coordinates, skipping comments', () => {
+    const gradle = `plugins { id 'org.springframework.boot' version '3.2.3' }
+dependencies {
+  implementation "org.springframework.boot:spring-boot-starter-data-jpa"
+  runtimeOnly 'org.postgresql:postgresql:42.7.2'
+  implementation group: 'redis.clients', name: 'jedis', version: '5.1.0'
+  // implementation 'com.mysql:mysql-connector-j'
+}`;
+    expect([...parseGradleArtifacts(gradle)]).toEqual(['spring-boot-starter-data-jpa', 'postgresql', 'jedis']);
+  });
+});
+
+describe('parseMavenModules', () => {
+  test('reads module folders, reducing pom paths to their folder', () => {
+    const pom = '<project><modules><module>api</module><module> libs/core/pom.xml </module><!-- <module>old</module> --></modules></project>';
+    expect(parseMavenModules(pom)).toEqual(['api', 'libs/core']);
+  });
+});
+
+describe('parseMavenParent', () => {
+  test('defaults relativePath to ../pom.xml and keeps explicit or empty ones', () => {
+    const parent = (inner: string) => `<project><parent><groupId>com.acme</groupId><artifactId>acme-parent</artifactId>${inner}</parent></project>`;
+    expect(parseMavenParent(parent(''))).toEqual({ artifactId: 'acme-parent', relativePath: '../pom.xml' });
+    expect(parseMavenParent(parent('<relativePath>../../build</relativePath>'))).toEqual({
+      artifactId: 'acme-parent',
+      relativePath: '../../build/pom.xml',
+    });
+    expect(parseMavenParent(parent('<relativePath/>'))).toEqual({ artifactId: 'acme-parent', relativePath: null });
+    expect(parseMavenParent('<project><artifactId>app</artifactId></project>')).toBeNull();
+  });
+});
+
+describe('parseGradleSettings', () => {
+  test('reads includes of both DSLs as folders', () => {
+    const groovy = "rootProject.name = 'shop'\ninclude 'web', ':lib:util'\n// include 'old'\n";
+    const kotlin = 'rootProject.name = "shop"\ninclude(\n    ":api",\n    ":core"\n)\n';
+    expect(parseGradleSettings(groovy)).toEqual(['web', 'lib/util']);
+    expect(parseGradleSettings(kotlin)).toEqual(['api', 'core']);
+  });
+});
+
+describe('findKotlinPlugin', () => {
+  test('finds the Kotlin plugin in Gradle and Maven builds only', () => {
+    expect(findKotlinPlugin('plugins {\n  kotlin("jvm") version "1.9.22"\n}')).toBe('kotlin("jvm")');
+    expect(findKotlinPlugin("plugins { id 'org.jetbrains.kotlin.jvm' version '1.9.22' }")).toBe('org.jetbrains.kotlin.jvm');
+    expect(findKotlinPlugin('<plugin><artifactId>kotlin-maven-plugin</artifactId></plugin>')).toBe('kotlin-maven-plugin');
+    expect(findKotlinPlugin('plugins {\n  java\n  id("org.springframework.boot") version "3.2.3"\n}')).toBeNull();
+  });
+});
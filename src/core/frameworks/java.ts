@@ -0,0 +1,86 @@
+/**
+ * Parsers for Maven and Gradle build files
+ * Dependencies are keyed by artifactId, which is what framework and data layer tables match on.
+ */
+
+/**
+ * artifactIds of the dependencies of a pom.xml, including those only managed in dependencyManagement
+ */
+export const parseMavenArtifacts = (content: string): Set<string> => {
+  const artifacts = new Set<string>();
+  const withoutComments = content.replace(/<!--[\s\S]*?-->/g, '');
+  for (const [, block] of withoutComments.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g)) {
+    const artifactId = block.match(/<artifactId>\s*([^<\s]+)\s*<\/artifactId>/)?.[1];
+    if (artifactId) artifacts.add(artifactId);
+  }
+  return artifacts;
+};
+
+/**
+ * artifactIds of the dependencies of a build.gradle, from `group:artifact:version` strings
+ * and the `group: '…', name: '…'` map notation
+ */
+export const parseGradleArtifacts = (content: string): Set<string> => {
+  const artifacts = new Set<string>();
+  const withoutComments = content.replace(/\/\*[\s\S]*?\*\//g, '').replace(/(^|\s)\/\/.*$/gm, '$1');
+  for (const [, artifactId] of withoutComments.matchAll(/["'][\w.-]+:([\w.-]+)(?::[^"']*)?["']/g)) {
+    artifacts.add(artifactId);
+  }
+  for (const [, artifactId] of withoutComments.matchAll(/\bname\s*:\s*["']([\w.-]+)["']/g)) {
+    artifacts.add(artifactId);
+  }
+  return artifacts;
+};
+
+/**
+ * Module folders of a pom.xml's `<modules>`, relative to it
+ * A module may also name its pom file (`api/pom.xml`), which is reduced to the folder
+ */
+export const parseMavenModules = (content: string): string[] => {
+  const withoutComments = content.replace(/<!--[\s\S]*?-->/g, '');
+  const block = withoutComments.match(/<modules>([\s\S]*?)<\/modules>/)?.[1] ?? '';
+  return [...block.matchAll(/<module>\s*([^<]+?)\s*<\/module>/g)]
+    .map(([, module]) => module.replace(/\\/g, '/').replace(/\/?pom\.xml$/, '').replace(/\/+$/, ''))
+    .filter(Boolean);
+};
+
+/**
+ * The `<parent>` of a pom.xml, with the path Maven looks for it at
+ *
+ * @returns relativePath is null when `<relativePath/>` is empty, i.e. the parent only comes from a repository
+ */
+export const parseMavenParent = (content: string): { artifactId: string; relativePath: string | null } | null => {
+  const block = content.replace(/<!--[\s\S]*?-->/g, '').match(/<parent>([\s\S]*?)<\/parent>/)?.[1];
+  const artifactId = block?.match(/<artifactId>\s*([^<\s]+)\s*<\/artifactId>/)?.[1];
+  if (!block || !artifactId) return null;
+
+  const relativePath = block.match(/<relativePath\s*\/>|<relativePath>\s*([^<]*?)\s*<\/relativePath>/);
+  if (!relativePath) return { artifactId, relativePath: '../pom.xml' };
+  const value = relativePath[1]?.replace(/\\/g, '/');
+  if (!value) return { artifactId, relativePath: null };
+  return { artifactId, relativePath: value.endsWith('.xml') ? value : `${value.replace(/\/+$/, '')}/pom.xml` };
+};
+
+/**
+ * Project folders a settings.gradle(.kts) includes, in both DSLs (`include(":api", ":lib:util")`, `include 'web'`)
+ * Gradle maps the project path `:lib:util` to the folder lib/util
+ */
+export const parseGradleSettings = (content: string): string[] => {
+  const projects = new Set<string>();
+  const withoutComments = content.replace(/\/\*[\s\S]*?\*\//g, '').replace(/(^|\s)\/\/.*$/gm, '$1');
+  for (const [, list] of withoutComments.matchAll(/^\s*include\s*(\([^)]*\)|[^\n]*)/gm)) {
+    for (const [, project] of list.matchAll(/["']([^"']+)["']/g)) {
+      const folder = project.replace(/^:/, '').replace(/:/g, '/');
+      if (folder) projects.add(folder);
+    }
+  }
+  return [...projects];
+};
+
+/**
+ * The Kotlin Gradle or Maven plugin a build file applies, which makes the project a Kotlin one
+ *
+ * @returns The plugin as written, e.g. `kotlin("jvm")`
+ */
+export const findKotlinPlugin = (content: string): string | null =>
+  content.match(/\bkotlin\s*\(\s*["'][\w.-]+["']\s*\)|\borg\.jetbrains\.kotlin\.[\w.-]+|\bkotlin-maven-plugin\b/)?.[0] ?? null;
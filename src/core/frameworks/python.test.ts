@@ -0,0 +1,142 @@
+import { describe, test, expect } from 'vitest';
+import {
+  normalizePythonName,
+  parsePipfile,
+  parsePyproject,
+  parseRequirement,
+  parseRequirementsFile,
+  specifierVersion,
+} from './python';
+
+describe('parseRequirement', () => {
+  test('reads names, extras, specifiers and markers', () => {
+    expect(parseRequirement('Django[argon2, bcrypt] >= 4.2, < 5 ; python_version >= "3.10"')).toEqual({
+      name: 'Django',
+      extras: ['argon2', 'bcrypt'],
+      specifier: '>=4.2,<5',
+      marker: 'python_version >= "3.10"',
+    });
+    expect(parseRequirement('flask')).toEqual({ name: 'flask', extras: [], specifier: '' });
+    expect(parseRequirement('fastapi (>=0.110)')?.specifier).toBe('>=0.110');
+    expect(parseRequirement('django @ https://example.com/django.zip')).toMatchObject({ name: 'django', specifier: '' });
+  });
+
+  test('rejects text that is not a requirement', () => {
+    expect(parseRequirement('uses django for the admin')).toBeNull();
+    expect(parseRequirement('')).toBeNull();
+  });
+});
+
+describe('specifierVersion', () => {
+  test('takes the lower bound of PEP 440 and Poetry constraints', () => {
+    expect(specifierVersion('==4.2.1')).toBe('4.2.1');
+    expect(specifierVersion('<5,>=4.2')).toBe('4.2');
+    expect(specifierVersion('~=0.110')).toBe('0.110');
+    expect(specifierVersion('^5.0')).toBe('^5.0');
+    expect(specifierVersion('5.0.1')).toBe('5.0.1');
+    expect(specifierVersion('<5')).toBeNull();
+    expect(specifierVersion('')).toBeNull();
+  });
+});
+
+describe('parseRequirementsFile', () => {
+  test('skips comments and options, follows continuations and collects includes', () => {
+    const { requirements, includes } = parseRequirementsFile(
+      [
+        '# django is pinned in base.txt',
+        '-r base.txt',
+        '--requirement=dev.txt',
+        '-c constraints.txt',
+        '--index-url https://pypi.example.com/simple',
+        'flask-cors==4.0.0  # not flask',
+        'fastapi==0.110.0 \\',
+        '    --hash=sha256:abc',
+        '-e git+https://github.com/org/lib.git#egg=internal-lib',
+        '-e .',
+      ].join('\n')
+    );
+    expect(includes).toEqual(['base.txt', 'dev.txt']);
+    expect(requirements.map(r => [r.name, r.specifier])).toEqual([
+      ['flask-cors', '==4.0.0'],
+      ['fastapi', '==0.110.0'],
+      ['internal-lib', ''],
+    ]);
+  });
+});
+
+describe('parsePipfile', () => {
+  test('reads packages and dev-packages', () => {
+    const pipfile = parsePipfile(
+      '[[source]]\nurl = "https://pypi.org/simple"\n\n[packages]\nDjango = "==4.2.9"\nflask-cors = {version = ">=4", extras = ["x"]}\nlib = {git = "https://example.com/lib.git"}\n\n[dev-packages]\npytest = "*"\n\n[requires]\npython_version = "3.11"\n'
+    );
+    expect(pipfile).toEqual(
+      new Map([
+        ['django', '==4.2.9'],
+        ['flask-cors', '>=4'],
+        ['lib', ''],
+        ['pytest', ''],
+      ])
+    );
+  });
+
+  test('returns null for invalid TOML', () => {
+    expect(parsePipfile('fastapi')).toBeNull();
+  });
+});
+
+describe('parsePyproject', () => {
+  test('reads PEP 621 dependencies, extras and dependency groups', () => {
+    const deps = parsePyproject(`
+[project]
+name = "api"
+dependencies = ["FastAPI>=0.110", "uvicorn[standard]"]
+
+[project.optional-dependencies]
+admin = ["django>=4.2"]
+
+[dependency-groups]
+test = ["pytest>=8", { include-group = "lint" }]
+lint = ["ruff"]
+
+[tool.uv]
+dev-dependencies = ["mypy"]
+
+[tool.pdm.dev-dependencies]
+docs = ["mkdocs"]
+`);
+    expect([...(deps?.keys() ?? [])]).toEqual(['fastapi', 'uvicorn', 'django', 'pytest', 'ruff', 'mypy', 'mkdocs']);
+    expect(deps?.get('fastapi')).toBe('>=0.110');
+  });
+
+  test('reads Poetry dependencies and groups, skipping python', () => {
+    const deps = parsePyproject(`
+[tool.poetry.dependencies]
+python = "^3.11"
+Django = { version = "^5.0", extras = ["argon2"] }
+psycopg = [{ version = "^3.1", python = ">=3.8" }]
+
+[tool.poetry.group.dev.dependencies]
+django = "^4.0"
+pytest = "^8.0"
+`);
+    expect(deps).toEqual(
+      new Map([
+        ['django', '^5.0'],
+        ['psycopg', '^3.1'],
+        ['pytest', '^8.0'],
+      ])
+    );
+  });
+
+  test('ignores sections with an unexpected shape and rejects invalid TOML', () => {
+    expect(parsePyproject('[project]\ndependencies = "django"\n\n[tool.poetry.dependencies]\nflask = "^3"')).toEqual(
+      new Map([['flask', '^3']])
+    );
+    expect(parsePyproject('[tool.poetry]\ndependencies = ["django"')).toBeNull();
+  });
+});
+
+test('normalizePythonName follows PEP 503', () => {
+  expect(normalizePythonName('Flask_SQLAlchemy')).toBe('flask-sqlalchemy');
+  expect(normalizePythonName('zope.interface')).toBe('zope-interface');
+});
@@ -0,0 +1,224 @@
+import { parse as parseToml } from 'smol-toml';
+import { z } from 'zod';
+
+/**
+ * Parsers for Python dependency files: requirements.txt, Pipfile and pyproject.toml
+ * Each turns a file into a map of normalized package name → version specifier
+ * ('' when the dependency is not pinned), so detectors match whole package names
+ * instead of substrings (`flask-cors` is not `flask`).
+ */
+
+export type PythonDependencies = Map<string, string>;
+
+/** A PEP 508 requirement such as `Django[argon2]>=4.2,<5; python_version >= "3.10"` */
+export interface PythonRequirement {
+  name: string;
+  extras: string[];
+  /** Version specifier without spaces, e.g. `>=4.2,<5`; '' for none or a direct URL */
+  specifier: string;
+  /** Environment marker after `;`, kept as written (not evaluated) */
+  marker?: string;
+}
+
+/** A requirements file: its requirements and the files it includes with -r */
+export interface RequirementsFile {
+  requirements: PythonRequirement[];
+  includes: string[];
+}
+
+/**
+ * Normalize a package name as PEP 503 does: case-insensitive, runs of -, _ and . are equal
+ */
+export const normalizePythonName = (name: string): string => name.toLowerCase().replace(/[-_.]+/g, '-');
+
+/**
+ * Parse one PEP 508 requirement
+ *
+ * @returns null when the text is not a requirement
+ */
+export const parseRequirement = (text: string): PythonRequirement | null => {
+  const match = text.trim().match(/^([A-Za-z0-9](?:[A-Za-z0-9._-]*[A-Za-z0-9])?)\s*(?:\[([^\]]*)\])?\s*([^;]*?)\s*(?:;\s*(.*))?$/);
+  if (!match) return null;
+  const [, name, extras = '', rest, marker] = match;
+
+  // `name @ https://...` is a direct reference and carries no specifier
+  const specifier = rest.startsWith('@') ? '' : rest.replace(/^\((.*)\)$/, '$1').replace(/\s+/g, '');
+  if (specifier && !/^(===?|~=|!=|<=?|>=?)\s*[\w.*+!-]+(,(===?|~=|!=|<=?|>=?)[\w.*+!-]+)*$/.test(specifier)) {
+    return null;
+  }
+
+  return {
+    name,
+    extras: extras.split(',').map(extra => extra.trim()).filter(Boolean),
+    specifier,
+    ...(marker && { marker: marker.trim() }),
+  };
+};
+
+/**
+ * Lowest version a specifier allows, for PEP 440 (`==4.2.1`, `>=4.2,<5`, `~=4.2`)
+ * and Poetry constraints (`^4.2`, `~4.2`, `4.2.1`)
+ *
+ * @returns The version as written, or null when the specifier has no lower bound
+ */
+export const specifierVersion = (specifier: string): string | null => {
+  const clause = specifier.match(/(?:===?|~=|>=)\s*v?(\d+(?:\.\d+)*)/);
+  if (clause) return clause[1];
+  const poetry = specifier.trim();
+  return /^[\^~]?\d/.test(poetry) ? poetry : null;
+};
+
+/**
+ * Parse a requirements.txt
+ * Handles comments, `\` continuations, per-line options (`--hash=...`), `-r`/`--requirement`
+ * includes, and `#egg=` names on editable and URL lines. Constraint files (`-c`) and other
+ * options are skipped since they do not add dependencies.
+ */
+export const parseRequirementsFile = (content: string): RequirementsFile => {
+  const requirements: PythonRequirement[] = [];
+  const includes: string[] = [];
+
+  const lines = content.replace(/\\\r?\n/g, ' ').split(/\r?\n/);
+  for (const rawLine of lines) {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+    if (!line) continue;
+
+    const include = line.match(/^(?:-r|--requirement)(?:\s+|=)?(\S+)$/);
+    if (include) {
+      includes.push(include[1]);
+      continue;
+    }
+
+    const egg = rawLine.match(/#egg=([A-Za-z0-9._-]+)/);
+    if (line.startsWith('-e') || line.startsWith('--editable') || /^[a-z+]+:\/\//i.test(line)) {
+      if (egg) requirements.push({ name: egg[1], extras: [], specifier: '' });
+      continue;
+    }
+    if (line.startsWith('-')) continue;
+
+    const requirement = parseRequirement(line.replace(/\s--[\w-]+(?:[=\s]\S+)?/g, ''));
+    if (requirement) requirements.push(requirement);
+  }
+
+  return { requirements, includes };
+};
+
+/** The first declaration of a package wins, so main dependencies take precedence over groups */
+const addDependency = (dependencies: PythonDependencies, name: string, specifier: string): void => {
+  const key = normalizePythonName(name);
+  if (!dependencies.has(key)) {
+    dependencies.set(key, specifier === '*' ? '' : specifier);
+  }
+};
+
+const addRequirements = (dependencies: PythonDependencies, requirements: unknown[] = []): void => {
+  for (const item of requirements) {
+    const requirement = typeof item === 'string' ? parseRequirement(item) : null;
+    if (requirement) addDependency(dependencies, requirement.name, requirement.specifier);
+  }
+};
+
+/** `"^4.2"`, `{ version = "^4.2", extras = [...] }`, `{ git = "..." }` or a list of those */
+const TableDependencySchema = z.union([
+  z.string(),
+  z.object({ version: z.string().optional() }),
+  z.array(z.object({ version: z.string().optional() })),
+]);
+const DependencyTableSchema = z.record(z.string(), TableDependencySchema);
+
+const addDependencyTable = (dependencies: PythonDependencies, table: z.infer<typeof DependencyTableSchema> = {}): void => {
+  for (const [name, value] of Object.entries(table)) {
+    // Poetry lists the interpreter constraint among the dependencies
+    if (name.toLowerCase() === 'python') continue;
+    const version = typeof value === 'string' ? value : Array.isArray(value) ? value[0]?.version : value.version;
+    addDependency(dependencies, name, version ?? '');
+  }
+};
+
+const parseTomlSafe = (content: string): unknown => {
+  try {
+    return parseToml(content);
+  } catch {
+    return null;
+  }
+};
+
+const PipfileSchema = z.object({
+  packages: DependencyTableSchema.optional().catch(undefined),
+  'dev-packages': DependencyTableSchema.optional().catch(undefined),
+});
+
+/**
+ * Parse a Pipfile's [packages] and [dev-packages]
+ *
+ * @returns null when the file is not valid TOML
+ */
+export const parsePipfile = (content: string): PythonDependencies | null => {
+  const toml = parseTomlSafe(content);
+  if (toml === null) return null;
+  const pipfile = PipfileSchema.parse(toml);
+
+  const dependencies: PythonDependencies = new Map();
+  addDependencyTable(dependencies, pipfile.packages);
+  addDependencyTable(dependencies, pipfile['dev-packages']);
+  return dependencies;
+};
+
+const RequirementListSchema = z.array(z.unknown());
+const RequirementGroupsSchema = z.record(z.string(), RequirementListSchema);
+
+const PyprojectSchema = z.object({
+  project: z
+    .object({
+      dependencies: RequirementListSchema.optional().catch(undefined),
+      'optional-dependencies': RequirementGroupsSchema.optional().catch(undefined),
+    })
+    .optional()
+    .catch(undefined),
+  // PEP 735, used by uv and PDM
+  'dependency-groups': RequirementGroupsSchema.optional().catch(undefined),
+  tool: z
+    .object({
+      poetry: z
+        .object({
+          dependencies: DependencyTableSchema.optional().catch(undefined),
+          'dev-dependencies': DependencyTableSchema.optional().catch(undefined),
+          group: z
+            .record(z.string(), z.object({ dependencies: DependencyTableSchema.optional().catch(undefined) }))
+            .optional()
+            .catch(undefined),
+        })
+        .optional()
+        .catch(undefined),
+      uv: z.object({ 'dev-dependencies': RequirementListSchema.optional().catch(undefined) }).optional().catch(undefined),
+      pdm: z.object({ 'dev-dependencies': RequirementGroupsSchema.optional().catch(undefined) }).optional().catch(undefined),
+    })
+    .optional()
+    .catch(undefined),
+});
+
+/**
+ * Parse the dependencies of a pyproject.toml: PEP 621 `[project]` dependencies and extras,
+ * PEP 735 `[dependency-groups]`, Poetry's `[tool.poetry.dependencies]` and groups, and
+ * the uv and PDM dev-dependencies. Sections with an unexpected shape are ignored.
+ *
+ * @returns null when the file is not valid TOML
+ */
+export const parsePyproject = (content: string): PythonDependencies | null => {
+  const toml = parseTomlSafe(content);
+  if (toml === null) return null;
+  const { project, tool, 'dependency-groups': dependencyGroups } = PyprojectSchema.parse(toml);
+
+  const dependencies: PythonDependencies = new Map();
+  addRequirements(dependencies, project?.dependencies);
+  addDependencyTable(dependencies, tool?.poetry?.dependencies);
+
+  Object.values(project?.['optional-dependencies'] ?? {}).forEach(group => addRequirements(dependencies, group));
+  Object.values(dependencyGroups ?? {}).forEach(group => addRequirements(dependencies, group));
+  addDependencyTable(dependencies, tool?.poetry?.['dev-dependencies']);
+  Object.values(tool?.poetry?.group ?? {}).forEach(group => addDependencyTable(dependencies, group.dependencies));
+  addRequirements(dependencies, tool?.uv?.['dev-dependencies']);
+  Object.values(tool?.pdm?.['dev-dependencies'] ?? {}).forEach(group => addRequirements(dependencies, group));
+
+  return dependencies;
+};
@@ -0,0 +1,80 @@
+import { describe, test, expect } from 'vitest';
+import { gemRequirementVersion, parseGemfile, parseGemfileLock } from './ruby';
+
+describe('parseGemfile', () => {
+  test('reads gems and their requirements across groups, ignoring options', () => {
+    const gems = parseGemfile(`source "https://rubygems.org"
+ruby "3.2.2"
+
+# gem "sinatra" would be nice
+gem "rails", "~> 7.1.2"
+gem 'pg', '~> 1.1', '>= 1.1.4'
+gem "puma", require: false
+gem("bootsnap", ">= 1.4.4", require: false)
+
+group :development, :test do
+  gem "rails-controller-testing"
+end
+`);
+    expect(gems).toEqual(
+      new Map([
+        ['rails', '~> 7.1.2'],
+        ['pg', '~> 1.1, >= 1.1.4'],
+        ['puma', ''],
+        ['bootsnap', '>= 1.4.4'],
+        ['rails-controller-testing', ''],
+      ])
+    );
+  });
+});
+
+describe('parseGemfileLock', () => {
+  test('reads top-level specs and dependencies', () => {
+    const lock = parseGemfileLock(`GIT
+  remote: https://github.com/acme/auth.git
+  revision: abc123
+  specs:
+    acme-auth (0.3.0)
+
+GEM
+  remote: https://rubygems.org/
+  specs:
+    actionpack (7.1.2)
+      rack (>= 2.2.4)
+    nokogiri (1.15.5-x86_64-linux)
+    rack (3.0.8)
+    sinatra (3.1.0)
+      rack (~> 2.2, >= 2.2.4)
+
+PLATFORMS
+  x86_64-linux
+
+DEPENDENCIES
+  acme-auth!
+  sinatra (~> 3.1)
+
+BUNDLED WITH
+   2.4.10
+`);
+    expect(lock.specs).toEqual(
+      new Map([
+        ['acme-auth', '0.3.0'],
+        ['actionpack', '7.1.2'],
+        ['nokogiri', '1.15.5-x86_64-linux'],
+        ['rack', '3.0.8'],
+        ['sinatra', '3.1.0'],
+      ])
+    );
+    expect(lock.dependencies).toEqual(new Map([['acme-auth', ''], ['sinatra', '~> 3.1']]));
+  });
+});
+
+describe('gemRequirementVersion', () => {
+  test('takes the lower bound of a requirement', () => {
+    expect(gemRequirementVersion('~> 7.1.2')).toBe('7.1.2');
+    expect(gemRequirementVersion('< 8, >= 7.0')).toBe('7.0');
+    expect(gemRequirementVersion('= 3.0.0.rc1')).toBe('3.0.0.rc1');
+    expect(gemRequirementVersion('< 8')).toBeNull();
+    expect(gemRequirementVersion('')).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Parsers for Bundler's Gemfile and Gemfile.lock
+ * Gems are keyed by their exact name; requirements are joined as Bundler prints them (`~> 7.1, >= 7.1.2`).
+ */
+
+export interface GemfileLock {
+  /** Resolved version of every gem in the GEM, GIT and PATH sections */
+  specs: Map<string, string>;
+  /** The DEPENDENCIES section: gems the Gemfile asks for, with their requirements */
+  dependencies: Map<string, string>;
+}
+
+/**
+ * Read the `gem` declarations of a Gemfile, across groups and platforms
+ * Requirements are the quoted strings after the name, before any option (`require: false`)
+ */
+export const parseGemfile = (content: string): Map<string, string> => {
+  const gems = new Map<string, string>();
+  for (const line of content.split(/\r?\n/)) {
+    const gem = line.match(/^\s*gem\s*\(?\s*(["'])([^"']+)\1((?:\s*,\s*(["'])[^"']*\4)*)/);
+    if (!gem || gems.has(gem[2])) continue;
+    const requirements = [...gem[3].matchAll(/(["'])([^"']*)\1/g)].map(match => match[2].trim());
+    gems.set(gem[2], requirements.join(', '));
+  }
+  return gems;
+};
+
+/**
+ * Read the resolved specs and the DEPENDENCIES of a Gemfile.lock
+ */
+export const parseGemfileLock = (content: string): GemfileLock => {
+  const lock: GemfileLock = { specs: new Map(), dependencies: new Map() };
+  let section = '';
+  let inSpecs = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (/^\S/.test(line)) {
+      section = line.trim();
+      inSpecs = false;
+      continue;
+    }
+
+    if (['GEM', 'GIT', 'PATH'].includes(section)) {
+      if (/^ {2}specs:\s*$/.test(line)) {
+        inSpecs = true;
+        continue;
+      }
+      // Top-level specs have four spaces; their own dependencies are indented further
+      const spec = inSpecs && line.match(/^ {4}([^\s(]+) \(([^)]+)\)\s*$/);
+      if (spec && !lock.specs.has(spec[1])) lock.specs.set(spec[1], spec[2]);
+    } else if (section === 'DEPENDENCIES') {
+      const dependency = line.match(/^ {2}([^\s(!]+)!?(?: \(([^)]+)\))?\s*$/);
+      if (dependency) lock.dependencies.set(dependency[1], dependency[2] ?? '');
+    }
+  }
+
+  return lock;
+};
+
+/**
+ * Lowest version a gem requirement allows (`~> 7.1.2`, `>= 7, < 8`, `= 3.0`, `7.1`)
+ *
+ * @returns The version as written, or null when the requirement has no lower bound
+ */
+export const gemRequirementVersion = (requirement: string): string | null =>
+  requirement.match(/(?:^|,)\s*(?:~>|>=|=)?\s*(\d+(?:\.\w+)*)/)?.[1] ?? null;
@@ -0,0 +1,63 @@
+import { describe, test, expect } from 'vitest';
+import { parseCargoToml } from './rust';
+
+describe('parseCargoToml', () => {
+  test('reads dependencies from every section, keyed by crate name', () => {
+    const manifest = parseCargoToml(`
+[package]
+name = "api"
+version = "0.1.0"
+
+[dependencies]
+axum = "0.7"
+web = { package = "actix-web", version = "4.4" }
+tokio = { version = "1", features = ["full"] }
+shared = { path = "../shared" }
+
+[dev-dependencies]
+axum = "0.6"
+insta = "1.34"
+
+[target.'cfg(unix)'.dependencies]
+nix = "0.27"
+`);
+    expect(manifest?.package).toBe('api');
+    expect(manifest?.workspace).toBeUndefined();
+    expect(manifest?.dependencies).toEqual(
+      new Map([
+        ['axum', { requirement: '0.7', section: 'dependencies' }],
+        ['actix-web', { requirement: '4.4', section: 'dependencies' }],
+        ['tokio', { requirement: '1', section: 'dependencies' }],
+        ['shared', { requirement: '', section: 'dependencies' }],
+        ['insta', { requirement: '1.34', section: 'dev-dependencies' }],
+        ['nix', { requirement: '0.27', section: "target.cfg(unix).dependencies" }],
+      ])
+    );
+  });
+
+  test('reads a virtual workspace and lets members inherit its dependencies', () => {
+    const root = parseCargoToml(`
+[workspace]
+members = ["crates/*"]
+exclude = ["crates/legacy"]
+
+[workspace.dependencies]
+axum = "0.7.4"
+sqlx = { version = "0.7", features = ["postgres"] }
+`);
+    expect(root?.package).toBeUndefined();
+    expect(root?.workspace?.members).toEqual(['crates/*']);
+    expect(root?.workspace?.exclude).toEqual(['crates/legacy']);
+
+    const member = parseCargoToml('[package]\nname = "server"\n\n[dependencies]\naxum.workspace = true\nsqlx = { workspace = true }\n', root?.workspace?.dependencies);
+    expect(member?.dependencies.get('axum')).toEqual({ requirement: '0.7.4', section: 'dependencies' });
+    expect(member?.dependencies.get('sqlx')?.requirement).toBe('0.7');
+  });
+
+  test('returns null for invalid TOML and ignores malformed sections', () => {
+    expect(parseCargoToml('[dependencies\naxum = "0.7"')).toBeNull();
+    expect(parseCargoToml('dependencies = "axum"\n\n[dev-dependencies]\nrocket = "0.5"')?.dependencies).toEqual(
+      new Map([['rocket', { requirement: '0.5', section: 'dev-dependencies' }]])
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import { parse as parseToml } from 'smol-toml';
+import { z } from 'zod';
+
+/**
+ * Parser for Cargo.toml manifests
+ * Dependencies are keyed by crate name, so renamed dependencies (`web = { package = "actix-web" }`)
+ * match under the crate they really are.
+ */
+
+export interface CargoDependency {
+  /** Version requirement (`0.7`, `^4.4`), '' for path or git dependencies without one */
+  requirement: string;
+  /** Manifest section it was declared in, e.g. `dependencies` or `dev-dependencies` */
+  section: string;
+}
+
+export interface CargoWorkspace {
+  /** Member folders, possibly globs (`crates/*`) */
+  members: string[];
+  exclude: string[];
+  /** Shared [workspace.dependencies] that members inherit with `workspace = true` */
+  dependencies: Map<string, CargoDependency>;
+}
+
+export interface CargoManifest {
+  /** [package] name; unset for a virtual workspace manifest */
+  package?: string;
+  dependencies: Map<string, CargoDependency>;
+  workspace?: CargoWorkspace;
+}
+
+const DEPENDENCY_SECTIONS = ['dependencies', 'dev-dependencies', 'build-dependencies'] as const;
+
+const DependencySchema = z.union([
+  z.string(),
+  z.object({
+    version: z.string().optional(),
+    package: z.string().optional(),
+    workspace: z.boolean().optional(),
+  }),
+]);
+const DependencyTableSchema = z.record(z.string(), DependencySchema).optional().catch(undefined);
+
+const DependencySectionsSchema = z.object({
+  dependencies: DependencyTableSchema,
+  'dev-dependencies': DependencyTableSchema,
+  'build-dependencies': DependencyTableSchema,
+});
+
+const CargoTomlSchema = DependencySectionsSchema.extend({
+  package: z.object({ name: z.string().optional() }).optional().catch(undefined),
+  target: z.record(z.string(), DependencySectionsSchema).optional().catch(undefined),
+  workspace: z
+    .object({
+      members: z.array(z.string()).optional().catch(undefined),
+      exclude: z.array(z.string()).optional().catch(undefined),
+      dependencies: DependencyTableSchema,
+    })
+    .optional()
+    .catch(undefined),
+});
+
+type DependencyTable = z.infer<typeof DependencyTableSchema>;
+
+/**
+ * @param inherited - Workspace dependencies that entries with `workspace = true` take their requirement from
+ */
+const addDependencies = (
+  dependencies: Map<string, CargoDependency>,
+  table: DependencyTable,
+  section: string,
+  inherited?: Map<string, CargoDependency>
+): void => {
+  for (const [key, value] of Object.entries(table ?? {})) {
+    const name = typeof value === 'string' ? key : value.package ?? key;
+    if (dependencies.has(name)) continue;
+    const requirement =
+      typeof value === 'string'
+        ? value
+        : value.workspace
+          ? inherited?.get(name)?.requirement ?? ''
+          : value.version ?? '';
+    dependencies.set(name, { requirement, section });
+  }
+};
+
+/**
+ * Parse a Cargo.toml: package, dependencies (including per-target ones) and workspace
+ *
+ * @param inherited - The workspace root's [workspace.dependencies], when parsing a member
+ * @returns null when the file is not valid TOML
+ */
+export const parseCargoToml = (content: string, inherited?: Map<string, CargoDependency>): CargoManifest | null => {
+  let toml: unknown;
+  try {
+    toml = parseToml(content);
+  } catch {
+    return null;
+  }
+  const cargo = CargoTomlSchema.parse(toml);
+
+  const manifest: CargoManifest = { dependencies: new Map() };
+  if (cargo.package?.name) manifest.package = cargo.package.name;
+
+  if (cargo.workspace) {
+    const shared = new Map<string, CargoDependency>();
+    addDependencies(shared, cargo.workspace.dependencies, 'workspace.dependencies');
+    manifest.workspace = {
+      members: cargo.workspace.members ?? [],
+      exclude: cargo.workspace.exclude ?? [],
+      dependencies: shared,
+    };
+  }
+
+  const workspaceDependencies = inherited ?? manifest.workspace?.dependencies;
+  for (const section of DEPENDENCY_SECTIONS) {
+    addDependencies(manifest.dependencies, cargo[section], section, workspaceDependencies);
+  }
+  for (const [target, sections] of Object.entries(cargo.target ?? {})) {
+    for (const section of DEPENDENCY_SECTIONS) {
+      addDependencies(manifest.dependencies, sections[section], `target.${target}.${section}`, workspaceDependencies);
+    }
+  }
+
+  return manifest;
+};
@@ -0,0 +1,112 @@
+import fs from 'fs-extra';
+import { tmpdir } from 'os';
+import path from 'path';
+import { describe, test, expect } from 'vitest';
+import { collectSignals, combineSignals, countSourceFiles, isAmbiguous, SIGNAL_WEIGHTS } from './scoring';
+import { Evidence } from './detector';
+
+async function withTempDir(fn: (dir: string) => Promise<void>) {
+  const dir = await fs.mkdtemp(path.join(tmpdir(), 'scoring-test-'));
+  try {
+    await fn(dir);
+  } finally {
+    await fs.remove(dir);
+  }
+}
+
+describe('combineSignals', () => {
+  test('is a noisy-OR of the weights', () => {
+    expect(combineSignals([])).toBe(0);
+    expect(combineSignals([0.6])).toBeCloseTo(0.6);
+    expect(combineSignals([0.5, 0.5])).toBeCloseTo(0.75);
+    expect(combineSignals([0.3, 0.6, 0.4])).toBeCloseTo(1 - 0.7 * 0.4 * 0.6);
+  });
+
+  test('never leaves [0, 1] and only grows with more evidence', () => {
+    expect(combineSignals([2, -1])).toBe(1);
+    expect(combineSignals([0.3, 0.1])).toBeGreaterThan(combineSignals([0.3]));
+  });
+});
+
+describe('isAmbiguous', () => {
+  test('flags top candidates within the margin', () => {
+    expect(isAmbiguous([{ score: 0.9 }])).toBe(false);
+    expect(isAmbiguous([{ score: 0.9 }, { score: 0.85 }])).toBe(true);
+    expect(isAmbiguous([{ score: 0.9 }, { score: 0.6 }])).toBe(false);
+  });
+});
+
+describe('collectSignals', () => {
+  test('weights evidence, lockfiles and source files, ignoring misses', async () => {
+    await withTempDir(async dir => {
+      await fs.writeFile(path.join(dir, 'poetry.lock'), '');
+      const signals = await collectSignals(
+        dir,
+        { language: 'python', framework: 'django' },
+        [
+          { kind: 'file', message: 'read pyproject.toml', file: 'pyproject.toml' },
+          { kind: 'dependency', message: '"django" → django', file: 'pyproject.toml' },
+          { kind: 'miss', message: 'no confidenceBoost indicator' },
+        ],
+        { '.py': 63, '.ts': 10 }
+      );
+
+      expect(signals.map(signal => [signal.kind, signal.weight])).toEqual([
+        ['file', SIGNAL_WEIGHTS.file],
+        ['dependency', SIGNAL_WEIGHTS.dependency],
+        ['lockfile', SIGNAL_WEIGHTS.lockfile],
+        ['sources', SIGNAL_WEIGHTS.sources],
+      ]);
+      expect(signals[3].message).toMatch(/^63 \.py/);
+    });
+  });
+  test('weighs build tool wrappers below a lockfile', async () => {
+    await withTempDir(async dir => {
+      await fs.writeFile(path.join(dir, 'mvnw'), '');
+      await fs.writeFile(path.join(dir, 'gradlew'), '');
+      await fs.writeFile(path.join(dir, 'gradle.lockfile'), '');
+
+      const signals = await collectSignals(dir, { language: 'kotlin', framework: 'ktor' }, [], {});
+
+      expect(signals.map(signal => [signal.kind, signal.file, signal.weight])).toEqual([
+        ['lockfile', 'gradle.lockfile', SIGNAL_WEIGHTS.lockfile],
+        ['wrapper', 'mvnw', SIGNAL_WEIGHTS.wrapper],
+        ['wrapper', 'gradlew', 0],
+      ]);
+      expect(SIGNAL_WEIGHTS.wrapper).toBeLessThan(SIGNAL_WEIGHTS.lockfile);
+    });
+  });
+
+  test('counts each kind once, so many files do not outrank a dependency', async () => {
+    await withTempDir(async dir => {
+      const score = async (evidence: Evidence[]) =>
+        combineSignals(
+          (await collectSignals(dir, { language: 'java', framework: 'spring' }, evidence, {})).map(signal => signal.weight)
+        );
+      const files: Evidence[] = Array.from({ length: 10 }, (_, i) => ({
+        kind: 'file',
+        message: `read module${i}/pom.xml (module)`,
+        file: `module${i}/pom.xml`,
+      }));
+
+      const manyFiles = await score(files);
+      const dependency = await score([files[0], { kind: 'dependency', message: '"spring-boot-starter" → spring' }]);
+
+      expect(manyFiles).toBeCloseTo(SIGNAL_WEIGHTS.file);
+      expect(dependency).toBeGreaterThan(manyFiles);
+    });
+  });
+});
+
+describe('countSourceFiles', () => {
+  test('counts by extension and skips dependency folders', async () => {
+    await withTempDir(async dir => {
+      await fs.outputFile(path.join(dir, 'src', 'app.ts'), '');
+      await fs.outputFile(path.join(dir, 'src', 'app.spec.ts'), '');
+      await fs.outputFile(path.join(dir, 'manage.py'), '');
+      await fs.outputFile(path.join(dir, 'node_modules', 'dep', 'index.js'), '');
+
+      expect(await countSourceFiles(dir)).toEqual({ '.ts': 2, '.py': 1 });
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { DetectedStack, Evidence } from './detector.js';
+
+/**
+ * How much each kind of evidence says about a stack on its own, as the
+ * probability that the stack is right given only that signal
+ * Each kind counts once per stack: ten manifests are no stronger than one
+ */
+export const SIGNAL_WEIGHTS = {
+  /** A manifest the detector reads exists */
+  file: 0.3,
+  /** A framework key matched in that manifest */
+  dependency: 0.6,
+  /** A confidenceBoost indicator fired */
+  boost: 0.4,
+  /** A data layer dependency matched */
+  data: 0.1,
+  /** The framework's version was resolved from a manifest or lockfile */
+  version: 0.1,
+  /** A Bun or Deno file or setting picked the runtime */
+  runtime: 0.1,
+  /** A Kotlin plugin or source folder marked a JVM stack as Kotlin */
+  language: 0.1,
+  /** An SDK, package or startup call picked the .NET app model */
+  appModel: 0.1,
+  /** A lockfile for the language's package manager exists */
+  lockfile: 0.25,
+  /** A build tool wrapper script exists: it says which build tool, not which dependencies */
+  wrapper: 0.1,
+  /** Upper bound for source files in the language, reached at around 64 files */
+  sources: 0.5,
+} as const;
+
+/** Top candidates scoring within this margin of each other are ambiguous */
+export const AMBIGUITY_MARGIN = 0.1;
+
+/**
+ * Whether the best two candidates are too close to pick one without asking
+ *
+ * @param candidates - Candidates sorted by score, best first
+ */
+export const isAmbiguous = (candidates: Array<{ score: number }>): boolean =>
+  candidates.length > 1 && candidates[0].score - candidates[1].score < AMBIGUITY_MARGIN;
+
+interface LanguageSignals {
+  lockfiles: string[];
+  wrappers?: string[];
+  extensions: string[];
+}
+
+const LANGUAGE_SIGNALS: Partial<Record<DetectedStack['language'], LanguageSignals>> = {
+  ts: {
+    lockfiles: ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb', 'bun.lock', 'deno.lock'],
+    extensions: ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'],
+  },
+  python: { lockfiles: ['poetry.lock', 'Pipfile.lock', 'uv.lock', 'pdm.lock'], extensions: ['.py'] },
+  csharp: { lockfiles: ['packages.lock.json'], extensions: ['.cs', '.cshtml', '.razor'] },
+  java: { lockfiles: ['gradle.lockfile'], wrappers: ['mvnw', 'gradlew'], extensions: ['.java'] },
+  kotlin: { lockfiles: ['gradle.lockfile'], wrappers: ['mvnw', 'gradlew'], extensions: ['.kt'] },
+  php: { lockfiles: ['composer.lock'], extensions: ['.php'] },
+  go: { lockfiles: ['go.sum'], extensions: ['.go'] },
+  rust: { lockfiles: ['Cargo.lock'], extensions: ['.rs'] },
+  ruby: { lockfiles: ['Gemfile.lock'], extensions: ['.rb', '.rake', '.erb'] },
+};
+
+const IGNORED_DIRS = new Set(['node_modules', 'dist', 'build', 'vendor', 'target', 'bin', 'obj', '__pycache__']);
+const MAX_SCAN_DEPTH = 3;
+const MAX_SCANNED_FILES = 2000;
+
+/** A piece of evidence with the weight it contributed to a score */
+export interface Signal extends Omit<Evidence, 'kind'> {
+  /** `reported` is a detector's own confidence, used when it gives no evidence */
+  kind: Evidence['kind'] | 'lockfile' | 'wrapper' | 'sources' | 'reported';
+  weight: number;
+}
+
+/**
+ * Combine independent signals with a noisy-OR: the stack is wrong only if
+ * every signal is misleading, so score = 1 - Π(1 - weight)
+ */
+export const combineSignals = (weights: number[]): number =>
+  1 - weights.reduce((wrong, weight) => wrong * (1 - Math.min(Math.max(weight, 0), 1)), 1);
+
+/**
+ * Count source files per extension, a few levels deep, skipping dependency and build folders
+ */
+export const countSourceFiles = async (cwd: string): Promise<Record<string, number>> => {
+  const counts: Record<string, number> = {};
+  let scanned = 0;
+
+  const walk = async (dir: string, depth: number): Promise<void> => {
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      if (scanned >= MAX_SCANNED_FILES) return;
+      if (entry.name.startsWith('.')) continue;
+      if (entry.isDirectory()) {
+        if (depth < MAX_SCAN_DEPTH && !IGNORED_DIRS.has(entry.name)) {
+          await walk(path.join(dir, entry.name), depth + 1);
+        }
+      } else if (entry.isFile()) {
+        scanned++;
+        const ext = path.extname(entry.name);
+        counts[ext] = (counts[ext] ?? 0) + 1;
+      }
+    }
+  };
+
+  await walk(cwd, 0);
+  return counts;
+};
+
+/**
+ * Keep the weight of the first signal of each kind and zero the repeats, so a
+ * detector that reads many files cannot push its score towards 1 on its own
+ * Repeats stay in the list for --explain
+ */
+const countKindsOnce = (signals: Signal[]): Signal[] => {
+  const seen = new Set<Signal['kind']>();
+  return signals.map(signal => {
+    if (seen.has(signal.kind)) return { ...signal, weight: 0 };
+    seen.add(signal.kind);
+    return signal;
+  });
+};
+
+/**
+ * Weigh a detector's evidence together with the lockfiles, build tool wrappers and
+ * source files of its language
+ *
+ * @param cwd - Directory the detector ran in
+ * @param stack - Stack the detector reported
+ * @param evidence - The detector's evidence trail; misses carry no weight
+ * @param sources - Source file counts from countSourceFiles, shared between candidates
+ */
+export const collectSignals = async (
+  cwd: string,
+  stack: DetectedStack,
+  evidence: Evidence[],
+  sources: Record<string, number>
+): Promise<Signal[]> => {
+  const signals: Signal[] = evidence
+    .filter((item): item is Evidence & { kind: keyof typeof SIGNAL_WEIGHTS } => item.kind !== 'miss')
+    .map(item => ({ ...item, weight: SIGNAL_WEIGHTS[item.kind] }));
+
+  const language = LANGUAGE_SIGNALS[stack.language];
+  if (!language) return countKindsOnce(signals);
+
+  for (const lockfile of language.lockfiles) {
+    if (await fs.pathExists(path.join(cwd, lockfile))) {
+      signals.push({ kind: 'lockfile', message: `${lockfile} exists`, file: lockfile, weight: SIGNAL_WEIGHTS.lockfile });
+    }
+  }
+
+  for (const wrapper of language.wrappers ?? []) {
+    if (await fs.pathExists(path.join(cwd, wrapper))) {
+      signals.push({ kind: 'wrapper', message: `${wrapper} exists`, file: wrapper, weight: SIGNAL_WEIGHTS.wrapper });
+    }
+  }
+
+  const count = language.extensions.reduce((sum, ext) => sum + (sources[ext] ?? 0), 0);
+  if (count > 0) {
+    // log-scaled so the first few files matter most: 1 file ≈ 0.08, 64 files = the cap
+    const weight = SIGNAL_WEIGHTS.sources * Math.min(Math.log2(count + 1) / 6, 1);
+    signals.push({
+      kind: 'sources',
+      message: `${count} ${language.extensions.join('/')} file(s)`,
+      weight: Math.round(weight * 1000) / 1000,
+    });
+  }
+
+  return countKindsOnce(signals);
+};
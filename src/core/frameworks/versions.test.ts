@@ -0,0 +1,120 @@
+import { describe, test, expect } from 'vitest';
+import {
+  findCargoLockVersion,
+  findComposerLockVersion,
+  findGradleVersion,
+  findMavenVersion,
+  findNuGetVersion,
+  findPackageLockVersion,
+  findPipfileLockVersion,
+  findPnpmLockVersion,
+  findPoetryLockVersion,
+  findPropertyVersion,
+  findTargetFrameworkVersion,
+  findYarnLockVersion,
+  toVersion,
+} from './versions';
+
+describe('toVersion', () => {
+  test('keeps exact versions, takes the floor of ranges and coerces the rest', () => {
+    expect(toVersion('10.3.2')).toBe('10.3.2');
+    expect(toVersion('^10.1')).toBe('10.1.0');
+    expect(toVersion('>=4.2 <5')).toBe('4.2.0');
+    expect(toVersion('v10.2.1')).toBe('10.2.1');
+    expect(toVersion('8.0')).toBe('8.0.0');
+    expect(toVersion('10.3.2(reflect-metadata@0.1.13)')).toBe('10.3.2');
+    expect(toVersion('latest')).toBeUndefined();
+  });
+});
+
+describe('Node lockfiles', () => {
+  test('package-lock.json v3 and v1', () => {
+    const v3 = JSON.stringify({ packages: { '': {}, 'node_modules/@nestjs/core': { version: '10.3.2' } } });
+    const v1 = JSON.stringify({ dependencies: { next: { version: '13.5.6' } } });
+    expect(findPackageLockVersion(v3, '@nestjs/core')).toBe('10.3.2');
+    expect(findPackageLockVersion(v1, 'next')).toBe('13.5.6');
+    expect(findPackageLockVersion(v1, 'express')).toBeNull();
+    expect(findPackageLockVersion('not json', 'next')).toBeNull();
+  });
+
+  test('pnpm-lock.yaml across lockfile versions', () => {
+    const v5 = "packages:\n  /@nestjs/core/9.4.3_reflect-metadata@0.1.13:\n    resolution: {}\n";
+    const v6 = "packages:\n  /@nestjs/core@10.3.2(reflect-metadata@0.1.13):\n    resolution: {}\n";
+    const v9 = "packages:\n  '@nestjs/core@10.1.0':\n    resolution: {}\n  '@nestjs/core@10.3.2':\n    resolution: {}\n  '@nestjs/core-extra@11.0.0':\n";
+    expect(findPnpmLockVersion(v5, '@nestjs/core')).toBe('9.4.3');
+    expect(findPnpmLockVersion(v6, '@nestjs/core')).toBe('10.3.2');
+    expect(findPnpmLockVersion(v9, '@nestjs/core')).toBe('10.3.2');
+  });
+
+  test('yarn.lock classic and berry', () => {
+    const classic = '"@nestjs/common@^10.0.0":\n  version "10.0.1"\n\n"@nestjs/core@^10.0.0", "@nestjs/core@^10.2.0":\n  version "10.3.2"\n';
+    const berry = '"next@npm:^14.0.0":\n  version: 14.1.0\n  resolution: "next@npm:14.1.0"\n';
+    expect(findYarnLockVersion(classic, '@nestjs/core')).toBe('10.3.2');
+    expect(findYarnLockVersion(berry, 'next')).toBe('14.1.0');
+    expect(findYarnLockVersion(berry, 'react')).toBeNull();
+  });
+});
+
+describe('Python lockfiles', () => {
+  test('poetry.lock matches normalized names', () => {
+    const lock = '[[package]]\nname = "asgiref"\nversion = "3.7.2"\n\n[[package]]\nname = "Django"\nversion = "5.0.1"\n';
+    expect(findPoetryLockVersion(lock, 'django')).toBe('5.0.1');
+    expect(findPoetryLockVersion(lock, 'flask')).toBeNull();
+    expect(findPoetryLockVersion('[[package]\nname =', 'django')).toBeNull();
+  });
+
+  test('Pipfile.lock', () => {
+    const lock = JSON.stringify({ default: { django: { version: '==4.2.9' } }, develop: {} });
+    expect(findPipfileLockVersion(lock, 'Django')).toBe('4.2.9');
+  });
+});
+
+test('Cargo.lock returns the highest locked version of a crate', () => {
+  const lock = '[[package]]\nname = "axum"\nversion = "0.6.20"\n\n[[package]]\nname = "axum"\nversion = "0.7.4"\n\n[[package]]\nname = "axum-core"\nversion = "0.4.3"\n';
+  expect(findCargoLockVersion(lock, 'axum')).toBe('0.7.4');
+  expect(findCargoLockVersion(lock, 'rocket')).toBeNull();
+});
+
+describe('JVM build files', () => {
+  test('pom.xml parent version, resolving properties', () => {
+    const pom = `<project>
+  <properties><boot.version>3.2.1</boot.version></properties>
+  <parent>
+    <groupId>org.springframework.boot</groupId>
+    <artifactId>spring-boot-starter-parent</artifactId>
+    <version>\${boot.version}</version>
+  </parent>
+  <dependencies><dependency><artifactId>spring-boot-starter-web</artifactId></dependency></dependencies>
+</project>`;
+    expect(findMavenVersion(pom, ['spring-boot'])).toBe('3.2.1');
+    expect(findMavenVersion('<properties><spring-boot.version>2.7.18</spring-boot.version></properties>', ['spring-boot'])).toBe('2.7.18');
+  });
+
+  test('Gradle plugins and coordinates', () => {
+    expect(findGradleVersion("plugins {\n  id 'org.springframework.boot' version '3.1.5'\n}", ['spring-boot', 'org.springframework.boot'])).toBe('3.1.5');
+    expect(findGradleVersion('plugins { id("org.springframework.boot") version "3.2.0" }', ['org.springframework.boot'])).toBe('3.2.0');
+    expect(findGradleVersion("implementation 'org.springframework.boot:spring-boot-starter-web:2.7.0'", ['spring-boot'])).toBe('2.7.0');
+  });
+
+  test('build properties, from gradle.properties or pom.xml', () => {
+    expect(findPropertyVersion('kotlin.code.style=official\nquarkusPlatformVersion = 3.8.1\n', ['quarkusPlatformVersion'])).toBe('3.8.1');
+    expect(findPropertyVersion('<properties><ktor_version>2.3.8</ktor_version></properties>', ['ktor_version'])).toBe('2.3.8');
+    expect(findPropertyVersion('micronautVersion=4.3.4', ['quarkusPlatformVersion'])).toBeNull();
+  });
+});
+
+describe('.NET and PHP', () => {
+  test('csproj PackageReference or central PackageVersion, and target framework', () => {
+    expect(findNuGetVersion('<PackageReference Include="Microsoft.AspNetCore.Mvc" Version="2.2.0" />', 'Microsoft.AspNetCore')).toBe('2.2.0');
+    expect(findNuGetVersion('<PackageVersion Include="microsoft.extensions.hosting" Version="8.0.0" />', 'Microsoft.Extensions.Hosting')).toBe('8.0.0');
+    expect(findNuGetVersion('<PackageReference Include="Microsoft.AspNetCore.OpenApi" />', 'Microsoft.AspNetCore')).toBeNull();
+    expect(findTargetFrameworkVersion('<TargetFramework>net8.0</TargetFramework>')).toBe('8.0');
+    expect(findTargetFrameworkVersion('<TargetFrameworks>netcoreapp3.1;net6.0</TargetFrameworks>')).toBe('3.1');
+  });
+
+  test('composer.lock', () => {
+    const lock = JSON.stringify({ packages: [{ name: 'laravel/framework', version: 'v10.48.4' }], 'packages-dev': [] });
+    expect(findComposerLockVersion(lock, 'laravel/framework')).toBe('v10.48.4');
+    expect(findComposerLockVersion(lock, 'symfony/console')).toBeNull();
+  });
+});
@@ -0,0 +1,207 @@
+import semver from 'semver';
+import { parse as parseToml } from 'smol-toml';
+import { z } from 'zod';
+import { normalizePythonName } from './python.js';
+
+/**
+ * Parsers that find the installed version of a package in manifests and lockfiles
+ * Each takes file content and returns the raw version string, or null when the
+ * package is not listed. toVersion() turns the raw string into a semver version.
+ */
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+const parseJson = <T>(content: string, schema: z.ZodType<T>): T | null => {
+  try {
+    const result = schema.safeParse(JSON.parse(content));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Normalize a version or range to a semver version
+ * Exact versions are kept, ranges give their lowest matching version ("^10.1" → "10.1.0"),
+ * and anything else is coerced ("v10.2.1", "8.0", "4.2.1(reflect-metadata@0.1.13)")
+ */
+export const toVersion = (raw: string): string | undefined => {
+  const cleaned = raw.trim().replace(/^[v=]+/, '');
+  const exact = semver.valid(cleaned);
+  if (exact) return exact;
+  try {
+    const min = semver.minVersion(cleaned);
+    if (min && min.version !== '0.0.0') return min.version;
+  } catch {
+    // not a range, fall through to coercion
+  }
+  return semver.coerce(cleaned)?.version;
+};
+
+const PackageLockSchema = z.object({
+  packages: z.record(z.string(), z.object({ version: z.string().optional() })).optional(),
+  dependencies: z.record(z.string(), z.object({ version: z.string().optional() })).optional(),
+});
+
+/** package-lock.json, lockfileVersion 1 to 3 */
+export const findPackageLockVersion = (content: string, name: string): string | null => {
+  const lock = parseJson(content, PackageLockSchema);
+  return lock?.packages?.[`node_modules/${name}`]?.version ?? lock?.dependencies?.[name]?.version ?? null;
+};
+
+/**
+ * pnpm-lock.yaml, any lockfile version
+ * Reads the package keys (`/name@1.2.3:`, `/name/1.2.3:`, `'name@1.2.3':`) and returns the highest
+ */
+export const findPnpmLockVersion = (content: string, name: string): string | null => {
+  const key = new RegExp(`^\\s*['"]?/?${escapeRegExp(name)}[@/](\\d+\\.\\d+\\.\\d+[^:'"(_\\s]*)`, 'gm');
+  const versions = [...content.matchAll(key)].map(match => match[1]).filter(version => semver.valid(version));
+  return versions.length > 0 ? semver.rsort(versions)[0] : null;
+};
+
+/** yarn.lock, classic and berry formats */
+export const findYarnLockVersion = (content: string, name: string): string | null => {
+  const header = new RegExp(`(^|[\\s,"])${escapeRegExp(name)}@`);
+  let inEntry = false;
+  for (const line of content.split(/\r?\n/)) {
+    if (/^\S/.test(line)) {
+      inEntry = header.test(line);
+      continue;
+    }
+    const version = inEntry && line.match(/^\s+version:?\s+"?([^"\s]+)"?/);
+    if (version) return version[1];
+  }
+  return null;
+};
+
+const PackageTablesSchema = z.object({
+  package: z.array(z.object({ name: z.string(), version: z.string().optional() })).optional(),
+});
+
+/** poetry.lock and other lockfiles made of `[[package]]` tables (uv.lock, pdm.lock) */
+export const findPoetryLockVersion = (content: string, name: string): string | null => {
+  let lock;
+  try {
+    lock = PackageTablesSchema.safeParse(parseToml(content)).data;
+  } catch {
+    return null;
+  }
+  const key = normalizePythonName(name);
+  return lock?.package?.find(pkg => normalizePythonName(pkg.name) === key)?.version ?? null;
+};
+
+/** Cargo.lock, the highest version when several of the crate are locked */
+export const findCargoLockVersion = (content: string, name: string): string | null => {
+  let lock;
+  try {
+    lock = PackageTablesSchema.safeParse(parseToml(content)).data;
+  } catch {
+    return null;
+  }
+  const versions = (lock?.package ?? [])
+    .filter(pkg => pkg.name === name && pkg.version && semver.valid(pkg.version))
+    .map(pkg => pkg.version as string);
+  return versions.length > 0 ? semver.rsort(versions)[0] : null;
+};
+
+const PipfileLockSchema = z.object({
+  default: z.record(z.string(), z.object({ version: z.string().optional() })).optional(),
+  develop: z.record(z.string(), z.object({ version: z.string().optional() })).optional(),
+});
+
+/** Pipfile.lock */
+export const findPipfileLockVersion = (content: string, name: string): string | null => {
+  const lock = parseJson(content, PipfileLockSchema);
+  const key = normalizePythonName(name);
+  for (const section of [lock?.default, lock?.develop]) {
+    const entry = Object.entries(section ?? {}).find(([pkg]) => normalizePythonName(pkg) === key);
+    if (entry?.[1].version) return entry[1].version.replace(/^==/, '');
+  }
+  return null;
+};
+
+/**
+ * pom.xml: the version of a <parent>, <dependency> or <plugin> whose artifactId starts with
+ * one of the keys, with ${property} references resolved from <properties>
+ */
+export const findMavenVersion = (content: string, keys: string[]): string | null => {
+  const properties = new Map<string, string>();
+  const propertiesBlock = content.match(/<properties>([\s\S]*?)<\/properties>/)?.[1] ?? '';
+  for (const [, key, value] of propertiesBlock.matchAll(/<([\w.-]+)>([^<]*)<\/\1>/g)) {
+    properties.set(key, value.trim());
+  }
+  const resolve = (value: string) => value.replace(/\$\{([\w.-]+)\}/g, (ref, key: string) => properties.get(key) ?? ref);
+
+  for (const [, , block] of content.matchAll(/<(parent|dependency|plugin)>([\s\S]*?)<\/\1>/g)) {
+    const artifactId = block.match(/<artifactId>\s*([^<\s]+)\s*<\/artifactId>/)?.[1];
+    const version = block.match(/<version>\s*([^<\s]+)\s*<\/version>/)?.[1];
+    if (artifactId && version && keys.some(key => artifactId.startsWith(key))) {
+      const resolved = resolve(version);
+      if (!resolved.includes('${')) return resolved;
+    }
+  }
+
+  for (const key of keys) {
+    const property = properties.get(`${key}.version`);
+    if (property) return property;
+  }
+  return null;
+};
+
+/**
+ * build.gradle / build.gradle.kts: plugin declarations (`id 'org.springframework.boot' version '3.1.0'`)
+ * and dependency coordinates (`'group:artifact:1.2.3'`) whose plugin id or artifact starts with a key
+ */
+export const findGradleVersion = (content: string, keys: string[]): string | null => {
+  for (const key of keys) {
+    const plugin = content.match(
+      new RegExp(`id\\s*\\(?\\s*["']${escapeRegExp(key)}["']\\s*\\)?\\s*version\\s*\\(?\\s*["']([^"']+)["']`)
+    );
+    if (plugin) return plugin[1];
+    const coordinate = content.match(new RegExp(`["'][\\w.-]+:${escapeRegExp(key)}[\\w.-]*:(\\d[^"':@]*)["']`));
+    if (coordinate) return coordinate[1];
+  }
+  return null;
+};
+
+/**
+ * gradle.properties (`quarkusPlatformVersion=3.8.1`) or pom.xml properties (`<ktor_version>2.3.8</ktor_version>`):
+ * the value of the first of the named properties that is set
+ */
+export const findPropertyVersion = (content: string, names: string[]): string | null => {
+  for (const name of names) {
+    const escaped = escapeRegExp(name);
+    const property = content.match(new RegExp(`^\\s*${escaped}\\s*[=:]\\s*(\\S+)|<${escaped}>\\s*([^<\\s]+)\\s*</${escaped}>`, 'm'));
+    if (property) return property[1] ?? property[2];
+  }
+  return null;
+};
+
+/**
+ * .csproj or Directory.Packages.props: a PackageReference or central PackageVersion whose Include starts with the key
+ */
+export const findNuGetVersion = (content: string, key: string): string | null => {
+  for (const [reference] of content.matchAll(/<Package(?:Reference|Version)\b[^>]*>/g)) {
+    const include = reference.match(/Include="([^"]+)"/)?.[1];
+    const version = reference.match(/Version="([^"]+)"/)?.[1];
+    if (include?.toLowerCase().startsWith(key.toLowerCase()) && version) return version;
+  }
+  return null;
+};
+
+/**
+ * .csproj: the target framework (`net8.0` → 8.0), which is the ASP.NET Core version for projects using the shared framework
+ */
+export const findTargetFrameworkVersion = (content: string): string | null =>
+  content.match(/<TargetFrameworks?>\s*net(?:coreapp)?(\d+\.\d+)/)?.[1] ?? null;
+
+const ComposerLockSchema = z.object({
+  packages: z.array(z.object({ name: z.string(), version: z.string() })).optional(),
+  'packages-dev': z.array(z.object({ name: z.string(), version: z.string() })).optional(),
+});
+
+/** composer.lock */
+export const findComposerLockVersion = (content: string, name: string): string | null => {
+  const lock = parseJson(content, ComposerLockSchema);
+  return [...(lock?.packages ?? []), ...(lock?.['packages-dev'] ?? [])].find(pkg => pkg.name === name)?.version ?? null;
+};
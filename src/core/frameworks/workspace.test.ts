@@ -0,0 +1,178 @@
+import fs from 'fs-extra';
+import { tmpdir } from 'os';
+import path from 'path';
+import { describe, test, expect } from 'vitest';
+import { discoverWorkspacePackages, findWorkspacePackage, parsePnpmWorkspace } from './workspace';
+import { FrameworkDetector } from './detector';
+
+async function withTempDir(fn: (dir: string) => Promise<void>) {
+  const dir = await fs.mkdtemp(path.join(tmpdir(), 'workspace-test-'));
+  try {
+    await fn(dir);
+  } finally {
+    await fs.remove(dir);
+  }
+}
+
+async function writePackage(dir: string, folder: string, pkg: Record<string, unknown>) {
+  await fs.outputJson(path.join(dir, folder, 'package.json'), pkg);
+}
+
+describe('parsePnpmWorkspace', () => {
+  test('reads quoted and bare entries of the packages list', () => {
+    const yaml = "packages:\n  - 'apps/*'\n  - \"libs/**\" # shared\n  - tools\n  - '!apps/legacy'\ncatalog:\n  react: ^18\n";
+    expect(parsePnpmWorkspace(yaml)).toEqual(['apps/*', 'libs/**', 'tools', '!apps/legacy']);
+  });
+});
+
+describe('discoverWorkspacePackages', () => {
+  test('expands npm/yarn workspaces and honours exclusions', async () => {
+    await withTempDir(async dir => {
+      await writePackage(dir, '.', { name: 'root', workspaces: ['apps/*', '!apps/legacy'] });
+      await writePackage(dir, 'apps/api', { name: '@acme/api' });
+      await writePackage(dir, 'apps/web', { name: '@acme/web' });
+      await writePackage(dir, 'apps/legacy', { name: '@acme/legacy' });
+      await fs.ensureDir(path.join(dir, 'apps', 'empty'));
+
+      expect(await discoverWorkspacePackages(dir)).toEqual([
+        { name: '@acme/api', path: 'apps/api' },
+        { name: '@acme/web', path: 'apps/web' },
+      ]);
+    });
+  });
+
+  test('reads pnpm-workspace.yaml, yarn workspaces.packages and nested globs', async () => {
+    await withTempDir(async dir => {
+      await fs.writeFile(path.join(dir, 'pnpm-workspace.yaml'), 'packages:\n  - "packages/**"\n');
+      await writePackage(dir, 'packages/ui', { name: 'ui' });
+      await writePackage(dir, 'packages/tools/cli', { name: 'cli' });
+      await writePackage(dir, 'packages/ui/node_modules/dep', { name: 'dep' });
+
+      expect((await discoverWorkspacePackages(dir)).map(pkg => pkg.path)).toEqual(['packages/tools/cli', 'packages/ui']);
+    });
+  });
+
+  test('uses the Nx layout when nx.json declares no workspaces', async () => {
+    await withTempDir(async dir => {
+      await fs.writeJson(path.join(dir, 'nx.json'), {});
+      await writePackage(dir, 'apps/api', { name: 'api' });
+      await fs.outputFile(path.join(dir, 'libs', 'ml', 'requirements.txt'), 'fastapi');
+
+      expect(await discoverWorkspacePackages(dir)).toEqual([
+        { name: 'api', path: 'apps/api' },
+        { name: 'libs/ml', path: 'libs/ml' },
+      ]);
+    });
+  });
+
+  test('expands Cargo workspace members and excludes', async () => {
+    await withTempDir(async dir => {
+      await fs.outputFile(path.join(dir, 'Cargo.toml'), '[workspace]\nmembers = ["crates/*", "tools/cli"]\nexclude = ["crates/old"]\n');
+      for (const member of ['crates/api', 'crates/old', 'tools/cli']) {
+        await fs.outputFile(path.join(dir, member, 'Cargo.toml'), '[package]\n');
+      }
+
+      expect(await discoverWorkspacePackages(dir)).toEqual([
+        { name: 'crates/api', path: 'crates/api' },
+        { name: 'tools/cli', path: 'tools/cli' },
+      ]);
+    });
+  });
+
+  test('treats Maven modules and Gradle includes as one build, not packages', async () => {
+    await withTempDir(async dir => {
+      await fs.outputFile(path.join(dir, 'pom.xml'), '<project><modules><module>api</module></modules></project>');
+      await fs.outputFile(path.join(dir, 'api', 'pom.xml'), '<project/>');
+      expect(await discoverWorkspacePackages(dir)).toEqual([]);
+    });
+
+    await withTempDir(async dir => {
+      await fs.outputFile(path.join(dir, 'settings.gradle'), "include ':app', ':lib:util'\n");
+      await fs.outputFile(path.join(dir, 'app', 'build.gradle.kts'), '');
+      await fs.outputFile(path.join(dir, 'lib', 'util', 'build.gradle'), '');
+      expect(await discoverWorkspacePackages(dir)).toEqual([]);
+    });
+  });
+
+  test('scans top-level folders only when asked to', async () => {
+    await withTempDir(async dir => {
+      await fs.outputFile(path.join(dir, 'backend', 'requirements.txt'), 'django==4.2');
+      await writePackage(dir, 'frontend', { name: 'frontend' });
+      await fs.outputFile(path.join(dir, 'docs', 'index.md'), '# docs');
+
+      expect(await discoverWorkspacePackages(dir)).toEqual([]);
+      expect((await discoverWorkspacePackages(dir, { scanSubfolders: true })).map(pkg => pkg.path)).toEqual([
+        'backend',
+        'frontend',
+      ]);
+    });
+  });
+
+  test('ignores patterns that leave the workspace root', async () => {
+    await withTempDir(async dir => {
+      await writePackage(dir, '.', { workspaces: ['../*', 'apps/../../*'] });
+      expect(await discoverWorkspacePackages(dir)).toEqual([]);
+    });
+  });
+});
+
+describe('findWorkspacePackage', () => {
+  const packages = [
+    { name: '@acme/api', path: 'apps/api' },
+    { name: 'web', path: 'apps/web' },
+  ];
+
+  test('matches by name or folder', () => {
+    expect(findWorkspacePackage(packages, '@acme/api')?.path).toBe('apps/api');
+    expect(findWorkspacePackage(packages, './apps/web/')?.name).toBe('web');
+    expect(findWorkspacePackage(packages, 'apps')).toBeUndefined();
+  });
+
+  test('matches the root for "." when it is given', () => {
+    const root = { name: 'acme', path: '.' };
+
+    expect(findWorkspacePackage(packages, '.', root)).toBe(root);
+    expect(findWorkspacePackage(packages, './', root)).toBe(root);
+    expect(findWorkspacePackage(packages, '.')).toBeUndefined();
+  });
+});
+
+describe('FrameworkDetector.detectPackages', () => {
+  test('returns one stack per workspace package', async () => {
+    await withTempDir(async dir => {
+      await writePackage(dir, '.', { name: 'root', private: true, workspaces: ['apps/*'] });
+      await writePackage(dir, 'apps/api', { name: 'api', dependencies: { '@nestjs/core': '^10.0.0', pg: '^8.0.0' } });
+      await writePackage(dir, 'apps/web', { name: 'web', dependencies: { next: '^14.0.0', react: '^18.0.0' } });
+
+      const packages = await new FrameworkDetector(dir).detectPackages();
+      expect(packages.map(pkg => [pkg.path, pkg.stack.framework, pkg.stack.data?.map(layer => layer.name)])).toEqual([
+        ['apps/api', 'nestjs', ['pg']],
+        ['apps/web', 'nextjs', undefined],
+      ]);
+    });
+  });
+
+  test('finds backend and frontend folders when the root has no stack', async () => {
+    await withTempDir(async dir => {
+      await writePackage(dir, '.', { name: 'tooling', devDependencies: { prettier: '^3.0.0' } });
+      await fs.outputFile(path.join(dir, 'backend', 'requirements.txt'), 'fastapi==0.110');
+      await writePackage(dir, 'frontend', { name: 'frontend', dependencies: { '@angular/core': '^17.0.0' } });
+
+      const packages = await new FrameworkDetector(dir).detectPackages();
+      expect(packages.map(pkg => [pkg.path, pkg.stack.language, pkg.stack.framework])).toEqual([
+        ['backend', 'python', 'fastapi'],
+        ['frontend', 'ts', 'angular'],
+      ]);
+    });
+  });
+
+  test('treats a single project as one package at the root', async () => {
+    await withTempDir(async dir => {
+      await writePackage(dir, '.', { dependencies: { express: '^4.0.0' } });
+      await writePackage(dir, 'scripts', { dependencies: { next: '^14.0.0' } });
+
+      const packages = await new FrameworkDetector(dir).detectPackages();
+      expect(packages).toEqual([{ name: path.basename(dir), path: '.', stack: expect.objectContaining({ framework: 'express' }) }]);
+    });
+  });
+});
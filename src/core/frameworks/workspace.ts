@@ -0,0 +1,220 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { z } from 'zod';
+import { parseCargoToml } from './rust.js';
+
+/** Files that mark a folder as a package one of the detectors can read */
+export const MANIFEST_FILES = [
+  'package.json',
+  'requirements.txt',
+  'Pipfile',
+  'pyproject.toml',
+  'pom.xml',
+  'build.gradle',
+  'build.gradle.kts',
+  'composer.json',
+  'go.mod',
+  'Cargo.toml',
+  'Gemfile',
+  'deno.json',
+  'deno.jsonc',
+];
+const MANIFEST_EXTENSIONS = ['.csproj', '.sln'];
+
+/** Folders Nx generators put projects in, used when nx.json declares no workspaces */
+const NX_PATTERNS = ['apps/*', 'libs/*', 'packages/*'];
+const MAX_GLOB_DEPTH = 4;
+const IGNORED_DIRS = new Set(['node_modules', 'dist', 'build', 'vendor', 'target', 'bin', 'obj']);
+
+export interface WorkspacePackage {
+  /** package.json name when there is one, otherwise the folder path */
+  name: string;
+  /** Folder relative to the workspace root, with forward slashes */
+  path: string;
+}
+
+const PackageJsonSchema = z.object({
+  name: z.string().optional(),
+  workspaces: z.union([z.array(z.string()), z.object({ packages: z.array(z.string()).optional() })]).optional(),
+});
+const LernaJsonSchema = z.object({ packages: z.array(z.string()).optional() });
+
+const readJson = async <T>(file: string, schema: z.ZodType<T>): Promise<T | null> => {
+  try {
+    const result = schema.safeParse(await fs.readJson(file));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Read the `packages:` list of a pnpm-workspace.yaml
+ * Only the block list form pnpm documents is supported
+ */
+export const parsePnpmWorkspace = (content: string): string[] => {
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of content.split(/\r?\n/)) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    if (!inPackages || line.trim() === '' || line.trim().startsWith('#')) continue;
+    const item = line.match(/^\s+-\s*(['"]?)([^'"#]+?)\1\s*(#.*)?$/);
+    if (item) {
+      patterns.push(item[2]);
+    } else if (/^\S/.test(line)) {
+      inPackages = false;
+    }
+  }
+  return patterns;
+};
+
+const hasManifest = async (dir: string): Promise<boolean> => {
+  const entries = await fs.readdir(dir).catch(() => [] as string[]);
+  return entries.some(entry => MANIFEST_FILES.includes(entry) || MANIFEST_EXTENSIONS.some(ext => entry.endsWith(ext)));
+};
+
+const listSubdirs = async (root: string, dir: string): Promise<string[]> => {
+  const entries = await fs.readdir(path.join(root, dir), { withFileTypes: true }).catch(() => []);
+  return entries
+    .filter(entry => entry.isDirectory() && !entry.name.startsWith('.') && !IGNORED_DIRS.has(entry.name))
+    .map(entry => (dir ? `${dir}/${entry.name}` : entry.name));
+};
+
+const listSubdirsDeep = async (root: string, dir: string, depth: number): Promise<string[]> => {
+  if (depth === 0) return [];
+  const children = await listSubdirs(root, dir);
+  const nested = await Promise.all(children.map(child => listSubdirsDeep(root, child, depth - 1)));
+  return [...children, ...nested.flat()];
+};
+
+/**
+ * Expand a workspace glob (`apps/*`, `packages/**`, `backend`) to folders under root
+ * Segments that would leave the root are ignored
+ */
+const expandPattern = async (root: string, pattern: string): Promise<string[]> => {
+  const segments = pattern.replace(/^\.\//, '').split('/').filter(segment => segment && segment !== '.');
+  if (segments.includes('..')) return [];
+
+  let dirs = [''];
+  for (const segment of segments) {
+    const next: string[] = [];
+    for (const dir of dirs) {
+      if (segment === '**') {
+        next.push(dir, ...(await listSubdirsDeep(root, dir, MAX_GLOB_DEPTH)));
+      } else if (segment.includes('*')) {
+        const matcher = new RegExp(`^${segment.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*')}$`);
+        next.push(...(await listSubdirs(root, dir)).filter(child => matcher.test(path.posix.basename(child))));
+      } else {
+        const child = dir ? `${dir}/${segment}` : segment;
+        if ((await fs.stat(path.join(root, child)).catch(() => null))?.isDirectory()) {
+          next.push(child);
+        }
+      }
+    }
+    dirs = [...new Set(next)];
+  }
+  return dirs.filter(Boolean);
+};
+
+/**
+ * Workspace globs declared by npm/yarn (package.json), pnpm, Lerna, Cargo or Nx
+ * Maven modules and Gradle includes are parts of one build, not packages; the Java
+ * detector reads them from the root instead
+ *
+ * @returns Patterns, with `!` exclusions kept as-is; null when root is not a declared workspace
+ */
+const getWorkspacePatterns = async (root: string): Promise<string[] | null> => {
+  const patterns: string[] = [];
+  let declared = false;
+
+  const pkg = await readJson(path.join(root, 'package.json'), PackageJsonSchema);
+  if (pkg?.workspaces) {
+    declared = true;
+    patterns.push(...(Array.isArray(pkg.workspaces) ? pkg.workspaces : pkg.workspaces.packages ?? []));
+  }
+
+  const pnpmFile = path.join(root, 'pnpm-workspace.yaml');
+  if (await fs.pathExists(pnpmFile)) {
+    declared = true;
+    patterns.push(...parsePnpmWorkspace(await fs.readFile(pnpmFile, 'utf-8')));
+  }
+
+  const lerna = await readJson(path.join(root, 'lerna.json'), LernaJsonSchema);
+  if (lerna?.packages) {
+    declared = true;
+    patterns.push(...lerna.packages);
+  }
+
+  const cargoFile = path.join(root, 'Cargo.toml');
+  const cargo = (await fs.pathExists(cargoFile)) ? parseCargoToml(await fs.readFile(cargoFile, 'utf-8')) : null;
+  if (cargo?.workspace) {
+    declared = true;
+    patterns.push(...cargo.workspace.members, ...cargo.workspace.exclude.map(pattern => `!${pattern}`));
+  }
+
+  if (!declared && (await fs.pathExists(path.join(root, 'nx.json')))) {
+    declared = true;
+    patterns.push(...NX_PATTERNS);
+  }
+
+  return declared ? patterns : null;
+};
+
+/**
+ * Expand workspace globs to folders under root, applying `!` exclusions after every inclusion
+ *
+ * @returns Folders relative to root, sorted
+ */
+export const expandWorkspacePatterns = async (root: string, patterns: string[]): Promise<string[]> => {
+  const included = new Set<string>();
+  for (const pattern of patterns.filter(p => !p.startsWith('!'))) {
+    (await expandPattern(root, pattern)).forEach(dir => included.add(dir));
+  }
+  for (const pattern of patterns.filter(p => p.startsWith('!'))) {
+    (await expandPattern(root, pattern.slice(1))).forEach(dir => included.delete(dir));
+  }
+  return [...included].sort();
+};
+
+/**
+ * Find the packages of a monorepo
+ * Declared workspaces (npm, yarn, pnpm, Lerna, Cargo, Nx) are expanded. Otherwise, with
+ * scanSubfolders, each top-level folder holding a manifest counts as a package
+ * (e.g. backend/ next to frontend/)
+ *
+ * @param root - Workspace root
+ * @param options.scanSubfolders - Fall back to top-level folders when no workspace is declared
+ * @returns Packages sorted by path; empty for a single-package repository
+ */
+export const discoverWorkspacePackages = async (
+  root: string,
+  { scanSubfolders = false }: { scanSubfolders?: boolean } = {}
+): Promise<WorkspacePackage[]> => {
+  const patterns = (await getWorkspacePatterns(root)) ?? (scanSubfolders ? ['*'] : []);
+
+  const packages: WorkspacePackage[] = [];
+  for (const dir of await expandWorkspacePatterns(root, patterns)) {
+    if (!(await hasManifest(path.join(root, dir)))) continue;
+    const pkg = await readJson(path.join(root, dir, 'package.json'), PackageJsonSchema);
+    packages.push({ name: pkg?.name ?? dir, path: dir });
+  }
+  return packages;
+};
+
+/**
+ * Find a package by name or by folder (`apps/api`, `./apps/api/`)
+ * `.` names the workspace root, which is not one of the packages of a monorepo
+ *
+ * @param root - Returned for `.` when no package sits at the root
+ */
+export const findWorkspacePackage = <T extends WorkspacePackage>(packages: T[], ref: string, root?: T): T | undefined => {
+  const folder = ref.replace(/\\/g, '/').replace(/^\.\/(?=.)/, '').replace(/\/+$/, '') || '.';
+  return (
+    packages.find(pkg => pkg.name === ref) ??
+    packages.find(pkg => pkg.path === folder) ??
+    (folder === '.' ? root : undefined)
+  );
+};
@@ -0,0 +1,14 @@
+import { createHash } from 'crypto';
+import fs from 'fs-extra';
+
+/**
+ * SHA-256 of a string or buffer, hex encoded
+ */
+export const sha256 = (content: string | Buffer): string =>
+  createHash('sha256').update(content).digest('hex');
+
+/**
+ * SHA-256 of a file on disk, hex encoded
+ */
+export const hashFile = async (filePath: string): Promise<string> =>
+  sha256(await fs.readFile(filePath));
@@ -0,0 +1,119 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { z } from 'zod';
+import { SkelError } from './errors.js';
+import { toJsonPath } from './validation.js';
+
+export const LOCKFILE_NAME = 'skeleton.lock.json';
+export const LOCKFILE_VERSION = 1;
+
+const PrimitiveSourceSchema = z.object({
+  /** Where the files were copied from */
+  type: z.enum(['library', 'vault', 'http']),
+  /** Folder relative to the library, archive file name within the vault, or archive URL */
+  path: z.string(),
+  /** Registry the primitive was resolved from; omitted for the built-in library */
+  registry: z.string().optional(),
+  /** SHA-256 (hex) of the archive, for vault and HTTP sources */
+  sha256: z.string().optional(),
+});
+
+const LockedPrimitiveSchema = z.object({
+  id: z.string().min(1),
+  version: z.string().min(1),
+  source: PrimitiveSourceSchema,
+  /** SHA-256 (hex) of every installed file, keyed by path relative to the version folder */
+  files: z.record(z.string(), z.string()),
+});
+
+/**
+ * Schema for skeleton.lock.json
+ */
+export const LockfileSchema = z.object({
+  lockfileVersion: z.number().int().positive().default(LOCKFILE_VERSION),
+  /** Lock entries keyed by "id@version" */
+  primitives: z.record(z.string(), LockedPrimitiveSchema).default({}),
+});
+
+export type PrimitiveSource = z.infer<typeof PrimitiveSourceSchema>;
+export type LockedPrimitive = z.infer<typeof LockedPrimitiveSchema>;
+export type Lockfile = z.infer<typeof LockfileSchema>;
+
+export class InvalidLockfileError extends SkelError {
+  constructor(public issues: Array<{ path: string; message: string }>) {
+    super(
+      `Invalid ${LOCKFILE_NAME}: ${issues.map(i => `${i.path} ${i.message}`).join('; ')}`,
+      'INVALID_LOCKFILE'
+    );
+  }
+}
+
+const sortKeys = <T>(record: Record<string, T>): Record<string, T> =>
+  Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+
+/**
+ * Read the project's lockfile, or an empty one if none exists yet
+ *
+ * @throws InvalidLockfileError when the file is not valid JSON or does not match the schema
+ */
+export const readLockfile = async (projectPath: string): Promise<Lockfile> => {
+  const lockPath = path.join(projectPath, LOCKFILE_NAME);
+  if (!(await fs.pathExists(lockPath))) {
+    return { lockfileVersion: LOCKFILE_VERSION, primitives: {} };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.readFile(lockPath, 'utf-8'));
+  } catch (error) {
+    throw new InvalidLockfileError([
+      { path: '$', message: error instanceof Error ? error.message : 'Unreadable JSON' },
+    ]);
+  }
+
+  const result = LockfileSchema.safeParse(data);
+  if (!result.success) {
+    throw new InvalidLockfileError(
+      result.error.issues.map(issue => ({ path: toJsonPath(issue.path), message: issue.message }))
+    );
+  }
+  return result.data;
+};
+
+/**
+ * Write the lockfile with stable key ordering so diffs stay reviewable
+ */
+export const writeLockfile = async (projectPath: string, lock: Lockfile): Promise<void> => {
+  const primitives = sortKeys(lock.primitives);
+  for (const entry of Object.values(primitives)) {
+    entry.files = sortKeys(entry.files);
+  }
+  await fs.writeJson(
+    path.join(projectPath, LOCKFILE_NAME),
+    { lockfileVersion: lock.lockfileVersion, primitives },
+    { spaces: 2 }
+  );
+};
+
+/**
+ * Add or replace the lock entry for one installed primitive version
+ */
+export const lockPrimitive = async (projectPath: string, entry: LockedPrimitive): Promise<void> => {
+  const lock = await readLockfile(projectPath);
+  lock.primitives[`${entry.id}@${entry.version}`] = entry;
+  await writeLockfile(projectPath, lock);
+};
+
+/**
+ * Drop lock entries for primitive records (e.g. "security.tokenizer@1.0.0")
+ */
+export const unlockPrimitives = async (projectPath: string, records: string[]): Promise<void> => {
+  const lock = await readLockfile(projectPath);
+  const locked = records.filter(record => Object.hasOwn(lock.primitives, record));
+  if (locked.length === 0) return;
+
+  for (const record of locked) {
+    delete lock.primitives[record];
+  }
+  await writeLockfile(projectPath, lock);
+};
@@ -0,0 +1,80 @@
+import fs from 'fs-extra';
+import { tmpdir } from 'os';
+import path from 'path';
+import { describe, test, expect } from 'vitest';
+import { expectedFromPath, findManifests, InvalidManifestError, loadManifest, validateManifest } from './manifest';
+
+const valid = {
+  id: 'security.hasher',
+  version: '1.0.0',
+  description: 'Argon2 hashing with memory hardening',
+  tags: ['security', 'auth'],
+  interface: {
+    inputs: [{ name: 'plaintext', type: 'string' }],
+    outputs: { type: 'Promise<string>' },
+  },
+  dependencies: { argon2: '^0.44.0' },
+  requires: { 'utils.uuid': '^1.0.0' },
+  gauntlet: { mutationScoreRequired: 80, testFramework: 'vitest', propertyTests: true },
+};
+
+describe('validateManifest', () => {
+  test('accepts the documented manifest and fills defaults for a minimal one', () => {
+    expect(validateManifest(valid).issues).toEqual([]);
+
+    const { manifest } = validateManifest({ id: 'utils.uuid', version: '1.0.0', description: 'UUID v7' });
+    expect(manifest).toEqual({
+      manifestVersion: 1,
+      id: 'utils.uuid',
+      version: '1.0.0',
+      description: 'UUID v7',
+      tags: [],
+      dependencies: {},
+      requires: {},
+    });
+  });
+
+  test('reports violations with JSON paths', () => {
+    const { manifest, issues } = validateManifest({
+      ...valid,
+      version: 'one',
+      interface: { inputs: [{ type: 'string' }] },
+      requires: { 'utils.uuid': 'not a range' },
+    });
+
+    expect(manifest).toBeUndefined();
+    expect(issues.map(i => i.path)).toEqual(['$.version', '$.interface.inputs[0].name', '$.requires["utils.uuid"]']);
+  });
+
+  test('checks id and version against the folder', () => {
+    const { issues } = validateManifest(valid, { id: 'security.tokenizer', version: '2.0.0' });
+    expect(issues.map(i => i.path)).toEqual(['$.id', '$.version']);
+  });
+});
+
+describe('manifest files', () => {
+  test('loadManifest throws InvalidManifestError for broken JSON', async () => {
+    const dir = await fs.mkdtemp(path.join(tmpdir(), 'skel-manifest-'));
+    try {
+      const file = path.join(dir, 'primitive.json');
+      await fs.writeFile(file, '{ nope');
+      await expect(loadManifest(file)).rejects.toBeInstanceOf(InvalidManifestError);
+    } finally {
+      await fs.remove(dir);
+    }
+  });
+
+  test('finds manifests in the library and infers their expected id and version', async () => {
+    const library = path.join(process.cwd(), 'primitives');
+    const manifests = await findManifests(library);
+
+    expect(manifests.map(m => path.relative(library, m))).toEqual([
+      path.join('security', 'tokenizer', '1.0.0', 'primitive.json'),
+      path.join('utils', 'uuid', '1.0.0', 'primitive.json'),
+    ]);
+    expect(expectedFromPath(manifests[0])).toEqual({ id: 'security.tokenizer', version: '1.0.0' });
+    for (const file of manifests) {
+      await expect(loadManifest(file, expectedFromPath(file))).resolves.toBeDefined();
+    }
+  });
+});
@@ -0,0 +1,162 @@
+import fs from 'fs-extra';
+import path from 'path';
+import semver from 'semver';
+import { z } from 'zod';
+import { SkelError } from './errors.js';
+import { toJsonPath } from './validation.js';
+
+export const MANIFEST_FILE = 'primitive.json';
+export const MANIFEST_VERSION = 1;
+
+/** A primitive ID, "category.name" in lowercase, e.g. "security.jwt-tokenizer" */
+export const PRIMITIVE_ID = /^[a-z][a-z0-9-]*\.[a-z][a-z0-9-]*$/;
+
+const SemverSchema = z.string().refine(v => semver.valid(v) !== null, 'Must be a valid semver version');
+const RangeSchema = z.string().refine(v => v === 'latest' || semver.validRange(v) !== null, 'Must be a valid semver range');
+
+const InterfaceInputSchema = z.object({
+  name: z.string().min(1),
+  type: z.string().min(1),
+  description: z.string().optional(),
+});
+
+const InterfaceOutputSchema = z.object({
+  type: z.string().min(1),
+  description: z.string().optional(),
+});
+
+/**
+ * Schema for primitive.json (manifest version 1)
+ * See "Primitive Manifest Schema" in rules/PROJECT_ARCHITECTURE.md
+ */
+export const PrimitiveManifestSchema = z.object({
+  manifestVersion: z.literal(MANIFEST_VERSION).default(MANIFEST_VERSION),
+  id: z.string().regex(PRIMITIVE_ID, 'Must be in format "category.name"'),
+  version: SemverSchema,
+  description: z.string().min(1),
+  tags: z.array(z.string().min(1)).default([]),
+  interface: z
+    .object({
+      inputs: z.array(InterfaceInputSchema).default([]),
+      outputs: InterfaceOutputSchema.optional(),
+    })
+    .optional(),
+  dependencies: z.record(z.string(), z.string()).default({}),
+  requires: z.record(z.string().regex(PRIMITIVE_ID, 'Must be in format "category.name"'), RangeSchema).default({}),
+  gauntlet: z
+    .object({
+      mutationScoreRequired: z.number().min(0).max(100).optional(),
+      /** Mutation score this version achieved when it was published */
+      mutationScore: z.number().min(0).max(100).optional(),
+      testFramework: z.string().optional(),
+      propertyTests: z.boolean().optional(),
+    })
+    .optional(),
+  /** true, or a message saying what to use instead */
+  deprecated: z.union([z.boolean(), z.string().min(1)]).optional(),
+});
+
+export type PrimitiveManifest = z.infer<typeof PrimitiveManifestSchema>;
+
+export interface ManifestIssue {
+  /** JSON path of the offending value, e.g. "$.interface.inputs[0].name" */
+  path: string;
+  message: string;
+}
+
+export class InvalidManifestError extends SkelError {
+  constructor(public file: string, public issues: ManifestIssue[]) {
+    super(
+      `Invalid manifest ${file}: ${issues.map(i => `${i.path} ${i.message}`).join('; ')}`,
+      'INVALID_MANIFEST'
+    );
+  }
+}
+
+/**
+ * Validate parsed manifest data
+ *
+ * @param data - Parsed primitive.json content
+ * @param expected - id/version implied by the manifest's folder, checked when given
+ */
+export const validateManifest = (
+  data: unknown,
+  expected: { id?: string; version?: string } = {}
+): { manifest?: PrimitiveManifest; issues: ManifestIssue[] } => {
+  const result = PrimitiveManifestSchema.safeParse(data);
+
+  if (!result.success) {
+    return {
+      issues: result.error.issues.map(issue => ({ path: toJsonPath(issue.path), message: issue.message })),
+    };
+  }
+
+  const issues: ManifestIssue[] = [];
+  if (expected.id && result.data.id !== expected.id) {
+    issues.push({ path: '$.id', message: `Does not match its folder (expected "${expected.id}")` });
+  }
+  if (expected.version && result.data.version !== expected.version) {
+    issues.push({ path: '$.version', message: `Does not match its folder (expected "${expected.version}")` });
+  }
+
+  return issues.length > 0 ? { issues } : { manifest: result.data, issues };
+};
+
+/**
+ * Read and validate a primitive.json file
+ *
+ * @throws InvalidManifestError when the file is not valid JSON or violates the schema
+ */
+export const loadManifest = async (
+  file: string,
+  expected: { id?: string; version?: string } = {}
+): Promise<PrimitiveManifest> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.readFile(file, 'utf-8'));
+  } catch (error) {
+    throw new InvalidManifestError(file, [
+      { path: '$', message: error instanceof Error ? error.message : 'Unreadable JSON' },
+    ]);
+  }
+
+  const { manifest, issues } = validateManifest(data, expected);
+  if (!manifest) {
+    throw new InvalidManifestError(file, issues);
+  }
+  return manifest;
+};
+
+/**
+ * Find every primitive.json at or below a path
+ * Skips node_modules and hidden folders
+ */
+export const findManifests = async (target: string): Promise<string[]> => {
+  const stat = await fs.stat(target);
+  if (stat.isFile()) return [target];
+
+  const found: string[] = [];
+  for (const entry of await fs.readdir(target, { withFileTypes: true })) {
+    const full = path.join(target, entry.name);
+    if (entry.isFile() && entry.name === MANIFEST_FILE) {
+      found.push(full);
+    } else if (entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+      found.push(...(await findManifests(full)));
+    }
+  }
+  return found.sort();
+};
+
+/**
+ * The id and version a manifest must declare when it sits in a library-style
+ * "<category>/<name>/<version>/primitive.json" folder
+ */
+export const expectedFromPath = (file: string): { id?: string; version?: string } => {
+  const versionDir = path.dirname(path.resolve(file));
+  const version = path.basename(versionDir);
+  if (!semver.valid(version)) return {};
+
+  const name = path.basename(path.dirname(versionDir));
+  const category = path.basename(path.dirname(path.dirname(versionDir)));
+  return { id: `${category}.${name}`, version };
+};
@@ -0,0 +1,60 @@
+import { describe, test, expect } from 'vitest';
+import { merge3 } from './merge';
+
+const lines = (...l: string[]) => l.join('\n');
+
+describe('merge3', () => {
+  test('takes the new version when nothing was edited locally', () => {
+    const result = merge3(lines('a', 'b'), lines('a', 'b'), lines('a', 'c'));
+    expect(result).toEqual({ content: lines('a', 'c'), conflicts: 0 });
+  });
+
+  test('keeps local edits when the new version is unchanged', () => {
+    const result = merge3(lines('a', 'b'), lines('a', 'x', 'b'), lines('a', 'b'));
+    expect(result).toEqual({ content: lines('a', 'x', 'b'), conflicts: 0 });
+  });
+
+  test('combines non-overlapping edits from both sides', () => {
+    const base = lines('import a', '', 'class A {', '  one() {}', '', '  two() {}', '}');
+    const ours = lines('import a', 'import custom', '', 'class A {', '  one() {}', '', '  two() {}', '}');
+    const theirs = lines('import a', '', 'class A {', '  one() {}', '', '  two(x) {}', '}');
+
+    const result = merge3(base, ours, theirs);
+
+    expect(result.conflicts).toBe(0);
+    expect(result.content).toBe(
+      lines('import a', 'import custom', '', 'class A {', '  one() {}', '', '  two(x) {}', '}')
+    );
+  });
+
+  test('accepts identical edits made on both sides', () => {
+    const result = merge3(lines('a', 'b', 'c'), lines('a', 'B', 'c'), lines('a', 'B', 'c', 'd'));
+    expect(result).toEqual({ content: lines('a', 'B', 'c', 'd'), conflicts: 0 });
+  });
+
+  test('flags overlapping edits with conflict markers', () => {
+    const result = merge3(lines('a', 'b', 'c'), lines('a', 'mine', 'c'), lines('a', 'theirs', 'c'));
+
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toBe(
+      lines(
+        'a',
+        '<<<<<<< local',
+        'mine',
+        '||||||| generated',
+        'b',
+        '=======',
+        'theirs',
+        '>>>>>>> upstream',
+        'c'
+      )
+    );
+  });
+
+  test('treats a missing base as a whole-file conflict', () => {
+    const result = merge3('', 'mine', 'theirs', { ours: 'ours', base: 'base', theirs: 'new' });
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toContain('<<<<<<< ours');
+    expect(result.content).toContain('>>>>>>> new');
+  });
+});
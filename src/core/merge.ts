@@ -0,0 +1,153 @@
+/**
+ * Line based three-way merge (diff3 style)
+ * Used to carry hand edits of generated adapter files across regenerations
+ */
+
+interface Hunk {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+export interface MergeLabels {
+  ours: string;
+  base: string;
+  theirs: string;
+}
+
+export interface MergeResult {
+  content: string;
+  conflicts: number;
+}
+
+const DEFAULT_LABELS: MergeLabels = { ours: 'local', base: 'generated', theirs: 'upstream' };
+
+/**
+ * Compute the hunks that turn base into other, using a longest common subsequence
+ */
+const diff = (base: string[], other: string[]): Hunk[] => {
+  const n = base.length;
+  const m = other.length;
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = base[i] === other[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+  let i = 0;
+  let j = 0;
+
+  while (i < n || j < m) {
+    if (i < n && j < m && base[i] === other[j]) {
+      if (current) hunks.push(current);
+      current = null;
+      i++;
+      j++;
+      continue;
+    }
+    if (!current) current = { start: i, end: i, lines: [] };
+    if (j >= m || (i < n && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      i++;
+      current.end = i;
+    } else {
+      current.lines.push(other[j]);
+      j++;
+    }
+  }
+  if (current) hunks.push(current);
+
+  return hunks;
+};
+
+const apply = (base: string[], start: number, end: number, hunks: Hunk[]): string[] => {
+  const out: string[] = [];
+  let cursor = start;
+  for (const hunk of hunks) {
+    out.push(...base.slice(cursor, hunk.start), ...hunk.lines);
+    cursor = hunk.end;
+  }
+  out.push(...base.slice(cursor, end));
+  return out;
+};
+
+const sameLines = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((line, i) => line === b[i]);
+
+/**
+ * Merge two descendants of a common base
+ * Changes made on only one side are applied; overlapping changes that differ are
+ * written out between git-style conflict markers
+ *
+ * @param base - Common ancestor (what was originally generated)
+ * @param ours - Local version (what is on disk now)
+ * @param theirs - New version (what would be generated today)
+ */
+export const merge3 = (
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: MergeLabels = DEFAULT_LABELS
+): MergeResult => {
+  if (ours === theirs || theirs === base) return { content: ours, conflicts: 0 };
+  if (ours === base) return { content: theirs, conflicts: 0 };
+
+  const baseLines = base.split('\n');
+  const hunks = [
+    ...diff(baseLines, ours.split('\n')).map(h => ({ ...h, side: 'ours' as const })),
+    ...diff(baseLines, theirs.split('\n')).map(h => ({ ...h, side: 'theirs' as const })),
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const out: string[] = [];
+  let conflicts = 0;
+  let cursor = 0;
+  let i = 0;
+
+  while (i < hunks.length) {
+    const start = hunks[i].start;
+    let end = hunks[i].end;
+    let j = i + 1;
+    while (j < hunks.length && hunks[j].start <= end) {
+      end = Math.max(end, hunks[j].end);
+      j++;
+    }
+
+    const group = hunks.slice(i, j);
+    const oursLines = apply(baseLines, start, end, group.filter(h => h.side === 'ours'));
+    const theirsLines = apply(baseLines, start, end, group.filter(h => h.side === 'theirs'));
+    const touchedByOurs = group.some(h => h.side === 'ours');
+    const touchedByTheirs = group.some(h => h.side === 'theirs');
+
+    out.push(...baseLines.slice(cursor, start));
+
+    if (!touchedByTheirs || sameLines(oursLines, theirsLines)) {
+      out.push(...oursLines);
+    } else if (!touchedByOurs) {
+      out.push(...theirsLines);
+    } else {
+      conflicts++;
+      out.push(
+        `<<<<<<< ${labels.ours}`,
+        ...oursLines,
+        `||||||| ${labels.base}`,
+        ...baseLines.slice(start, end),
+        '=======',
+        ...theirsLines,
+        `>>>>>>> ${labels.theirs}`
+      );
+    }
+
+    cursor = end;
+    i = j;
+  }
+
+  out.push(...baseLines.slice(cursor));
+
+  return { content: out.join('\n'), conflicts };
+};
@@ -0,0 +1,105 @@
+import fs from 'fs-extra';
+import { tmpdir } from 'os';
+import path from 'path';
+import { describe, test, expect } from 'vitest';
+import {
+  CONFIG_SCHEMA_VERSION,
+  createProjectConfig,
+  InvalidConfigError,
+  loadProjectConfig,
+  migrateConfig,
+  saveProjectConfig,
+  UnsupportedConfigVersionError,
+} from './project-config';
+import { InvalidProjectError } from './errors';
+
+async function withDir(fn: (dir: string) => Promise<void>) {
+  const dir = await fs.mkdtemp(path.join(tmpdir(), 'skel-config-'));
+  try {
+    await fn(dir);
+  } finally {
+    await fs.remove(dir);
+  }
+}
+
+const legacy = {
+  name: 'legacy',
+  version: '1.0.0',
+  skeletons: ['security.tokenizer@1.0.0'],
+  dependencies: {},
+  devDependencies: {},
+  metadata: { createdAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-01-01T00:00:00.000Z' },
+};
+
+describe('migrateConfig', () => {
+  test('turns v1 skeletons into primitives', () => {
+    const { config, from } = migrateConfig({ ...legacy, primitives: ['utils.uuid@1.0.0', 'security.tokenizer@1.0.0'] });
+
+    expect(from).toBe(1);
+    expect(config.schemaVersion).toBe(CONFIG_SCHEMA_VERSION);
+    expect(config.skeletons).toBeUndefined();
+    expect(config.primitives).toEqual(['utils.uuid@1.0.0', 'security.tokenizer@1.0.0']);
+  });
+
+  test('rejects configs from a newer CLI', () => {
+    expect(() => migrateConfig({ schemaVersion: CONFIG_SCHEMA_VERSION + 1 })).toThrow(UnsupportedConfigVersionError);
+  });
+
+  test('rejects a schemaVersion that is not a number', () => {
+    expect(() => migrateConfig({ schemaVersion: '2' })).toThrow(UnsupportedConfigVersionError);
+  });
+});
+
+describe('loadProjectConfig', () => {
+  test('migrates old configs on disk and backs up the original', async () => {
+    await withDir(async dir => {
+      await fs.writeJson(path.join(dir, 'skeleton.config.json'), legacy);
+
+      const config = await loadProjectConfig(dir);
+
+      expect(config.primitives).toEqual(['security.tokenizer@1.0.0']);
+      expect(config.adapters).toEqual({});
+      expect(await fs.readJson(path.join(dir, '.skel', 'backups', 'skeleton.config.v1.json'))).toEqual(legacy);
+      expect((await fs.readJson(path.join(dir, 'skeleton.config.json'))).schemaVersion).toBe(CONFIG_SCHEMA_VERSION);
+    });
+  });
+
+  test('keeps unknown keys through a load/save cycle', async () => {
+    await withDir(async dir => {
+      await saveProjectConfig(dir, { ...createProjectConfig('app'), team: 'platform' });
+
+      const config = await loadProjectConfig(dir);
+      await saveProjectConfig(dir, config);
+
+      expect((await fs.readJson(path.join(dir, 'skeleton.config.json'))).team).toBe('platform');
+      expect(await fs.pathExists(path.join(dir, '.skel'))).toBe(false);
+    });
+  });
+
+  test('reports schema violations with JSON paths', async () => {
+    await withDir(async dir => {
+      await fs.writeJson(path.join(dir, 'skeleton.config.json'), {
+        ...createProjectConfig('app'),
+        primitives: ['security.tokenizer'],
+      });
+
+      await expect(loadProjectConfig(dir)).rejects.toThrow(InvalidConfigError);
+      await expect(loadProjectConfig(dir)).rejects.toThrow('$.primitives[0]');
+    });
+  });
+
+  test('reports malformed JSON as an invalid config', async () => {
+    await withDir(async dir => {
+      await fs.writeFile(path.join(dir, 'skeleton.config.json'), '{ "name": "app", ');
+
+      await expect(loadProjectConfig(dir)).rejects.toThrow(InvalidConfigError);
+      await expect(loadProjectConfig(dir)).rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+    });
+  });
+
+  test('throws InvalidProjectError without a config', async () => {
+    await withDir(async dir => {
+      await expect(loadProjectConfig(dir)).rejects.toBeInstanceOf(InvalidProjectError);
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { z } from 'zod';
+import { InvalidProjectError, SkelError } from './errors.js';
+import { RegistryConfigSchema } from './registry.js';
+import { toJsonPath } from './validation.js';
+
+export const CONFIG_FILE = 'skeleton.config.json';
+export const CONFIG_SCHEMA_VERSION = 2;
+
+const AdapterRecordSchema = z.object({
+  /** Adapter folder, relative to the project root */
+  path: z.string().min(1),
+  /** SHA-256 of each generated file, keyed by path relative to the adapter folder */
+  files: z.record(z.string(), z.string()),
+  /** Workspace package the adapter was generated for, relative to the project root. Absent for the root */
+  package: z.string().min(1).optional(),
+});
+
+/**
+ * Schema for skeleton.config.json
+ * Unknown keys are preserved so hand-added settings survive a load/save cycle
+ */
+export const SkeletonConfigSchema = z.looseObject({
+  schemaVersion: z.literal(CONFIG_SCHEMA_VERSION),
+  name: z.string().min(1),
+  version: z.string().default('1.0.0'),
+  /** Installed primitives as "id@version" records */
+  primitives: z.array(z.string().regex(/^[^@\s]+@[^@\s]+$/, 'Must be in format "id@version"')).default([]),
+  adapters: z.record(z.string(), AdapterRecordSchema).default({}),
+  /** Directory of published vault archives to install from, relative to the project root */
+  vault: z.string().min(1).optional(),
+  /** Registries queried in order before the user's registries and the built-in library */
+  registries: z.array(RegistryConfigSchema).default([]),
+  dependencies: z.record(z.string(), z.string()).default({}),
+  devDependencies: z.record(z.string(), z.string()).default({}),
+  metadata: z
+    .object({
+      createdAt: z.string().default(''),
+      updatedAt: z.string().default(''),
+      author: z.string().optional(),
+    })
+    .default({ createdAt: '', updatedAt: '' }),
+});
+
+export type SkeletonConfig = z.infer<typeof SkeletonConfigSchema>;
+
+export class InvalidConfigError extends SkelError {
+  constructor(public issues: Array<{ path: string; message: string }>, file: string = CONFIG_FILE) {
+    super(
+      `Invalid ${file}: ${issues.map(i => `${i.path} ${i.message}`).join('; ')}`,
+      'INVALID_CONFIG'
+    );
+  }
+}
+
+export class UnsupportedConfigVersionError extends SkelError {
+  constructor(found: unknown) {
+    super(
+      `${CONFIG_FILE} has schemaVersion ${String(found)}, this CLI supports up to ${CONFIG_SCHEMA_VERSION}. Upgrade skel.`,
+      'UNSUPPORTED_CONFIG_VERSION'
+    );
+  }
+}
+
+type RawConfig = Record<string, unknown>;
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+/**
+ * Migrations keyed by the schema version they upgrade from
+ */
+const MIGRATIONS: Record<number, (config: RawConfig) => RawConfig> = {
+  // v1: written by `skel init` before primitives replaced skeletons, no schemaVersion field
+  1: ({ skeletons, ...config }) => ({
+    ...config,
+    schemaVersion: 2,
+    primitives: [...new Set([...asArray(config.primitives), ...asArray(skeletons)])],
+  }),
+};
+
+/**
+ * Bring raw config data up to the current schema version
+ *
+ * @returns The migrated data and the version it started from
+ */
+export const migrateConfig = (raw: RawConfig): { config: RawConfig; from: number } => {
+  const from = raw.schemaVersion ?? 1;
+
+  if (typeof from !== 'number' || !Number.isInteger(from) || from < 1 || from > CONFIG_SCHEMA_VERSION) {
+    throw new UnsupportedConfigVersionError(raw.schemaVersion);
+  }
+
+  let config = raw;
+  for (let version = from; version < CONFIG_SCHEMA_VERSION; version++) {
+    config = MIGRATIONS[version](config);
+  }
+
+  return { config, from };
+};
+
+/**
+ * Copy the config to .skel/backups before it is rewritten by a migration
+ */
+const backupConfig = async (projectPath: string, from: number): Promise<string> => {
+  const backupDir = path.join(projectPath, '.skel', 'backups');
+  let backup = path.join(backupDir, `skeleton.config.v${from}.json`);
+  if (await fs.pathExists(backup)) {
+    backup = path.join(backupDir, `skeleton.config.v${from}.${Date.now()}.json`);
+  }
+  await fs.ensureDir(backupDir);
+  await fs.copy(path.join(projectPath, CONFIG_FILE), backup);
+  return backup;
+};
+
+/**
+ * Load the project's skeleton.config.json
+ * Older configs are migrated to the current schema version; the original file
+ * is backed up under .skel/backups and the migrated config written back
+ *
+ * @throws InvalidProjectError if the project has no config
+ * @throws InvalidConfigError if the config is not valid JSON or does not match the schema
+ */
+export const loadProjectConfig = async (projectPath: string): Promise<SkeletonConfig> => {
+  const configPath = path.join(projectPath, CONFIG_FILE);
+  if (!(await fs.pathExists(configPath))) {
+    throw new InvalidProjectError();
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+  } catch (error) {
+    throw new InvalidConfigError([{ path: '$', message: error instanceof Error ? error.message : 'Unreadable JSON' }]);
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new InvalidConfigError([{ path: '$', message: 'Expected an object' }]);
+  }
+
+  const { config, from } = migrateConfig(raw as RawConfig);
+  const result = SkeletonConfigSchema.safeParse(config);
+
+  if (!result.success) {
+    throw new InvalidConfigError(
+      result.error.issues.map(issue => ({ path: toJsonPath(issue.path), message: issue.message }))
+    );
+  }
+
+  if (from < CONFIG_SCHEMA_VERSION) {
+    await backupConfig(projectPath, from);
+    await fs.writeJson(configPath, result.data, { spaces: 2 });
+  }
+
+  return result.data;
+};
+
+/**
+ * Write skeleton.config.json, stamping metadata.updatedAt
+ */
+export const saveProjectConfig = async (projectPath: string, config: SkeletonConfig): Promise<void> => {
+  config.metadata = { ...config.metadata, updatedAt: new Date().toISOString() };
+  await fs.writeJson(path.join(projectPath, CONFIG_FILE), SkeletonConfigSchema.parse(config), { spaces: 2 });
+};
+
+/**
+ * A fresh config for `skel init`
+ */
+export const createProjectConfig = (name: string): SkeletonConfig => {
+  const now = new Date().toISOString();
+  return SkeletonConfigSchema.parse({
+    schemaVersion: CONFIG_SCHEMA_VERSION,
+    name,
+    version: '1.0.0',
+    primitives: [],
+    metadata: { createdAt: now, updatedAt: now },
+  });
+};
@@ -0,0 +1,325 @@
+import archiver from 'archiver';
+import fs from 'fs-extra';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, test, expect, vi } from 'vitest';
+import {
+  buildRegistryIndex,
+  findRegistry,
+  HttpRegistry,
+  listRegistryPrimitives,
+  LocalRegistry,
+  RegistryNotFoundError,
+  RegistryUnavailableError,
+  resolveFromRegistries,
+  VaultRegistry,
+} from './registry';
+import {
+  getRegistries,
+  installPrimitive,
+  installPrimitiveWithDependencies,
+  LIBRARY,
+  upgradePrimitive,
+} from './file-system';
+import { readLockfile } from './lockfile';
+import { InvalidArchiveError } from './vault';
+
+const manifest = (id: string, version: string, requires: Record<string, string> = {}) => ({
+  id,
+  version,
+  description: `${id} primitive`,
+  requires,
+});
+
+async function writeLibraryVersion(root: string, id: string, version: string, requires: Record<string, string> = {}) {
+  await fs.outputJson(path.join(root, ...id.split('.'), version, 'primitive.json'), manifest(id, version, requires));
+}
+
+async function writeZip(file: string, entries: Record<string, string>) {
+  await fs.ensureDir(path.dirname(file));
+  await new Promise<void>((resolve, reject) => {
+    const output = fs.createWriteStream(file);
+    const archive = archiver('zip');
+    output.on('close', () => resolve());
+    archive.on('error', reject);
+    archive.pipe(output);
+    for (const [name, content] of Object.entries(entries)) {
+      archive.append(content, { name });
+    }
+    archive.finalize();
+  });
+}
+
+async function writeVaultVersion(vault: string, id: string, version: string, requires: Record<string, string> = {}) {
+  await writeZip(path.join(vault, `${id}.v${version}.zip`), {
+    'primitive.json': JSON.stringify(manifest(id, version, requires)),
+  });
+}
+
+/**
+ * Serve a directory over HTTP for the duration of a test
+ */
+async function serve(root: string, fn: (url: string) => Promise<void>) {
+  const server = http.createServer(async (req, res) => {
+    const file = path.join(root, decodeURIComponent(new URL(req.url ?? '/', 'http://x').pathname));
+    if (!(await fs.pathExists(file))) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200).end(await fs.readFile(file));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  try {
+    await fn(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+let dir: string;
+const previousEnv = { XDG_CONFIG_HOME: process.env.XDG_CONFIG_HOME, XDG_CACHE_HOME: process.env.XDG_CACHE_HOME };
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(tmpdir(), 'skel-registry-'));
+  process.env.XDG_CONFIG_HOME = path.join(dir, 'config');
+  process.env.XDG_CACHE_HOME = path.join(dir, 'cache');
+});
+
+afterEach(async () => {
+  for (const [key, value] of Object.entries(previousEnv)) {
+    if (value === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = value;
+    }
+  }
+  await fs.remove(dir);
+});
+
+async function createProject(registries: unknown[] = [], name = 'project') {
+  const project = path.join(dir, name);
+  await fs.outputJson(path.join(project, 'skeleton.config.json'), {
+    schemaVersion: 2,
+    name: 'test',
+    primitives: [],
+    registries,
+  });
+  return project;
+}
+
+describe('LocalRegistry', () => {
+  test('lists, resolves and fetches versions from a library folder', async () => {
+    const root = path.join(dir, 'library');
+    await writeLibraryVersion(root, 'utils.uuid', '1.0.0');
+    await writeLibraryVersion(root, 'utils.uuid', '1.2.0');
+    await fs.outputFile(path.join(root, 'utils', 'uuid', '1.2.0', 'node_modules', 'dep', 'index.js'), '');
+    const registry = new LocalRegistry(root);
+
+    expect((await registry.list()).map(p => p.version).sort()).toEqual(['1.0.0', '1.2.0']);
+    expect((await registry.resolve('utils.uuid', '~1.0'))?.version).toBe('1.0.0');
+    expect(await registry.resolve('utils.missing')).toBeNull();
+
+    const dest = path.join(dir, 'out');
+    expect(await registry.fetch('utils.uuid', '1.2.0', dest)).toEqual({ type: 'library', path: 'utils/uuid/1.2.0' });
+    expect(await fs.pathExists(path.join(dest, 'primitive.json'))).toBe(true);
+    expect(await fs.pathExists(path.join(dest, 'node_modules'))).toBe(false);
+  });
+});
+
+describe('registry order', () => {
+  test('the first registry offering a primitive owns every version of it', async () => {
+    const first = path.join(dir, 'first');
+    const second = path.join(dir, 'second');
+    await writeLibraryVersion(first, 'utils.uuid', '1.0.0');
+    await writeLibraryVersion(second, 'utils.uuid', '2.0.0');
+    await writeLibraryVersion(second, 'utils.slug', '1.0.0');
+    const registries = [new LocalRegistry(first, 'first'), new LocalRegistry(second, 'second')];
+
+    const catalog = await listRegistryPrimitives(registries);
+
+    expect(catalog.map(p => `${p.id}@${p.version} ${p.registry}`).sort()).toEqual([
+      'utils.slug@1.0.0 second',
+      'utils.uuid@1.0.0 first',
+    ]);
+    expect(await resolveFromRegistries(registries, 'utils.uuid', '^2')).toBeNull();
+    expect((await resolveFromRegistries(registries, 'utils.slug'))?.registry.name).toBe('second');
+  });
+
+  test('lists each registry once when resolving', async () => {
+    const vault = path.join(dir, 'vault');
+    await writeVaultVersion(vault, 'utils.uuid', '1.0.0');
+    await writeVaultVersion(vault, 'utils.uuid', '1.1.0');
+    const registry = new VaultRegistry(vault);
+    const list = vi.spyOn(registry, 'list');
+
+    expect((await resolveFromRegistries([registry], 'utils.uuid', '^1'))?.primitive.version).toBe('1.1.0');
+    expect(await resolveFromRegistries([registry], 'utils.uuid', '^2')).toBeNull();
+    expect(list).toHaveBeenCalledTimes(2);
+  });
+
+  test('queries project registries, then user registries, then the library', async () => {
+    await fs.outputJson(path.join(dir, 'config', 'skel', 'config.json'), {
+      registries: [{ type: 'vault', path: 'team-vault' }],
+    });
+    const project = await createProject([{ type: 'local', path: 'vendor/primitives' }]);
+
+    const registries = await getRegistries(project);
+
+    expect(registries.map(r => r.name)).toEqual(['vendor/primitives', 'team-vault', LIBRARY]);
+    expect(registries[1]).toBeInstanceOf(VaultRegistry);
+  });
+
+  test('installs from a project registry ahead of the library', async () => {
+    const project = await createProject([{ type: 'local', path: 'vendor' }]);
+    await writeLibraryVersion(path.join(project, 'vendor'), 'utils.uuid', '9.0.0');
+
+    expect(await installPrimitive(project, 'utils.uuid')).toBe('9.0.0');
+
+    const lock = await readLockfile(project);
+    expect(lock.primitives['utils.uuid@9.0.0'].source).toEqual({
+      type: 'library',
+      path: 'utils/uuid/9.0.0',
+      registry: 'project:vendor',
+    });
+  });
+
+  test('tells apart registries declared with the same path by the project and the user', async () => {
+    await fs.outputJson(path.join(dir, 'config', 'skel', 'config.json'), {
+      registries: [{ type: 'local', path: 'lib' }],
+    });
+    const project = await createProject([
+      { type: 'local', path: 'lib' },
+      { type: 'local', path: 'library' },
+    ]);
+    await writeLibraryVersion(path.join(project, 'lib'), 'utils.random', '1.0.0');
+    await writeLibraryVersion(path.join(dir, 'config', 'skel', 'lib'), 'utils.uuid', '1.0.0', { 'utils.random': '^1.0.0' });
+
+    const registries = await getRegistries(project);
+    expect(registries.map(r => r.key)).toEqual(['project:lib', 'project:library', 'user:lib', LIBRARY]);
+
+    await installPrimitiveWithDependencies(project, 'utils.uuid');
+
+    const lock = await readLockfile(project);
+    expect(lock.primitives['utils.uuid@1.0.0'].source.registry).toBe('user:lib');
+    expect(lock.primitives['utils.random@1.0.0'].source.registry).toBe('project:lib');
+  });
+  test('upgrades through the dependency graph, installing new requirements', async () => {
+    const project = await createProject([{ type: 'local', path: 'vendor' }]);
+    const vendor = path.join(project, 'vendor');
+    await writeLibraryVersion(vendor, 'utils.uuid', '1.0.0');
+    await installPrimitive(project, 'utils.uuid', '1.0.0');
+    await writeLibraryVersion(vendor, 'utils.uuid', '1.1.0', { 'utils.random': '^1.0.0' });
+    await writeLibraryVersion(vendor, 'utils.random', '1.0.0');
+
+    expect(await upgradePrimitive(project, 'utils.uuid')).toEqual({ from: '1.0.0', to: '1.1.0', upgraded: true });
+
+    const config = await fs.readJson(path.join(project, 'skeleton.config.json'));
+    expect(config.primitives).toEqual(['utils.uuid@1.1.0', 'utils.random@1.0.0']);
+    expect(Object.keys((await readLockfile(project)).primitives)).toEqual(['utils.random@1.0.0', 'utils.uuid@1.1.0']);
+  });
+
+  test('throws a typed error for a registry that is not configured', () => {
+    const registries = [new LocalRegistry(dir, 'first', 'project:first')];
+
+    expect(findRegistry(registries, 'project:first')).toBe(registries[0]);
+    expect(() => findRegistry(registries, 'first')).toThrow(RegistryNotFoundError);
+  });
+});
+
+describe('HttpRegistry', () => {
+  test('installs primitives and their requirements from an HTTP index', async () => {
+    const vault = path.join(dir, 'vault');
+    await writeVaultVersion(vault, 'utils.uuid', '1.0.0');
+    await writeVaultVersion(vault, 'security.session', '1.0.0', { 'utils.uuid': '^1.0.0' });
+    const index = await buildRegistryIndex(vault);
+    await fs.writeJson(path.join(vault, 'index.json'), index);
+
+    await serve(dir, async base => {
+      const url = `${base}/vault/index.json`;
+      const project = await createProject([{ type: 'http', url }]);
+
+      const graph = await installPrimitiveWithDependencies(project, 'security.session');
+      const lock = await readLockfile(project);
+
+      expect(graph.map(p => p.id)).toEqual(['utils.uuid', 'security.session']);
+      expect(lock.primitives['security.session@1.0.0'].source).toEqual({
+        type: 'http',
+        path: `${base}/vault/security.session.v1.0.0.zip`,
+        registry: `project:${url}`,
+        sha256: index.primitives.find(p => p.id === 'security.session')?.sha256,
+      });
+      expect(await fs.pathExists(path.join(project, 'primitives', 'utils', 'uuid', '1.0.0', 'primitive.json'))).toBe(true);
+    });
+  });
+
+  test('repeats installs offline from the cache', async () => {
+    const vault = path.join(dir, 'vault');
+    await writeVaultVersion(vault, 'utils.uuid', '1.0.0');
+    await fs.writeJson(path.join(vault, 'index.json'), await buildRegistryIndex(vault));
+
+    let url = '';
+    await serve(dir, async base => {
+      url = `${base}/vault/index.json`;
+      await installPrimitive(await createProject([{ type: 'http', url }], 'first'), 'utils.uuid');
+    });
+
+    const offline = await createProject([{ type: 'http', url }], 'second');
+    expect(await installPrimitive(offline, 'utils.uuid')).toBe('1.0.0');
+    expect(await fs.pathExists(path.join(offline, 'primitives', 'utils', 'uuid', '1.0.0', 'primitive.json'))).toBe(true);
+  });
+
+  test('rejects archives that do not match the hash in the index', async () => {
+    const vault = path.join(dir, 'vault');
+    await writeVaultVersion(vault, 'utils.uuid', '1.0.0');
+    const index = await buildRegistryIndex(vault);
+    index.primitives[0].sha256 = '0'.repeat(64);
+    await fs.writeJson(path.join(vault, 'index.json'), index);
+
+    await serve(dir, async base => {
+      const registry = new HttpRegistry(`${base}/vault/index.json`);
+
+      await expect(registry.fetch('utils.uuid', '1.0.0', path.join(dir, 'out'))).rejects.toThrow(InvalidArchiveError);
+    });
+  });
+
+  test('reports a missing index as an unavailable registry', async () => {
+    await serve(dir, async base => {
+      const registry = new HttpRegistry(`${base}/missing/index.json`);
+
+      await expect(registry.list()).rejects.toBeInstanceOf(RegistryUnavailableError);
+    });
+  });
+
+  test('skips an unavailable registry with a warning when listing', async () => {
+    const library = path.join(dir, 'library');
+    await writeLibraryVersion(library, 'utils.uuid', '1.0.0');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await serve(dir, async base => {
+      const missing = new HttpRegistry(`${base}/missing/index.json`);
+      const catalog = await listRegistryPrimitives([missing, new LocalRegistry(library, 'library')]);
+
+      expect(catalog.map(p => `${p.id}@${p.version} ${p.registry}`)).toEqual(['utils.uuid@1.0.0 library']);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining(`Skipping ${base}/missing/index.json`));
+    });
+    warn.mockRestore();
+  });
+
+  test('skips an unavailable registry with a warning when resolving', async () => {
+    const library = path.join(dir, 'library');
+    await writeLibraryVersion(library, 'utils.uuid', '1.0.0');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await serve(dir, async base => {
+      const missing = new HttpRegistry(`${base}/missing/index.json`);
+      const found = await resolveFromRegistries([missing, new LocalRegistry(library, 'library')], 'utils.uuid');
+
+      expect(found?.registry.name).toBe('library');
+      expect(found?.primitive.version).toBe('1.0.0');
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining(`Skipping ${base}/missing/index.json`));
+    });
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,440 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { z } from 'zod';
+import { cacheArchive, cacheIndex, getCachedArchive, readCachedIndex } from './cache.js';
+import { PrimitiveNotFoundError, SkelError } from './errors.js';
+import { hashFile, sha256 } from './hash.js';
+import { PrimitiveSource } from './lockfile.js';
+import { InvalidManifestError, loadManifest, MANIFEST_FILE, PrimitiveManifest, validateManifest } from './manifest.js';
+import { LATEST, resolveVersion } from './versions.js';
+import {
+  DEFAULT_ARCHIVE_LIMITS,
+  extractArchive,
+  InvalidArchiveError,
+  listVaultArchives,
+  readArchiveManifest,
+} from './vault.js';
+
+const REQUEST_TIMEOUT = 30_000;
+const MAX_INDEX_SIZE = 10 * 1024 * 1024;
+
+/**
+ * A registry entry in skeleton.config.json or the user config
+ * Paths are relative to the file that declares them
+ */
+export const RegistryConfigSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('local'), path: z.string().min(1) }),
+  z.object({ type: z.literal('vault'), path: z.string().min(1) }),
+  z.object({ type: z.literal('http'), url: z.url({ protocol: /^https?$/ }) }),
+]);
+
+export type RegistryConfig = z.infer<typeof RegistryConfigSchema>;
+
+export interface PrimitiveSummary {
+  id: string;
+  version: string;
+  description: string;
+  /** Other primitives this one builds on, as id -> semver range */
+  requires: Record<string, string>;
+  manifest: PrimitiveManifest;
+  /** Key of the registry that provides this version */
+  registry?: string;
+}
+
+export class RegistryUnavailableError extends SkelError {
+  constructor(registry: string, reason: string) {
+    super(`Registry ${registry} is unavailable: ${reason}`, 'REGISTRY_UNAVAILABLE');
+  }
+}
+
+export class RegistryNotFoundError extends SkelError {
+  constructor(registry: string) {
+    super(`Registry ${registry} is not configured for this project`, 'REGISTRY_NOT_FOUND');
+  }
+}
+
+/**
+ * A source of primitives
+ */
+export interface RegistryProvider {
+  /** Location as configured, shown in messages */
+  readonly name: string;
+  /** Unique among the registries a project queries, recorded in the lockfile */
+  readonly key: string;
+  /** Every primitive version the registry offers */
+  list(): Promise<PrimitiveSummary[]>;
+  /** The highest version of a primitive matching a range, or null */
+  resolve(primitiveId: string, range?: string): Promise<PrimitiveSummary | null>;
+  /** Unpack a primitive version into destDir and describe where it came from */
+  fetch(primitiveId: string, version: string, destDir: string): Promise<PrimitiveSource>;
+}
+
+abstract class BaseRegistry implements RegistryProvider {
+  abstract readonly name: string;
+  abstract readonly key: string;
+  abstract list(): Promise<PrimitiveSummary[]>;
+  abstract fetch(primitiveId: string, version: string, destDir: string): Promise<PrimitiveSource>;
+
+  async resolve(primitiveId: string, range: string = LATEST): Promise<PrimitiveSummary | null> {
+    const candidates = (await this.list()).filter(p => p.id === primitiveId);
+    const version = resolveVersion(candidates.map(p => p.version), range);
+    return candidates.find(p => p.version === version) ?? null;
+  }
+}
+
+const summarize = (manifest: PrimitiveManifest): PrimitiveSummary => ({
+  id: manifest.id,
+  version: manifest.version,
+  description: manifest.description,
+  requires: manifest.requires,
+  manifest,
+});
+
+const listSubdirectories = async (dir: string): Promise<string[]> => {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  return entries.filter(entry => entry.isDirectory()).map(entry => entry.name);
+};
+
+/**
+ * A library folder laid out as "<category>/<name>/<version>/primitive.json"
+ */
+export class LocalRegistry extends BaseRegistry {
+  constructor(private root: string, public readonly name: string = root, public readonly key: string = name) {
+    super();
+  }
+
+  /**
+   * Manifests that fail schema validation are skipped with a warning
+   */
+  async list(): Promise<PrimitiveSummary[]> {
+    if (!(await fs.pathExists(this.root))) {
+      return [];
+    }
+
+    const primitives: PrimitiveSummary[] = [];
+
+    for (const category of await listSubdirectories(this.root)) {
+      for (const name of await listSubdirectories(path.join(this.root, category))) {
+        for (const version of await listSubdirectories(path.join(this.root, category, name))) {
+          const manifestPath = path.join(this.root, category, name, version, MANIFEST_FILE);
+          if (!(await fs.pathExists(manifestPath))) continue;
+
+          const id = `${category}.${name}`;
+          try {
+            primitives.push(summarize(await loadManifest(manifestPath, { id, version })));
+          } catch (error) {
+            if (!(error instanceof InvalidManifestError)) throw error;
+            console.warn(`⚠️ Skipping ${id}@${version}: ${error.message}`);
+          }
+        }
+      }
+    }
+
+    return primitives;
+  }
+
+  async fetch(primitiveId: string, version: string, destDir: string): Promise<PrimitiveSource> {
+    const relative = [...primitiveId.split('.'), version].join('/');
+    const sourceDir = path.join(this.root, relative);
+
+    if (!(await fs.pathExists(path.join(sourceDir, MANIFEST_FILE)))) {
+      throw new PrimitiveNotFoundError(`${primitiveId}@${version}`);
+    }
+
+    await fs.copy(sourceDir, destDir, {
+      filter: file => path.basename(file) !== 'node_modules',
+    });
+
+    return { type: 'library', path: relative };
+  }
+}
+
+/**
+ * A folder of "<id>.v<version>.zip" archives published by the factory
+ */
+export class VaultRegistry extends BaseRegistry {
+  constructor(private root: string, public readonly name: string = root, public readonly key: string = name) {
+    super();
+  }
+
+  /**
+   * Archives that are unsafe or carry an invalid manifest are skipped with a warning
+   */
+  async list(): Promise<PrimitiveSummary[]> {
+    const primitives: PrimitiveSummary[] = [];
+
+    for (const { id, version, archive } of await listVaultArchives(this.root)) {
+      try {
+        primitives.push(summarize(await readArchiveManifest(archive)));
+      } catch (error) {
+        if (!(error instanceof InvalidArchiveError)) throw error;
+        console.warn(`⚠️ Skipping ${id}@${version}: ${error.message}`);
+      }
+    }
+
+    return primitives;
+  }
+
+  async fetch(primitiveId: string, version: string, destDir: string): Promise<PrimitiveSource> {
+    const file = `${primitiveId}.v${version}.zip`;
+    const archive = path.join(this.root, file);
+
+    if (!(await fs.pathExists(archive))) {
+      throw new PrimitiveNotFoundError(`${primitiveId}@${version}`);
+    }
+
+    // Extract the vault's own copy on a cache miss, so rejections name the vault file
+    const hash = await hashFile(archive);
+    const cached = await getCachedArchive(hash);
+    await extractArchive(cached ?? archive, destDir);
+    if (!cached) {
+      await cacheArchive(archive, { id: primitiveId, version, source: archive });
+    }
+
+    return { type: 'vault', path: file, sha256: hash };
+  }
+}
+
+const RegistryIndexSchema = z.object({
+  primitives: z.array(
+    z.object({
+      id: z.string().min(1),
+      version: z.string().min(1),
+      /** Archive URL, relative to the index */
+      archive: z.string().min(1),
+      sha256: z.string().regex(/^[a-f0-9]{64}$/, 'Must be a hex SHA-256 digest'),
+      manifest: z.unknown(),
+    })
+  ),
+});
+
+export type RegistryIndex = z.infer<typeof RegistryIndexSchema>;
+
+/**
+ * Download a URL into memory, refusing bodies larger than limit bytes
+ */
+const download = async (url: URL, limit: number): Promise<Buffer> => {
+  const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT) });
+  if (!response.ok || !response.body) {
+    throw new Error(`GET ${url.href} returned ${response.status}`);
+  }
+  if (Number(response.headers.get('content-length')) > limit) {
+    throw new Error(`${url.href} is larger than ${limit} bytes`);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    size += chunk.value.length;
+    if (size > limit) {
+      await reader.cancel();
+      throw new Error(`${url.href} is larger than ${limit} bytes`);
+    }
+    chunks.push(Buffer.from(chunk.value));
+  }
+  return Buffer.concat(chunks);
+};
+
+/**
+ * A JSON index served over HTTP (see buildRegistryIndex), pointing at vault archives
+ */
+export class HttpRegistry extends BaseRegistry {
+  private index?: Promise<RegistryIndex>;
+
+  constructor(public readonly name: string, public readonly key: string = name) {
+    super();
+  }
+
+  /**
+   * Fetch the index, falling back to the last cached copy when the registry
+   * cannot be reached
+   */
+  private loadIndex(): Promise<RegistryIndex> {
+    this.index ??= (async () => {
+      let data: unknown;
+      try {
+        data = JSON.parse((await download(new URL(this.name), MAX_INDEX_SIZE)).toString('utf-8'));
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        data = await readCachedIndex(this.name);
+        if (!data) {
+          throw new RegistryUnavailableError(this.name, reason);
+        }
+        console.warn(`⚠️ Registry ${this.name} is unavailable (${reason}), using the cached index`);
+      }
+
+      const result = RegistryIndexSchema.safeParse(data);
+      if (!result.success) {
+        throw new RegistryUnavailableError(this.name, `malformed index (${result.error.issues[0].message})`);
+      }
+      await cacheIndex(this.name, result.data);
+      return result.data;
+    })();
+    return this.index;
+  }
+
+  /**
+   * Entries with an invalid manifest are skipped with a warning
+   */
+  async list(): Promise<PrimitiveSummary[]> {
+    const primitives: PrimitiveSummary[] = [];
+
+    for (const entry of (await this.loadIndex()).primitives) {
+      const { manifest, issues } = validateManifest(entry.manifest, { id: entry.id, version: entry.version });
+      if (manifest) {
+        primitives.push(summarize(manifest));
+      } else {
+        console.warn(`⚠️ Skipping ${entry.id}@${entry.version}: ${issues.map(i => `${i.path} ${i.message}`).join('; ')}`);
+      }
+    }
+
+    return primitives;
+  }
+
+  /**
+   * Downloads the archive unless the cache already holds it, checks it against
+   * the SHA-256 in the index and extracts it
+   */
+  async fetch(primitiveId: string, version: string, destDir: string): Promise<PrimitiveSource> {
+    const entry = (await this.loadIndex()).primitives.find(p => p.id === primitiveId && p.version === version);
+    if (!entry) {
+      throw new PrimitiveNotFoundError(`${primitiveId}@${version}`);
+    }
+
+    const url = new URL(entry.archive, this.name);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new InvalidArchiveError(url.href, 'archives must be served over http(s)');
+    }
+
+    let archive = await getCachedArchive(entry.sha256);
+    if (!archive) {
+      let content: Buffer;
+      try {
+        content = await download(url, DEFAULT_ARCHIVE_LIMITS.maxTotalSize);
+      } catch (error) {
+        throw new RegistryUnavailableError(this.name, error instanceof Error ? error.message : String(error));
+      }
+      if (sha256(content) !== entry.sha256) {
+        throw new InvalidArchiveError(url.href, 'SHA-256 does not match the registry index');
+      }
+      archive = (await cacheArchive(content, { id: primitiveId, version, source: url.href })).archive;
+    }
+
+    await extractArchive(archive, destDir);
+    return { type: 'http', path: url.href, sha256: entry.sha256 };
+  }
+}
+
+/**
+ * Build the JSON index for a vault folder, so it can be served as an HTTP registry
+ */
+export const buildRegistryIndex = async (vaultDir: string): Promise<RegistryIndex> => {
+  const primitives: RegistryIndex['primitives'] = [];
+
+  for (const { id, version, archive } of await listVaultArchives(vaultDir)) {
+    primitives.push({
+      id,
+      version,
+      archive: path.basename(archive),
+      sha256: await hashFile(archive),
+      manifest: await readArchiveManifest(archive),
+    });
+  }
+
+  return { primitives };
+};
+
+/** Config file a registry is declared in */
+export type RegistryScope = 'project' | 'user';
+
+/**
+ * Create the provider for a configured registry
+ * Its key is the scope plus the location, so the same path declared by the
+ * project and by the user names two different registries
+ *
+ * @param config - Registry entry from a config file
+ * @param baseDir - Directory relative paths are resolved against
+ * @param scope - Config file the entry comes from
+ */
+export const createRegistry = (config: RegistryConfig, baseDir: string, scope: RegistryScope): RegistryProvider => {
+  switch (config.type) {
+    case 'local':
+      return new LocalRegistry(path.resolve(baseDir, config.path), config.path, `${scope}:${config.path}`);
+    case 'vault':
+      return new VaultRegistry(path.resolve(baseDir, config.path), config.path, `${scope}:${config.path}`);
+    case 'http':
+      return new HttpRegistry(config.url, `${scope}:${config.url}`);
+  }
+};
+
+/**
+ * Merge the primitives of several registries, queried in order
+ * The first registry offering any version of a primitive provides all of its
+ * versions, so a later registry can never shadow a primitive an earlier one owns.
+ * Registries that cannot be reached are skipped with a warning
+ */
+export const listRegistryPrimitives = async (registries: RegistryProvider[]): Promise<PrimitiveSummary[]> => {
+  const catalog: PrimitiveSummary[] = [];
+  const owned = new Set<string>();
+
+  for (const registry of registries) {
+    let listed: PrimitiveSummary[];
+    try {
+      listed = await registry.list();
+    } catch (error) {
+      if (!(error instanceof RegistryUnavailableError)) throw error;
+      console.warn(`⚠️ Skipping ${registry.name}: ${error.message}`);
+      continue;
+    }
+    catalog.push(...listed.filter(p => !owned.has(p.id)).map(p => ({ ...p, registry: registry.key })));
+    listed.forEach(p => owned.add(p.id));
+  }
+
+  return catalog;
+};
+
+/**
+ * Pick a registry by key from those a project queries
+ *
+ * @throws RegistryNotFoundError when none of them has that key
+ */
+export const findRegistry = (registries: RegistryProvider[], key: string | undefined): RegistryProvider => {
+  const registry = registries.find(r => r.key === key);
+  if (!registry) {
+    throw new RegistryNotFoundError(key ?? '(none)');
+  }
+  return registry;
+};
+
+/**
+ * Find the registry that owns a primitive and the version matching a range
+ * Registries that cannot be reached are skipped with a warning
+ *
+ * @returns null when no registry has the primitive, or its owner has no matching version
+ */
+export const resolveFromRegistries = async (
+  registries: RegistryProvider[],
+  primitiveId: string,
+  range: string = LATEST
+): Promise<{ registry: RegistryProvider; primitive: PrimitiveSummary } | null> => {
+  for (const registry of registries) {
+    // One listing answers both whether the registry owns the primitive and which version matches
+    let listed: PrimitiveSummary[];
+    try {
+      listed = await registry.list();
+    } catch (error) {
+      if (!(error instanceof RegistryUnavailableError)) throw error;
+      console.warn(`⚠️ Skipping ${registry.name}: ${error.message}`);
+      continue;
+    }
+
+    const candidates = listed.filter(p => p.id === primitiveId);
+    if (candidates.length === 0) continue;
+
+    const version = resolveVersion(candidates.map(p => p.version), range);
+    const primitive = candidates.find(p => p.version === version);
+    return primitive ? { registry, primitive: { ...primitive, registry: registry.key } } : null;
+  }
+  return null;
+};
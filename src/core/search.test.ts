@@ -0,0 +1,113 @@
+import { describe, test, expect } from 'vitest';
+import { latestVersions, searchPrimitives, tokenize } from './search';
+import { PrimitiveManifestSchema } from './manifest';
+import { PrimitiveSummary } from './registry';
+
+const primitive = (data: Record<string, unknown>): PrimitiveSummary => {
+  const manifest = PrimitiveManifestSchema.parse(data);
+  return { id: manifest.id, version: manifest.version, description: manifest.description, requires: {}, manifest };
+};
+
+const catalog = [
+  primitive({
+    id: 'security.tokenizer',
+    version: '1.0.0',
+    description: 'JWT Signing/Verification using jose. Supports HS256 and RS256.',
+    tags: ['auth', 'jwt'],
+  }),
+  primitive({
+    id: 'security.tokenizer',
+    version: '1.1.0',
+    description: 'JWT Signing/Verification using jose. Supports HS256 and RS256.',
+    tags: ['auth', 'jwt'],
+  }),
+  primitive({
+    id: 'security.tokenizer',
+    version: '2.0.0-beta.1',
+    description: 'JWT Signing/Verification using jose.',
+    tags: ['auth', 'jwt'],
+  }),
+  primitive({
+    id: 'security.hasher',
+    version: '1.0.0',
+    description: 'Argon2id password hashing.',
+    tags: ['auth', 'password'],
+    interface: { inputs: [{ name: 'password', type: 'string' }], outputs: { type: 'string', description: 'Encoded hash' } },
+  }),
+  primitive({
+    id: 'utils.uuid',
+    version: '1.0.0',
+    description: 'UUID v7 generator that can sign nothing.',
+  }),
+];
+
+describe('tokenize', () => {
+  test('splits ids, camelCase and punctuation and stems suffixes', () => {
+    expect(tokenize('security.tokenizer JWT Signing/Verification')).toEqual([
+      'security',
+      'tokenizer',
+      'jwt',
+      'sign',
+      'verification',
+    ]);
+    expect(tokenize('hashPassword')).toEqual(['hash', 'password']);
+  });
+
+  test('stems singular and plural forms alike', () => {
+    expect(tokenize('service services')).toEqual(['servic', 'servic']);
+    expect(tokenize('token tokens')).toEqual(['token', 'token']);
+    expect(tokenize('hash hashes')).toEqual(['hash', 'hash']);
+    expect(tokenize('cache caches')).toEqual(['cach', 'cach']);
+  });
+
+  test('stems verb forms alike', () => {
+    expect(tokenize('validate validates validated validating')).toEqual(['validat', 'validat', 'validat', 'validat']);
+    expect(tokenize('sign signs signed signing')).toEqual(['sign', 'sign', 'sign', 'sign']);
+    expect(tokenize('use uses')).toEqual(['use', 'use']);
+  });
+});
+
+describe('latestVersions', () => {
+  test('keeps the latest stable version of each primitive', () => {
+    expect(latestVersions(catalog).map(p => `${p.id}@${p.version}`)).toEqual([
+      'security.tokenizer@1.1.0',
+      'security.hasher@1.0.0',
+      'utils.uuid@1.0.0',
+    ]);
+  });
+});
+
+describe('searchPrimitives', () => {
+  test('ranks the best match first and lists each primitive once', () => {
+    const results = searchPrimitives(catalog, 'jwt sign');
+
+    expect(results.map(r => r.primitive.id)).toEqual(['security.tokenizer', 'utils.uuid']);
+    expect(results[0].primitive.version).toBe('1.1.0');
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  test('matches interface text', () => {
+    expect(searchPrimitives(catalog, 'encoded').map(r => r.primitive.id)).toEqual(['security.hasher']);
+  });
+
+  test('filters by category and tags', () => {
+    expect(searchPrimitives(catalog, 'sign', { category: 'utils' }).map(r => r.primitive.id)).toEqual(['utils.uuid']);
+    expect(searchPrimitives(catalog, 'auth', { tags: ['password'] }).map(r => r.primitive.id)).toEqual([
+      'security.hasher',
+    ]);
+  });
+
+  test('matches singular queries against plural text and back', () => {
+    const services = [
+      primitive({ id: 'infra.registry', version: '1.0.0', description: 'Discovers services and validates them.' }),
+    ];
+
+    expect(searchPrimitives(services, 'service').map(r => r.primitive.id)).toEqual(['infra.registry']);
+    expect(searchPrimitives(services, 'validate').map(r => r.primitive.id)).toEqual(['infra.registry']);
+    expect(searchPrimitives(catalog, 'hashes').map(r => r.primitive.id)).toEqual(['security.hasher']);
+  });
+
+  test('returns nothing when no term matches', () => {
+    expect(searchPrimitives(catalog, 'kafka')).toEqual([]);
+  });
+});
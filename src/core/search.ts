@@ -0,0 +1,141 @@
+import semver from 'semver';
+import { PrimitiveSummary } from './registry.js';
+import { LATEST, resolveVersion } from './versions.js';
+
+/** BM25 term frequency saturation */
+const K1 = 1.2;
+/** BM25 document length normalization */
+const B = 0.75;
+
+/**
+ * How much a match in each manifest field counts, relative to the description
+ */
+const FIELD_WEIGHTS = {
+  id: 3,
+  tags: 2,
+  description: 1,
+  interface: 1,
+};
+
+export interface SearchOptions {
+  /** Only primitives in this category (the part of the id before the dot) */
+  category?: string;
+  /** Only primitives carrying every one of these tags */
+  tags?: string[];
+}
+
+export interface SearchResult {
+  primitive: PrimitiveSummary;
+  score: number;
+}
+
+/**
+ * Strip common English suffixes so "signing", "signed" and "signs" all match "sign"
+ * A final "e" goes too, so "service" meets "services" and "validate" meets "validated"
+ */
+const stem = (word: string): string => {
+  const suffix = ['ing', 'ed', 'es', 's'].find(s => word.endsWith(s) && word.length - s.length >= 3);
+  const base = suffix ? word.slice(0, -suffix.length) : word;
+  return base.endsWith('e') && base.length > 3 ? base.slice(0, -1) : base;
+};
+
+/**
+ * Split text into lowercase, stemmed terms
+ * camelCase, dotted ids and kebab-case are split into their parts
+ */
+export const tokenize = (text: string): string[] =>
+  text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 0)
+    .map(stem);
+
+/**
+ * Weighted terms of a primitive: each field's terms repeated by its weight
+ */
+const documentTerms = ({ manifest }: PrimitiveSummary): string[] => {
+  const inputs = manifest.interface?.inputs ?? [];
+  const output = manifest.interface?.outputs;
+  const fields: Record<keyof typeof FIELD_WEIGHTS, string> = {
+    id: manifest.id,
+    tags: manifest.tags.join(' '),
+    description: manifest.description,
+    interface: [
+      ...inputs.map(input => `${input.name} ${input.type} ${input.description ?? ''}`),
+      output ? `${output.type} ${output.description ?? ''}` : '',
+    ].join(' '),
+  };
+
+  return (Object.keys(fields) as Array<keyof typeof FIELD_WEIGHTS>).flatMap(field =>
+    tokenize(fields[field]).flatMap(term => Array<string>(FIELD_WEIGHTS[field]).fill(term))
+  );
+};
+
+/**
+ * Keep one entry per primitive: the latest stable version, or the highest
+ * prerelease when there is no stable one
+ */
+export const latestVersions = (primitives: PrimitiveSummary[]): PrimitiveSummary[] => {
+  const byId = new Map<string, PrimitiveSummary[]>();
+  for (const primitive of primitives) {
+    byId.set(primitive.id, [...(byId.get(primitive.id) ?? []), primitive]);
+  }
+
+  return [...byId.values()].map(versions => {
+    const available = versions.map(p => p.version);
+    const latest = resolveVersion(available, LATEST) ?? semver.rsort(available.filter(v => semver.valid(v)))[0];
+    return versions.find(p => p.version === latest) ?? versions[0];
+  });
+};
+
+/**
+ * Rank primitives against a free-text query with BM25 over their manifests
+ * Versions are collapsed to the latest first, so each primitive appears once
+ *
+ * @param primitives - Catalog to search (see listAvailablePrimitives)
+ * @param query - Free text, e.g. "jwt sign"
+ * @returns Primitives matching at least one query term, best match first
+ */
+export const searchPrimitives = (
+  primitives: PrimitiveSummary[],
+  query: string,
+  options: SearchOptions = {}
+): SearchResult[] => {
+  const candidates = latestVersions(primitives).filter(
+    ({ id, manifest }) =>
+      (!options.category || id.split('.')[0] === options.category) &&
+      (options.tags ?? []).every(tag => manifest.tags.includes(tag))
+  );
+  if (candidates.length === 0) return [];
+
+  const documents = candidates.map(documentTerms);
+  const averageLength = documents.reduce((sum, terms) => sum + terms.length, 0) / documents.length;
+  const queryTerms = [...new Set(tokenize(query))];
+
+  const documentFrequency = new Map<string, number>();
+  for (const term of queryTerms) {
+    documentFrequency.set(term, documents.filter(terms => terms.includes(term)).length);
+  }
+
+  const results: SearchResult[] = [];
+  candidates.forEach((primitive, index) => {
+    const terms = documents[index];
+    let score = 0;
+
+    for (const term of queryTerms) {
+      const frequency = terms.filter(t => t === term).length;
+      if (frequency === 0) continue;
+
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      score += (idf * frequency * (K1 + 1)) / (frequency + K1 * (1 - B + (B * terms.length) / (averageLength || 1)));
+    }
+
+    if (score > 0) {
+      results.push({ primitive, score });
+    }
+  });
+
+  return results.sort((a, b) => b.score - a.score || a.primitive.id.localeCompare(b.primitive.id));
+};
@@ -0,0 +1,41 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { z } from 'zod';
+import { InvalidConfigError } from './project-config.js';
+import { RegistryConfigSchema } from './registry.js';
+import { toJsonPath } from './validation.js';
+
+export const USER_CONFIG_FILE = 'config.json';
+
+/**
+ * Per-user settings shared by every project, in $XDG_CONFIG_HOME/skel/config.json
+ */
+export const UserConfigSchema = z.looseObject({
+  /** Registries queried after the project's own, before the built-in library */
+  registries: z.array(RegistryConfigSchema).default([]),
+});
+
+export type UserConfig = z.infer<typeof UserConfigSchema>;
+
+export const getUserConfigDir = (): string =>
+  path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'skel');
+
+/**
+ * Load the user config, or the defaults when there is none
+ *
+ * @throws InvalidConfigError if the file does not match the schema
+ */
+export const loadUserConfig = async (): Promise<UserConfig> => {
+  const file = path.join(getUserConfigDir(), USER_CONFIG_FILE);
+  const result = UserConfigSchema.safeParse((await fs.pathExists(file)) ? await fs.readJson(file) : {});
+
+  if (!result.success) {
+    throw new InvalidConfigError(
+      result.error.issues.map(issue => ({ path: toJsonPath(issue.path), message: issue.message })),
+      file
+    );
+  }
+
+  return result.data;
+};
@@ -10,3 +10,28 @@ export const validateProjectName = (name: string): string | true => {
   }
   return true;
 };
+
+/**
+ * Split a primitive reference like "security.tokenizer@1.0.0" into its id and optional version
+ */
+export const parsePrimitiveRef = (ref: string): { primitiveId: string; version?: string } => {
+  const at = ref.indexOf('@');
+  if (at === -1) {
+    return { primitiveId: ref };
+  }
+  return { primitiveId: ref.slice(0, at), version: ref.slice(at + 1) || undefined };
+};
+
+/**
+ * Format a schema issue path as a JSON path, e.g. ["interface", "inputs", 0] -> "$.interface.inputs[0]"
+ */
+export const toJsonPath = (segments: PropertyKey[]): string =>
+  segments.reduce<string>(
+    (acc, segment) =>
+      typeof segment === 'number'
+        ? `${acc}[${segment}]`
+        : /^[A-Za-z_$][\w$]*$/.test(String(segment))
+          ? `${acc}.${String(segment)}`
+          : `${acc}[${JSON.stringify(String(segment))}]`,
+    '$'
+  );
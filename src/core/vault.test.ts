@@ -0,0 +1,233 @@
+import archiver from 'archiver';
+import fs from 'fs-extra';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, test, expect } from 'vitest';
+import { extractArchive, InvalidArchiveError, listVaultArchives, parseArchiveName, readArchiveManifest } from './vault';
+import { installPrimitiveFromArchive, installPrimitiveWithDependencies } from './file-system';
+import { readLockfile } from './lockfile';
+import { hashFile } from './hash';
+
+type ZipEntry = { name: string; content?: string; symlink?: string };
+
+const manifest = (id: string, version: string, requires: Record<string, string> = {}) =>
+  JSON.stringify({ id, version, description: `${id} primitive`, requires });
+
+async function writeZip(file: string, entries: ZipEntry[]) {
+  await fs.ensureDir(path.dirname(file));
+  await new Promise<void>((resolve, reject) => {
+    const output = fs.createWriteStream(file);
+    const archive = archiver('zip');
+    output.on('close', () => resolve());
+    archive.on('error', reject);
+    archive.pipe(output);
+    for (const entry of entries) {
+      if (entry.symlink) {
+        archive.symlink(entry.name, entry.symlink);
+      } else {
+        archive.append(entry.content ?? '', { name: entry.name });
+      }
+    }
+    archive.finalize();
+  });
+}
+
+// Keep installs from filling the real archive cache
+const previousCacheHome = process.env.XDG_CACHE_HOME;
+let cacheHome: string;
+
+beforeAll(async () => {
+  cacheHome = await fs.mkdtemp(path.join(tmpdir(), 'skel-cache-'));
+  process.env.XDG_CACHE_HOME = cacheHome;
+});
+
+afterAll(async () => {
+  if (previousCacheHome === undefined) {
+    delete process.env.XDG_CACHE_HOME;
+  } else {
+    process.env.XDG_CACHE_HOME = previousCacheHome;
+  }
+  await fs.remove(cacheHome);
+});
+
+async function withDir(fn: (dir: string) => Promise<void>) {
+  const dir = await fs.mkdtemp(path.join(tmpdir(), 'skel-vault-test-'));
+  try {
+    await fn(dir);
+  } finally {
+    await fs.remove(dir);
+  }
+}
+
+async function withProject(fn: (project: string, vault: string) => Promise<void>) {
+  await withDir(async dir => {
+    const project = path.join(dir, 'project');
+    await fs.outputJson(path.join(project, 'skeleton.config.json'), {
+      schemaVersion: 2,
+      name: 'test',
+      primitives: [],
+    });
+    await fn(project, path.join(dir, 'vault'));
+  });
+}
+
+describe('parseArchiveName', () => {
+  test('splits id and version', () => {
+    expect(parseArchiveName('/vault/security.hasher.v1.2.0-beta.1.zip')).toEqual({
+      id: 'security.hasher',
+      version: '1.2.0-beta.1',
+    });
+    expect(parseArchiveName('hasher.zip')).toBeNull();
+  });
+});
+
+describe('extractArchive', () => {
+  test('extracts regular files', async () => {
+    await withDir(async dir => {
+      const zip = path.join(dir, 'utils.uuid.v1.0.0.zip');
+      await writeZip(zip, [
+        { name: 'primitive.json', content: manifest('utils.uuid', '1.0.0') },
+        { name: 'src/index.ts', content: 'export {};' },
+      ]);
+
+      await extractArchive(zip, path.join(dir, 'out'));
+
+      expect(await fs.readFile(path.join(dir, 'out', 'src', 'index.ts'), 'utf-8')).toBe('export {};');
+    });
+  });
+
+  test('rejects entries that escape the destination', async () => {
+    await withDir(async dir => {
+      const zip = path.join(dir, 'utils.uuid.v1.0.0.zip');
+      await writeZip(zip, [{ name: 'src/../../../evil.txt', content: 'pwned' }]);
+
+      await expect(extractArchive(zip, path.join(dir, 'out', 'nested'))).rejects.toThrow(InvalidArchiveError);
+      expect(await fs.pathExists(path.join(dir, 'evil.txt'))).toBe(false);
+      expect(await fs.pathExists(path.join(dir, 'out', 'nested'))).toBe(false);
+    });
+  });
+
+  test('rejects symbolic links', async () => {
+    await withDir(async dir => {
+      const zip = path.join(dir, 'utils.uuid.v1.0.0.zip');
+      await writeZip(zip, [{ name: 'passwd', symlink: '/etc/passwd' }]);
+
+      await expect(extractArchive(zip, path.join(dir, 'out'))).rejects.toThrow(/symbolic link/);
+    });
+  });
+
+  test('enforces size and entry limits', async () => {
+    await withDir(async dir => {
+      const zip = path.join(dir, 'utils.uuid.v1.0.0.zip');
+      await writeZip(zip, [
+        { name: 'a.txt', content: 'x'.repeat(64) },
+        { name: 'b.txt', content: 'x'.repeat(64) },
+      ]);
+      const out = path.join(dir, 'out');
+
+      await expect(extractArchive(zip, out, { maxEntries: 10, maxEntrySize: 32, maxTotalSize: 1000 })).rejects.toThrow(
+        /larger than 32 bytes/
+      );
+      await expect(extractArchive(zip, out, { maxEntries: 10, maxEntrySize: 100, maxTotalSize: 100 })).rejects.toThrow(
+        /contents are larger/
+      );
+      await expect(extractArchive(zip, out, { maxEntries: 1, maxEntrySize: 100, maxTotalSize: 1000 })).rejects.toThrow(
+        /more than 1 entries/
+      );
+    });
+  });
+});
+
+describe('readArchiveManifest', () => {
+  test('rejects a manifest that does not match the archive name', async () => {
+    await withDir(async dir => {
+      const zip = path.join(dir, 'utils.uuid.v1.0.0.zip');
+      await writeZip(zip, [{ name: 'primitive.json', content: manifest('utils.uuid', '2.0.0') }]);
+
+      await expect(readArchiveManifest(zip)).rejects.toThrow(/\$\.version/);
+    });
+  });
+});
+
+describe('vault installs', () => {
+  test('lists archives and installs with requirements from the vault', async () => {
+    await withProject(async (project, vault) => {
+      await writeZip(path.join(vault, 'utils.uuid.v1.0.0.zip'), [
+        { name: 'primitive.json', content: manifest('utils.uuid', '1.0.0') },
+      ]);
+      await writeZip(path.join(vault, 'security.session.v1.0.0.zip'), [
+        { name: 'primitive.json', content: manifest('security.session', '1.0.0', { 'utils.uuid': '^1.0.0' }) },
+      ]);
+      await fs.outputFile(path.join(vault, 'README.md'), 'not an archive');
+
+      expect((await listVaultArchives(vault)).map(a => a.id)).toEqual(['security.session', 'utils.uuid']);
+
+      const graph = await installPrimitiveWithDependencies(project, 'security.session', 'latest', { vault });
+      const lock = await readLockfile(project);
+
+      expect(graph.map(p => p.id)).toEqual(['utils.uuid', 'security.session']);
+      expect(lock.primitives['utils.uuid@1.0.0'].source).toEqual({
+        type: 'vault',
+        path: 'utils.uuid.v1.0.0.zip',
+        registry: vault,
+        sha256: await hashFile(path.join(vault, 'utils.uuid.v1.0.0.zip')),
+      });
+      expect(await fs.pathExists(path.join(project, 'primitives', 'security', 'session', '1.0.0', 'primitive.json'))).toBe(
+        true
+      );
+    });
+  });
+
+  test('installs the whole archive tree, not just the manifest', async () => {
+    await withProject(async (project, vault) => {
+      const zip = path.join(vault, 'utils.uuid.v1.0.0.zip');
+      await writeZip(zip, [
+        { name: 'primitive.json', content: manifest('utils.uuid', '1.0.0') },
+        { name: 'src/index.ts', content: 'export const uuid = () => crypto.randomUUID();\n' },
+        { name: 'node_modules/dep/index.js', content: '' },
+      ]);
+
+      await installPrimitiveFromArchive(project, zip);
+
+      const installed = path.join(project, 'primitives', 'utils', 'uuid', '1.0.0');
+      expect(await fs.readFile(path.join(installed, 'src', 'index.ts'), 'utf-8')).toContain('randomUUID');
+      expect(await fs.pathExists(path.join(installed, 'node_modules'))).toBe(false);
+    });
+  });
+
+  test('locks a hash of every installed file, so a source change changes the entry', async () => {
+    await withProject(async (project, vault) => {
+      const zip = path.join(vault, 'utils.uuid.v1.0.0.zip');
+      const lockedWith = async (source: string) => {
+        await writeZip(zip, [
+          { name: 'primitive.json', content: manifest('utils.uuid', '1.0.0') },
+          { name: 'src/index.ts', content: source },
+        ]);
+        await installPrimitiveFromArchive(project, zip);
+        return (await readLockfile(project)).primitives['utils.uuid@1.0.0'];
+      };
+
+      const before = await lockedWith('export const uuid = () => crypto.randomUUID();\n');
+      const after = await lockedWith('export const uuid = () => "not random";\n');
+
+      expect(Object.keys(before.files)).toEqual(['primitive.json', 'src/index.ts']);
+      expect(after.files['primitive.json']).toBe(before.files['primitive.json']);
+      expect(after.files['src/index.ts']).not.toBe(before.files['src/index.ts']);
+      expect(after).not.toEqual(before);
+    });
+  });
+
+  test('leaves the project untouched when an archive is rejected', async () => {
+    await withProject(async (project, vault) => {
+      const zip = path.join(vault, 'utils.uuid.v1.0.0.zip');
+      await writeZip(zip, [
+        { name: 'primitive.json', content: manifest('utils.uuid', '1.0.0') },
+        { name: 'a/../../escape.ts', content: '' },
+      ]);
+
+      await expect(installPrimitiveFromArchive(project, zip)).rejects.toThrow(InvalidArchiveError);
+      expect(await fs.pathExists(path.join(project, 'primitives'))).toBe(false);
+      expect(await fs.readJson(path.join(project, 'skeleton.config.json'))).toMatchObject({ primitives: [] });
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import fs from 'fs-extra';
+import path from 'path';
+import yauzl from 'yauzl';
+import { SkelError } from './errors.js';
+import { MANIFEST_FILE, validateManifest, PrimitiveManifest } from './manifest.js';
+
+/**
+ * Vault archives are published by the factory as "<id>.v<version>.zip"
+ */
+const ARCHIVE_NAME = /^([a-z][a-z0-9-]*\.[a-z][a-z0-9-]*)\.v(.+)\.zip$/;
+
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+
+export interface ArchiveLimits {
+  /** Maximum number of entries in one archive */
+  maxEntries: number;
+  /** Maximum uncompressed size of a single entry, in bytes */
+  maxEntrySize: number;
+  /** Maximum uncompressed size of the whole archive, in bytes */
+  maxTotalSize: number;
+}
+
+export const DEFAULT_ARCHIVE_LIMITS: ArchiveLimits = {
+  maxEntries: 2000,
+  maxEntrySize: 5 * 1024 * 1024,
+  maxTotalSize: 50 * 1024 * 1024,
+};
+
+export class InvalidArchiveError extends SkelError {
+  constructor(archive: string, reason: string) {
+    super(`Refusing to install from ${archive}: ${reason}`, 'INVALID_ARCHIVE');
+  }
+}
+
+export interface VaultArchive {
+  id: string;
+  version: string;
+  archive: string;
+}
+
+/**
+ * Parse a vault archive file name into its primitive id and version
+ */
+export const parseArchiveName = (file: string): { id: string; version: string } | null => {
+  const match = ARCHIVE_NAME.exec(path.basename(file));
+  return match ? { id: match[1], version: match[2] } : null;
+};
+
+/**
+ * List the archives in a vault directory
+ */
+export const listVaultArchives = async (vaultDir: string): Promise<VaultArchive[]> => {
+  if (!(await fs.pathExists(vaultDir))) return [];
+
+  const archives: VaultArchive[] = [];
+  for (const file of (await fs.readdir(vaultDir)).sort()) {
+    const parsed = parseArchiveName(file);
+    if (parsed) {
+      archives.push({ ...parsed, archive: path.join(vaultDir, file) });
+    }
+  }
+  return archives;
+};
+
+/**
+ * Reject entry names that could escape the extraction directory (zip-slip)
+ */
+const checkEntryName = (name: string): string | null => {
+  if (name.includes('\0')) return 'entry name contains a null byte';
+  if (name.includes('\\')) return `entry "${name}" uses backslashes`;
+  if (path.posix.isAbsolute(name) || /^[a-zA-Z]:/.test(name)) return `entry "${name}" is an absolute path`;
+  if (name.split('/').includes('..')) return `entry "${name}" escapes the archive root`;
+  return null;
+};
+
+const openZip = (archive: string): Promise<yauzl.ZipFile> =>
+  new Promise((resolve, reject) => {
+    yauzl.open(archive, { lazyEntries: true, autoClose: true, validateEntrySizes: true }, (error, zip) => {
+      if (error || !zip) reject(new InvalidArchiveError(archive, error?.message ?? 'unreadable zip'));
+      else resolve(zip);
+    });
+  });
+
+/**
+ * Walk every entry of an archive, enforcing the safety checks before handing each
+ * file entry to the visitor
+ */
+const walkArchive = async (
+  archive: string,
+  limits: ArchiveLimits,
+  visit: (entry: yauzl.Entry, zip: yauzl.ZipFile) => Promise<void>
+): Promise<void> => {
+  const zip = await openZip(archive);
+
+  if (zip.entryCount > limits.maxEntries) {
+    zip.close();
+    throw new InvalidArchiveError(archive, `more than ${limits.maxEntries} entries`);
+  }
+
+  let total = 0;
+
+  await new Promise<void>((resolve, reject) => {
+    const fail = (reason: string) => {
+      zip.close();
+      reject(new InvalidArchiveError(archive, reason));
+    };
+
+    zip.on('error', (error: Error) => fail(error.message));
+    zip.on('end', () => resolve());
+    zip.on('entry', (entry: yauzl.Entry) => {
+      const nameProblem = checkEntryName(entry.fileName);
+      if (nameProblem) return fail(nameProblem);
+
+      if (((entry.externalFileAttributes >>> 16) & S_IFMT) === S_IFLNK) {
+        return fail(`entry "${entry.fileName}" is a symbolic link`);
+      }
+      if (entry.uncompressedSize > limits.maxEntrySize) {
+        return fail(`entry "${entry.fileName}" is larger than ${limits.maxEntrySize} bytes`);
+      }
+      total += entry.uncompressedSize;
+      if (total > limits.maxTotalSize) {
+        return fail(`contents are larger than ${limits.maxTotalSize} bytes`);
+      }
+
+      visit(entry, zip).then(() => zip.readEntry(), error => fail(error instanceof Error ? error.message : String(error)));
+    });
+
+    zip.readEntry();
+  });
+};
+
+const readEntry = (zip: yauzl.ZipFile, entry: yauzl.Entry): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    zip.openReadStream(entry, (error, stream) => {
+      if (error || !stream) return reject(error ?? new Error('unreadable entry'));
+      const chunks: Buffer[] = [];
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.on('error', reject);
+      stream.on('end', () => resolve(Buffer.concat(chunks)));
+    });
+  });
+
+/**
+ * Safely extract a vault archive
+ * Rejects path traversal, absolute paths and symlinks, and enforces size limits.
+ * Nothing is left behind in destDir if the archive is rejected
+ */
+export const extractArchive = async (
+  archive: string,
+  destDir: string,
+  limits: ArchiveLimits = DEFAULT_ARCHIVE_LIMITS
+): Promise<void> => {
+  const root = path.resolve(destDir);
+  await fs.ensureDir(root);
+
+  try {
+    await walkArchive(archive, limits, async (entry, zip) => {
+      const target = path.resolve(root, entry.fileName);
+      if (target !== root && !target.startsWith(root + path.sep)) {
+        throw new Error(`entry "${entry.fileName}" escapes the archive root`);
+      }
+
+      if (entry.fileName.endsWith('/')) {
+        await fs.ensureDir(target);
+        return;
+      }
+
+      await fs.outputFile(target, await readEntry(zip, entry));
+    });
+  } catch (error) {
+    await fs.remove(root);
+    throw error;
+  }
+};
+
+/**
+ * Read and validate the manifest inside a vault archive without extracting it
+ *
+ * @throws InvalidArchiveError if the archive is unsafe, has no manifest, or the
+ * manifest does not match the archive name
+ */
+export const readArchiveManifest = async (
+  archive: string,
+  limits: ArchiveLimits = DEFAULT_ARCHIVE_LIMITS
+): Promise<PrimitiveManifest> => {
+  let raw: Buffer | undefined;
+
+  await walkArchive(archive, limits, async (entry, zip) => {
+    if (entry.fileName === MANIFEST_FILE) {
+      raw = await readEntry(zip, entry);
+    }
+  });
+
+  if (!raw) {
+    throw new InvalidArchiveError(archive, `no ${MANIFEST_FILE} at the archive root`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw.toString('utf-8'));
+  } catch {
+    throw new InvalidArchiveError(archive, `${MANIFEST_FILE} is not valid JSON`);
+  }
+
+  const { manifest, issues } = validateManifest(data, parseArchiveName(archive) ?? {});
+  if (!manifest) {
+    throw new InvalidArchiveError(archive, issues.map(i => `${i.path} ${i.message}`).join('; '));
+  }
+  return manifest;
+};
@@ -0,0 +1,152 @@
+import fs from 'fs-extra';
+import { tmpdir } from 'os';
+import path from 'path';
+import { describe, test, expect } from 'vitest';
+import { installPrimitive } from './file-system';
+import { hasDrift, verifyPrimitives } from './verify';
+
+async function withProject(fn: (dir: string) => Promise<void>) {
+  const dir = await fs.mkdtemp(path.join(tmpdir(), 'skel-verify-'));
+  try {
+    await fs.writeJson(path.join(dir, 'skeleton.config.json'), { name: 'test', primitives: [], metadata: {} });
+    await fn(dir);
+  } finally {
+    await fs.remove(dir);
+  }
+}
+
+const installedDir = (dir: string) => path.join(dir, 'primitives', 'security', 'tokenizer', '1.0.0');
+
+describe('verifyPrimitives', () => {
+  test('reports no drift for an untouched install', async () => {
+    await withProject(async dir => {
+      await installPrimitive(dir, 'security.tokenizer', '1.0.0');
+
+      const [report] = await verifyPrimitives(dir);
+
+      expect(report).toEqual({
+        id: 'security.tokenizer',
+        version: '1.0.0',
+        baseline: 'lockfile',
+        modified: [],
+        missing: [],
+        extra: [],
+      });
+      expect(hasDrift(report)).toBe(false);
+    });
+  });
+
+  test('reports modified, missing and extra files', async () => {
+    await withProject(async dir => {
+      await installPrimitive(dir, 'security.tokenizer', '1.0.0');
+      await installPrimitive(dir, 'utils.uuid', '1.0.0');
+      await fs.appendFile(path.join(installedDir(dir), 'primitive.json'), ' ');
+      await fs.outputFile(path.join(installedDir(dir), 'patch.ts'), '');
+      await fs.remove(path.join(dir, 'primitives', 'utils'));
+
+      const reports = await verifyPrimitives(dir);
+
+      expect(reports).toEqual([
+        {
+          id: 'security.tokenizer',
+          version: '1.0.0',
+          baseline: 'lockfile',
+          modified: ['primitive.json'],
+          missing: [],
+          extra: ['patch.ts'],
+        },
+        {
+          id: 'utils.uuid',
+          version: '1.0.0',
+          baseline: 'lockfile',
+          modified: [],
+          missing: expect.arrayContaining(['primitive.json', 'src/index.ts']),
+          extra: [],
+        },
+      ]);
+      expect(reports.every(hasDrift)).toBe(true);
+    });
+  });
+
+  test('reports symlinks as tampered or extra entries', async () => {
+    await withProject(async dir => {
+      await installPrimitive(dir, 'security.tokenizer', '1.0.0');
+      const index = path.join(installedDir(dir), 'src', 'index.ts');
+      await fs.remove(index);
+      await fs.symlink('/etc/hostname', index);
+      await fs.symlink('/etc', path.join(installedDir(dir), 'etc'));
+
+      const [report] = await verifyPrimitives(dir);
+
+      expect(report.modified).toEqual(['src/index.ts']);
+      expect(report.extra).toEqual(['etc']);
+      expect(report.missing).toEqual([]);
+    });
+  });
+
+  test('reports a primitive folder replaced by a symlink as modified', async () => {
+    await withProject(async dir => {
+      await installPrimitive(dir, 'security.tokenizer', '1.0.0');
+      const copy = path.join(dir, 'elsewhere');
+      await fs.move(installedDir(dir), copy);
+      await fs.appendFile(path.join(copy, 'primitive.json'), ' ');
+      await fs.symlink(copy, installedDir(dir));
+
+      const [report] = await verifyPrimitives(dir);
+
+      expect(report.modified).toEqual(expect.arrayContaining(['primitive.json', 'src/index.ts']));
+      expect(report.missing).toEqual([]);
+      expect(hasDrift(report)).toBe(true);
+    });
+  });
+
+  test('reports a category folder replaced by a symlink as modified', async () => {
+    await withProject(async dir => {
+      await installPrimitive(dir, 'security.tokenizer', '1.0.0');
+      const category = path.join(dir, 'primitives', 'security');
+      await fs.move(category, path.join(dir, 'elsewhere'));
+      await fs.symlink(path.join(dir, 'elsewhere'), category);
+
+      const [report] = await verifyPrimitives(dir);
+
+      expect(report.id).toBe('security.tokenizer');
+      expect(report.modified).toEqual(expect.arrayContaining(['primitive.json']));
+    });
+  });
+
+  test('does not take files named after object properties for expected ones', async () => {
+    await withProject(async dir => {
+      await installPrimitive(dir, 'security.tokenizer', '1.0.0');
+      await fs.outputFile(path.join(installedDir(dir), 'constructor'), '');
+
+      const [report] = await verifyPrimitives(dir);
+
+      expect(report.modified).toEqual([]);
+      expect(report.extra).toEqual(['constructor']);
+    });
+  });
+
+  test('falls back to the library copy when there is no lockfile', async () => {
+    await withProject(async dir => {
+      await installPrimitive(dir, 'security.tokenizer', '1.0.0');
+      await fs.remove(path.join(dir, 'skeleton.lock.json'));
+
+      const [report] = await verifyPrimitives(dir);
+
+      expect(report.baseline).toBe('library');
+      expect(hasDrift(report)).toBe(false);
+    });
+  });
+
+  test('flags primitives with no known baseline', async () => {
+    await withProject(async dir => {
+      await fs.outputFile(path.join(dir, 'primitives', 'security', 'unknown', '0.0.1', 'index.ts'), '');
+
+      const [report] = await verifyPrimitives(dir);
+
+      expect(report.baseline).toBe('none');
+      expect(report.extra).toEqual(['index.ts']);
+      expect(hasDrift(report)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { hashFile } from './hash.js';
+import { readLockfile } from './lockfile.js';
+import { getPrimitivesPath, listFilesRecursive, walkTree } from './file-system.js';
+import { MANIFEST_FILE } from './manifest.js';
+
+export interface PrimitiveDrift {
+  id: string;
+  version: string;
+  /** What the installed files were compared against */
+  baseline: 'lockfile' | 'library' | 'none';
+  modified: string[];
+  missing: string[];
+  extra: string[];
+}
+
+export const hasDrift = (drift: PrimitiveDrift): boolean =>
+  drift.baseline === 'none' ||
+  drift.modified.length > 0 ||
+  drift.missing.length > 0 ||
+  drift.extra.length > 0;
+
+/**
+ * Expected hashes for a primitive version, taken from the lockfile when it has an
+ * entry, otherwise from the whole of the CLI's library copy of the same version
+ */
+const getBaseline = async (
+  id: string,
+  version: string,
+  locked: Record<string, { files: Record<string, string> }>
+): Promise<{ baseline: PrimitiveDrift['baseline']; files: Record<string, string> }> => {
+  const entry = locked[`${id}@${version}`];
+  if (entry) {
+    return { baseline: 'lockfile', files: entry.files };
+  }
+
+  const libraryPath = path.join(getPrimitivesPath(), ...id.split('.'), version);
+  if (await fs.pathExists(path.join(libraryPath, MANIFEST_FILE))) {
+    const files: Record<string, string> = {};
+    for (const file of await listFilesRecursive(libraryPath, ['node_modules'])) {
+      files[file] = await hashFile(path.join(libraryPath, file));
+    }
+    return { baseline: 'library', files };
+  }
+
+  return { baseline: 'none', files: {} };
+};
+
+/**
+ * Folders in a directory, including symlinks that point at one
+ */
+const listSubdirectories = async (dir: string): Promise<{ name: string; linked: boolean }[]> => {
+  if (!(await fs.pathExists(dir))) return [];
+  const subdirectories: { name: string; linked: boolean }[] = [];
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      subdirectories.push({ name: entry.name, linked: false });
+    } else if (entry.isSymbolicLink() && (await fs.stat(path.join(dir, entry.name)).catch(() => null))?.isDirectory()) {
+      subdirectories.push({ name: entry.name, linked: true });
+    }
+  }
+  return subdirectories.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Recompute the hashes of everything under the project's primitives/ tree and
+ * compare them with what was installed
+ * Primitive code is never modified, so any difference is reported as drift
+ *
+ * @param projectPath - Path to the project root
+ * @returns One report per installed (or locked) primitive version
+ */
+export const verifyPrimitives = async (projectPath: string): Promise<PrimitiveDrift[]> => {
+  const root = path.join(projectPath, 'primitives');
+  const lock = await readLockfile(projectPath);
+  const reports: PrimitiveDrift[] = [];
+  const seen = new Set<string>();
+
+  for (const category of await listSubdirectories(root)) {
+    for (const name of await listSubdirectories(path.join(root, category.name))) {
+      for (const version of await listSubdirectories(path.join(root, category.name, name.name))) {
+        const id = `${category.name}.${name.name}`;
+        const dir = path.join(root, category.name, name.name, version.name);
+        const { baseline, files: expected } = await getBaseline(id, version.name, lock.primitives);
+        const report: PrimitiveDrift = { id, version: version.name, baseline, modified: [], missing: [], extra: [] };
+        seen.add(`${id}@${version.name}`);
+        reports.push(report);
+
+        // A symlink in place of a primitive's folder is tampering, whatever it points at
+        if (category.linked || name.linked || version.linked) {
+          report.modified = Object.keys(expected).sort();
+          continue;
+        }
+
+        const { files, others } = await walkTree(dir);
+        for (const file of files) {
+          if (!Object.hasOwn(expected, file)) {
+            report.extra.push(file);
+          } else if ((await hashFile(path.join(dir, file))) !== expected[file]) {
+            report.modified.push(file);
+          }
+        }
+        // Primitives only ever ship regular files, so a symlink or device in place of one is tampering
+        for (const entry of others) {
+          (Object.hasOwn(expected, entry) ? report.modified : report.extra).push(entry);
+        }
+        report.modified.sort();
+        report.extra.sort();
+        const actual = [...files, ...others];
+        report.missing = Object.keys(expected).filter(file => !actual.includes(file)).sort();
+      }
+    }
+  }
+
+  // Locked primitives whose folder is gone entirely
+  for (const [record, entry] of Object.entries(lock.primitives)) {
+    if (seen.has(record)) continue;
+    reports.push({
+      id: entry.id,
+      version: entry.version,
+      baseline: 'lockfile',
+      modified: [],
+      missing: Object.keys(entry.files).sort(),
+      extra: [],
+    });
+  }
+
+  return reports;
+};
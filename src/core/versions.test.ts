@@ -0,0 +1,37 @@
+import { describe, test, expect } from 'vitest';
+import { InvalidVersionRangeError, resolveVersion } from './versions';
+
+const available = ['1.0.0', '1.0.3', '1.0.4', '1.2.0', '1.3.1', '2.0.0', '2.1.0-beta.1', 'draft'];
+
+describe('resolveVersion', () => {
+  test('defaults to the latest stable release', () => {
+    expect(resolveVersion(available)).toBe('2.0.0');
+    expect(resolveVersion(available, 'latest')).toBe('2.0.0');
+  });
+
+  test('resolves caret, tilde and comparator ranges', () => {
+    expect(resolveVersion(available, '^1.2')).toBe('1.3.1');
+    expect(resolveVersion(available, '~1.0.3')).toBe('1.0.4');
+    expect(resolveVersion(available, '>=1 <2')).toBe('1.3.1');
+  });
+
+  test('resolves exact versions, including prereleases', () => {
+    expect(resolveVersion(available, '1.0.3')).toBe('1.0.3');
+    expect(resolveVersion(available, '2.1.0-beta.1')).toBe('2.1.0-beta.1');
+  });
+
+  test('only picks prereleases when the range asks for them', () => {
+    expect(resolveVersion(available, '>=2')).toBe('2.0.0');
+    expect(resolveVersion(available, '^2.1.0-beta')).toBe('2.1.0-beta.1');
+    expect(resolveVersion(['1.0.0-rc.1'])).toBeNull();
+  });
+
+  test('returns null when nothing matches', () => {
+    expect(resolveVersion(available, '^3')).toBeNull();
+    expect(resolveVersion(available, '1.0.1')).toBeNull();
+  });
+
+  test('rejects invalid ranges', () => {
+    expect(() => resolveVersion(available, 'not a range')).toThrow(InvalidVersionRangeError);
+  });
+});
@@ -0,0 +1,38 @@
+import semver from 'semver';
+import { SkelError } from './errors.js';
+
+export const LATEST = 'latest';
+
+export class InvalidVersionRangeError extends SkelError {
+  constructor(range: string) {
+    super(`Invalid version or range: '${range}'`, 'INVALID_VERSION_RANGE');
+  }
+}
+
+/**
+ * Pick the highest available version that satisfies a range
+ * "latest" (the default) means the highest stable release. Prereleases are only
+ * chosen when the range asks for one explicitly (e.g. "2.0.0-beta.1" or "^2.0.0-beta")
+ *
+ * @param available - Version folder names found in the library
+ * @param range - Exact version, semver range or "latest"
+ * @returns The resolved version, or null if nothing matches
+ */
+export const resolveVersion = (available: string[], range: string = LATEST): string | null => {
+  const versions = available.filter(v => semver.valid(v));
+  const wanted = range.trim();
+
+  if (wanted === LATEST || wanted === '') {
+    return semver.rsort(versions.filter(v => !semver.prerelease(v)))[0] ?? null;
+  }
+
+  if (semver.valid(wanted)) {
+    return versions.find(v => semver.eq(v, wanted)) ?? null;
+  }
+
+  if (!semver.validRange(wanted)) {
+    throw new InvalidVersionRangeError(range);
+  }
+
+  return semver.maxSatisfying(versions, wanted);
+};
@@ -0,0 +1,37 @@
+import { Injectable, UnauthorizedException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { sign, verify } from '@skel/{{PRIMITIVE_ID}}';
+
+@Injectable()
+export class TokenizerService {
+  private readonly algorithm: 'HS256' | 'RS256';
+
+  constructor(private readonly configService: ConfigService) {
+    // @nestjs/config before 2.2 (NestJS 8) only has get(), so check for a missing key here
+    const algorithm = this.configService.get<'HS256' | 'RS256'>('JWT_ALGORITHM');
+    if (!algorithm) {
+      throw new Error('Configuration key "JWT_ALGORITHM" does not exist');
+    }
+    this.algorithm = algorithm;
+  }
+
+  signToken(payload: string): string {
+    try {
+      return sign(payload, this.algorithm);
+    } catch (error) {
+      throw new BadRequestException(
+        `Token signing failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  verifyToken(token: string): boolean {
+    try {
+      return verify(token, this.algorithm);
+    } catch (error) {
+      throw new UnauthorizedException(
+        `Token verification failed: ${error instanceof Error ? error.message : 'Invalid token'}`
+      );
+    }
+  }
+}